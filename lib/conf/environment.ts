@@ -4,3 +4,10 @@
  * @ignore
  */
 export const API_BASE_URL = 'https://api.digitalocean.com/v2';
+
+/**
+ * Largest page size accepted by list endpoints, used when walking all pages
+ *
+ * @ignore
+ */
+export const MAX_PER_PAGE = 200;
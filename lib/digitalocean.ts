@@ -1,83 +1,187 @@
-import { request } from './request-tool.ts';
+import { Middleware } from './middleware.ts';
+import { RateLimiter } from './rate-limit.ts';
+import { DigitalOceanOptions, RequestTool } from './request-tool.ts';
+import { SpacesTool } from './spaces-tool.ts';
 import { API_BASE_URL } from './conf/environment.ts';
 import { AccountService } from './services/account-service.ts';
 import { ActionService } from './services/actions-service.ts';
+import { AppsService } from './services/apps-service.ts';
 import { BillingHistoryService } from './services/billing-history-service.ts';
 import { BlockStorageActionService } from './services/block-storage-actions-service.ts';
 import { BlockStorageService } from './services/block-storage-service.ts';
 import { CdnService } from './services/cdn-service.ts';
 import { CertificateService } from './services/certificate-service.ts';
+import { DatabaseService } from './services/database-service.ts';
 import { DomainRecordService } from './services/domain-record-service.ts';
 import { DomainService } from './services/domain-service.ts';
 import { DropletActionService } from './services/droplet-actions-service.ts';
+import { DropletAutoscaleService } from './services/droplet-autoscale-service.ts';
 import { DropletService } from './services/droplet-service.ts';
 import { FirewallService } from './services/firewall-service.ts';
 import { FloatingIPActionService } from './services/floating-ip-actions-service.ts';
 import { FloatingIPService } from './services/floating-ip-service.ts';
+import { FunctionsService } from './services/functions-service.ts';
 import { ImageActionService } from './services/image-actions-service.ts';
 import { ImageService } from './services/image-service.ts';
 import { KubernetesService } from './services/kubernetes-service.ts';
 import { LoadBalancerService } from './services/load-balancer-service.ts';
+import { MonitoringService } from './services/monitoring-service.ts';
+import { OneClickService } from './services/one-click-service.ts';
 import { ProjectService } from './services/project-service.ts';
 import { RegionService } from './services/region-service.ts';
+import { RegistryService } from './services/registry-service.ts';
+import { ReservedIPActionService } from './services/reserved-ip-actions-service.ts';
+import { ReservedIPService } from './services/reserved-ip-service.ts';
 import { SizeService } from './services/size-service.ts';
 import { SnapshotService } from './services/snapshot-service.ts';
+import { SpacesKeyService } from './services/spaces-key-service.ts';
+import { SpacesService } from './services/spaces-service.ts';
 import { SshService } from './services/ssh-service.ts';
 import { TagService } from './services/tag-service.ts';
+import { UptimeService } from './services/uptime-service.ts';
+import { VpcService } from './services/vpc-service.ts';
+
+export type { DigitalOceanOptions, RequestOptions } from './request-tool.ts';
+export { Cassette, DEFAULT_SCRUBBED_FIELDS } from './cassette.ts';
+export type {
+  CassetteInteraction,
+  CassetteMatching,
+  CassetteMode,
+  CassetteOptions
+} from './cassette.ts';
+export type { Middleware } from './middleware.ts';
+export { toMetricPoints, toMetricSeries } from './metrics.ts';
+export type { MetricPoint, MetricSeries } from './metrics.ts';
+export type { RetryOptions } from './retry.ts';
+export type { SpacesOptions } from './spaces-tool.ts';
+export { waitUntil } from './waiter.ts';
+export type {
+  WaitableAction,
+  WaitOptions,
+  WaitUntilOptions
+} from './waiter.ts';
+export { RateLimiter } from './rate-limit.ts';
+export type {
+  RateLimitOptions,
+  RateLimitState,
+  ThrottleOptions
+} from './rate-limit.ts';
 
 export class DigitalOcean {
   public account: AccountService;
   public actions: ActionService;
+  public apps: AppsService;
   public billingHistory: BillingHistoryService;
   public blockStorage: BlockStorageService;
   public blockStorageActions: BlockStorageActionService;
   public cdn: CdnService;
   public certificates: CertificateService;
+  public databases: DatabaseService;
   public domains: DomainService;
   public domainRecords: DomainRecordService;
   public droplets: DropletService;
   public dropletActions: DropletActionService;
+  public dropletAutoscale: DropletAutoscaleService;
   public firewalls: FirewallService;
+  /** @deprecated Use `reservedIPs` instead */
   public floatingIPs: FloatingIPService;
+  /** @deprecated Use `reservedIPActions` instead */
   public floatingIPActions: FloatingIPActionService;
+  public functions: FunctionsService;
   public images: ImageService;
   public imageActions: ImageActionService;
   public kubernetes: KubernetesService;
   public loadBalancers: LoadBalancerService;
+  public monitoring: MonitoringService;
+  public oneClicks: OneClickService;
   public projects: ProjectService;
   public regions: RegionService;
+  public registry: RegistryService;
+  public reservedIPs: ReservedIPService;
+  public reservedIPActions: ReservedIPActionService;
   public sizes: SizeService;
   public snapshots: SnapshotService;
+  public spaces: SpacesService;
+  public spacesKeys: SpacesKeyService;
   public ssh: SshService;
   public tags: TagService;
+  public uptime: UptimeService;
+  public vpcs: VpcService;
+
+  /**
+   * Rate limit state of this client, dispatching a `low` event when the
+   * remaining requests drop below the configured threshold
+   */
+  public rateLimit: RateLimiter;
 
-  constructor(private token: string, url = API_BASE_URL) {
-    request.baseUrl = url;
-    request.token = this.token;
+  private request: RequestTool;
 
-    this.account = new AccountService();
-    this.actions = new ActionService();
-    this.billingHistory = new BillingHistoryService();
-    this.blockStorage = new BlockStorageService();
-    this.blockStorageActions = new BlockStorageActionService();
-    this.cdn = new CdnService();
-    this.certificates = new CertificateService();
-    this.domains = new DomainService();
-    this.domainRecords = new DomainRecordService();
-    this.droplets = new DropletService();
-    this.dropletActions = new DropletActionService();
-    this.firewalls = new FirewallService();
-    this.floatingIPs = new FloatingIPService();
-    this.floatingIPActions = new FloatingIPActionService();
-    this.images = new ImageService();
-    this.imageActions = new ImageActionService();
-    this.kubernetes = new KubernetesService();
-    this.loadBalancers = new LoadBalancerService();
-    this.projects = new ProjectService();
-    this.regions = new RegionService();
-    this.sizes = new SizeService();
-    this.snapshots = new SnapshotService();
-    this.ssh = new SshService();
-    this.tags = new TagService();
+  constructor(
+    private token: string,
+    url = API_BASE_URL,
+    options: DigitalOceanOptions = {}
+  ) {
+    const request = new RequestTool(this.token, url, options);
+    this.request = request;
+    this.rateLimit = request.rateLimit;
+
+    this.account = new AccountService(request);
+    this.actions = new ActionService(request);
+    this.apps = new AppsService(request);
+    this.billingHistory = new BillingHistoryService(request);
+    this.blockStorage = new BlockStorageService(request);
+    this.blockStorageActions = new BlockStorageActionService(request);
+    this.cdn = new CdnService(request);
+    this.certificates = new CertificateService(request);
+    this.databases = new DatabaseService(request);
+    this.domains = new DomainService(request);
+    this.domainRecords = new DomainRecordService(request);
+    this.droplets = new DropletService(request);
+    this.dropletActions = new DropletActionService(request);
+    this.dropletAutoscale = new DropletAutoscaleService(request);
+    this.firewalls = new FirewallService(request);
+    this.floatingIPs = new FloatingIPService(request);
+    this.floatingIPActions = new FloatingIPActionService(request);
+    this.functions = new FunctionsService(request);
+    this.images = new ImageService(request);
+    this.imageActions = new ImageActionService(request);
+    this.kubernetes = new KubernetesService(request);
+    this.loadBalancers = new LoadBalancerService(request);
+    this.monitoring = new MonitoringService(request);
+    this.oneClicks = new OneClickService(request);
+    this.projects = new ProjectService(request);
+    this.regions = new RegionService(request);
+    this.registry = new RegistryService(request);
+    this.reservedIPs = new ReservedIPService(request);
+    this.reservedIPActions = new ReservedIPActionService(request);
+    this.sizes = new SizeService(request);
+    this.snapshots = new SnapshotService(request);
+    this.spaces = new SpacesService(new SpacesTool(options));
+    this.spacesKeys = new SpacesKeyService(request);
+    this.ssh = new SshService(request);
+    this.tags = new TagService(request);
+    this.uptime = new UptimeService(request);
+    this.vpcs = new VpcService(request);
+  }
+  /**
+   * Register middleware hooking into every request of this client, e.g. to
+   * add headers, trace or log requests
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * client.use({
+   *   beforeRequest: request => {
+   *     request.headers.set('X-Trace-Id', crypto.randomUUID());
+   *   },
+   *   onError: (error, request) => console.error(request.url, error)
+   * });
+   * ```
+   */
+  public use(...middleware: Middleware[]): this {
+    this.request.use(...middleware);
+    return this;
   }
 }
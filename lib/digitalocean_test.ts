@@ -0,0 +1,50 @@
+import { assertEquals, assertNotEquals, assertThrows } from '@std/assert';
+import { RESOURCE_TYPE } from './models/project.ts';
+import { StubFetch } from './testing/stub-fetch.ts';
+import { DigitalOcean } from './digitalocean.ts';
+
+Deno.test('should exist', () => {
+  const client = new DigitalOcean('abc123');
+  assertNotEquals(client, undefined);
+});
+
+Deno.test('parseProjectResourceUrn method - success', () => {
+  const client = new DigitalOcean('abc123');
+  assertEquals(client.projects.parseProjectResourceUrn('do:droplet:123456'), {
+    id: '123456',
+    type: RESOURCE_TYPE.DROPLET
+  });
+});
+
+Deno.test('parseProjectResourceUrn method - bad urn', () => {
+  const client = new DigitalOcean('abc123');
+  assertThrows(
+    () => client.projects.parseProjectResourceUrn('this-is-not-a-urn'),
+    Error,
+    `URN expected in the format of 'do:resource_type:resource_id'`
+  );
+});
+
+Deno.test('clients keep their own token and base url', async () => {
+  const stub = new StubFetch(() => Response.json({ tag: { name: 'web' } }));
+  const restore = stub.install();
+  try {
+    const first = new DigitalOcean('first', 'https://one.example/v2');
+    const second = new DigitalOcean('second', 'https://two.example/v2');
+
+    await first.tags.createTag('web');
+    await second.tags.getTagByName('web');
+  } finally {
+    restore();
+  }
+
+  assertEquals(
+    stub.requests.map(
+      request => `${request.url} ${request.headers.get('authorization')}`
+    ),
+    [
+      'https://one.example/v2/tags Bearer first',
+      'https://two.example/v2/tags/web Bearer second'
+    ]
+  );
+});
@@ -0,0 +1,135 @@
+// deno-lint-ignore-file no-explicit-any
+import { Action } from './models/action.ts';
+
+/**
+ * Details of a failed API call, as handed to the error constructors
+ */
+export interface DigitalOceanErrorDetails {
+  status: number;
+  method: string;
+  endpoint: string;
+  response?: Response;
+  text?: string | null;
+  data?: any;
+}
+
+/**
+ * Base class for every error returned by the DigitalOcean API.
+ *
+ * `id`, `message` and `request_id` are taken from the API error body when
+ * present, e.g. `{ "id": "not_found", "message": "...", "request_id": "..." }`.
+ */
+export class DigitalOceanError extends Error {
+  readonly id?: string;
+  readonly request_id?: string;
+  readonly status: number;
+  readonly method: string;
+  readonly endpoint: string;
+  readonly response?: Response;
+  readonly text?: string | null;
+  readonly data?: any;
+
+  constructor(details: DigitalOceanErrorDetails) {
+    const { data, status, method, endpoint } = details;
+    super(
+      data?.message || `${method} ${endpoint} failed with status ${status}`
+    );
+    this.name = new.target.name;
+    this.id = data?.id;
+    this.request_id = data?.request_id;
+    this.status = status;
+    this.method = method;
+    this.endpoint = endpoint;
+    this.response = details.response;
+    this.text = details.text;
+    this.data = data;
+  }
+}
+
+/** The request was malformed or failed validation (400, 422) */
+export class ValidationError extends DigitalOceanError {}
+
+/** The token is missing, invalid or lacks the required scope (401, 403) */
+export class UnauthorizedError extends DigitalOceanError {}
+
+/** The requested resource does not exist (404) */
+export class NotFoundError extends DigitalOceanError {}
+
+/** The request conflicts with the current state of the resource (409) */
+export class ConflictError extends DigitalOceanError {}
+
+/** The API rate limit has been exceeded (429) */
+export class RateLimitError extends DigitalOceanError {}
+
+/** DigitalOcean failed to process the request (5xx) */
+export class ServerError extends DigitalOceanError {}
+
+/**
+ * Create the error matching the HTTP status of a failed API call
+ *
+ * @ignore
+ */
+export function createApiError(
+  details: DigitalOceanErrorDetails
+): DigitalOceanError {
+  const { status } = details;
+  if (status >= 500) {
+    return new ServerError(details);
+  }
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(details);
+    case 401:
+    case 403:
+      return new UnauthorizedError(details);
+    case 404:
+      return new NotFoundError(details);
+    case 409:
+      return new ConflictError(details);
+    case 429:
+      return new RateLimitError(details);
+    default:
+      return new DigitalOceanError(details);
+  }
+}
+
+/**
+ * An action finished with the `errored` status while being waited on
+ */
+export class ActionFailedError extends Error {
+  constructor(readonly action: Action) {
+    super(`Action ${action.id} (${action.type}) errored`);
+    this.name = 'ActionFailedError';
+  }
+}
+
+/**
+ * A resource did not reach the expected state within the allowed time
+ */
+export class WaitTimeoutError extends Error {
+  constructor(description: string, readonly timeout: number) {
+    super(`Timed out after ${timeout}ms waiting for ${description}`);
+    this.name = 'WaitTimeoutError';
+  }
+}
+
+/**
+ * A resource entered a failed state (e.g. `errored`) while being waited on
+ */
+export class ResourceFailedError<T = unknown> extends Error {
+  constructor(description: string, readonly resource: T) {
+    super(`${description} failed`);
+    this.name = 'ResourceFailedError';
+  }
+}
+
+/**
+ * A replayed request has no matching interaction in the cassette
+ */
+export class CassetteMismatchError extends Error {
+  constructor(readonly method: string, readonly url: string) {
+    super(`No recorded interaction matches ${method} ${url}`);
+    this.name = 'CassetteMismatchError';
+  }
+}
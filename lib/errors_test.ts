@@ -0,0 +1,85 @@
+import { assertEquals, assertInstanceOf, assertRejects } from '@std/assert';
+import { DigitalOcean } from './digitalocean.ts';
+import {
+  ConflictError,
+  createApiError,
+  DigitalOceanError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  UnauthorizedError,
+  ValidationError
+} from './errors.ts';
+import { StubFetch } from './testing/stub-fetch.ts';
+
+Deno.test('createApiError maps statuses to error classes', () => {
+  const classes: [number, typeof DigitalOceanError][] = [
+    [400, ValidationError],
+    [401, UnauthorizedError],
+    [403, UnauthorizedError],
+    [404, NotFoundError],
+    [409, ConflictError],
+    [422, ValidationError],
+    [429, RateLimitError],
+    [500, ServerError],
+    [503, ServerError],
+    [418, DigitalOceanError]
+  ];
+  for (const [status, type] of classes) {
+    const error = createApiError({ status, method: 'GET', endpoint: '/' });
+    assertEquals(error.constructor, type, `status ${status}`);
+    assertEquals(error.status, status);
+  }
+});
+
+Deno.test('API errors carry the details of the error body', async () => {
+  const stub = new StubFetch(() =>
+    Response.json(
+      {
+        id: 'not_found',
+        message: 'The resource you were accessing could not be found.',
+        request_id: 'a3f5c1e0'
+      },
+      { status: 404 }
+    )
+  );
+  const restore = stub.install();
+  try {
+    const client = new DigitalOcean('token');
+    const error = await assertRejects(
+      () => client.droplets.getExistingDroplet(1234),
+      NotFoundError
+    );
+    assertEquals(error.status, 404);
+    assertEquals(error.id, 'not_found');
+    assertEquals(error.request_id, 'a3f5c1e0');
+    assertEquals(error.method, 'GET');
+    assertEquals(error.endpoint, '/droplets/1234');
+    assertEquals(
+      error.message,
+      'The resource you were accessing could not be found.'
+    );
+    assertEquals(error.name, 'NotFoundError');
+  } finally {
+    restore();
+  }
+});
+
+Deno.test('error responses without a JSON body still map', async () => {
+  const stub = new StubFetch(
+    () => new Response('Bad gateway', { status: 502 })
+  );
+  const restore = stub.install();
+  try {
+    const client = new DigitalOcean('token', undefined, { retry: false });
+    const error = await assertRejects(
+      () => client.account.getUserInformation(),
+      ServerError
+    );
+    assertInstanceOf(error, DigitalOceanError);
+    assertEquals(error.text, 'Bad gateway');
+    assertEquals(error.message, 'GET /account failed with status 502');
+  } finally {
+    restore();
+  }
+});
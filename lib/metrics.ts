@@ -0,0 +1,71 @@
+import { Metrics } from './models/monitoring.ts';
+
+/**
+ * A single sample of a metric
+ */
+export interface MetricPoint {
+  timestamp: Date;
+  value: number;
+}
+
+/**
+ * A metric series with its labels and samples in plain form
+ */
+export interface MetricSeries {
+  labels: { [label: string]: string };
+  points: MetricPoint[];
+}
+
+/**
+ * Convert a Prometheus matrix result into plain series with `Date`
+ * timestamps and numeric values
+ *
+ * ### Example
+ * ```js
+ * import { DigitalOcean, toMetricSeries } from 'digitalocean-js';
+ *
+ * const client = new DigitalOcean('your-api-key');
+ * const metrics = await client.monitoring.getDropletCpuMetrics(
+ *   '123456',
+ *   new Date(Date.now() - 60 * 60 * 1000),
+ *   new Date()
+ * );
+ * for (const series of toMetricSeries(metrics)) {
+ *   console.log(series.labels.mode, series.points);
+ * }
+ * ```
+ */
+export function toMetricSeries(metrics: Metrics): MetricSeries[] {
+  return metrics.data.result.map(result => ({
+    labels: result.metric,
+    points: result.values.map(([timestamp, value]) => ({
+      timestamp: new Date(timestamp * 1000),
+      value: Number(value)
+    }))
+  }));
+}
+
+/**
+ * Get the samples of the first series whose labels include all of `labels`,
+ * or an empty array if no series matches
+ *
+ * ### Example
+ * ```js
+ * import { DigitalOcean, toMetricPoints } from 'digitalocean-js';
+ *
+ * const client = new DigitalOcean('your-api-key');
+ * const metrics = await client.monitoring.getDropletCpuMetrics('123456', start, end);
+ * const idle = toMetricPoints(metrics, { mode: 'idle' });
+ * ```
+ */
+export function toMetricPoints(
+  metrics: Metrics,
+  labels: { [label: string]: string } = {}
+): MetricPoint[] {
+  const series = toMetricSeries(metrics).find(series =>
+    Object.entries(labels).every(
+      ([label, value]) => series.labels[label] === value
+    )
+  );
+  return series?.points ?? [];
+}
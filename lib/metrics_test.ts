@@ -0,0 +1,38 @@
+import { assertEquals } from '@std/assert';
+import { toMetricPoints, toMetricSeries } from './metrics.ts';
+
+const METRICS = {
+  status: 'success',
+  data: {
+    resultType: 'matrix',
+    result: [
+      {
+        metric: { host_id: '123456', mode: 'idle' },
+        values: [
+          [1704067200, '100.5'],
+          [1704067260, '101']
+        ]
+      },
+      {
+        metric: { host_id: '123456', mode: 'user' },
+        values: [[1704067200, '3.25']]
+      }
+    ]
+  }
+} as any;
+
+Deno.test('toMetricSeries converts timestamps and values', () => {
+  const [idle] = toMetricSeries(METRICS);
+  assertEquals(idle.labels.mode, 'idle');
+  assertEquals(idle.points, [
+    { timestamp: new Date('2024-01-01T00:00:00Z'), value: 100.5 },
+    { timestamp: new Date('2024-01-01T00:01:00Z'), value: 101 }
+  ]);
+});
+
+Deno.test('toMetricPoints picks the series matching the labels', () => {
+  assertEquals(toMetricPoints(METRICS, { mode: 'user' }), [
+    { timestamp: new Date('2024-01-01T00:00:00Z'), value: 3.25 }
+  ]);
+  assertEquals(toMetricPoints(METRICS, { mode: 'steal' }), []);
+});
@@ -0,0 +1,40 @@
+/**
+ * Hooks into every HTTP request sent by a client, e.g. to add headers, trace
+ * or log requests. All hooks are optional and may be async.
+ *
+ * ### Example
+ * ```js
+ * import { DigitalOcean } from 'digitalocean-js';
+ *
+ * const client = new DigitalOcean('your-api-key');
+ * client.use({
+ *   beforeRequest: request => {
+ *     request.headers.set('User-Agent', 'my-app/1.0');
+ *   },
+ *   afterResponse: (response, request) => {
+ *     console.log(request.method, request.url, response.status);
+ *   }
+ * });
+ * ```
+ */
+export interface Middleware {
+  /**
+   * Called before a request is sent. Return a `Request` to send it instead.
+   */
+  beforeRequest?: (
+    request: Request
+  ) => Request | void | Promise<Request | void>;
+  /**
+   * Called with each response before it is parsed. Return a `Response` to
+   * use it instead.
+   */
+  afterResponse?: (
+    response: Response,
+    request: Request
+  ) => Response | void | Promise<Response | void>;
+  /**
+   * Called when an attempt fails, on network errors as well as API errors and
+   * errors thrown by other hooks. Retried attempts report each failure.
+   */
+  onError?: (error: unknown, request: Request) => void | Promise<void>;
+}
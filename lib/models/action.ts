@@ -5,7 +5,7 @@ export interface Action {
   status: string;
   type: string;
   started_at: string;
-  completed_at: string;
+  completed_at: string | null;
   resource_id: number;
   resource_type: string;
   region?: Region | string | null;
@@ -0,0 +1,332 @@
+export interface AppGitSource {
+  repo_clone_url: string;
+  branch?: string;
+}
+
+export interface AppGitHubSource {
+  repo: string;
+  branch?: string;
+  deploy_on_push?: boolean;
+}
+
+export interface AppGitLabSource {
+  repo: string;
+  branch?: string;
+  deploy_on_push?: boolean;
+}
+
+export interface AppImageSource {
+  registry_type: 'DOCKER_HUB' | 'DOCR' | 'GHCR';
+  registry?: string;
+  repository: string;
+  tag?: string;
+  digest?: string;
+}
+
+export type AppVariableScope =
+  | 'UNSET'
+  | 'RUN_TIME'
+  | 'BUILD_TIME'
+  | 'RUN_AND_BUILD_TIME';
+
+export interface AppVariableDefinition {
+  key: string;
+  value?: string;
+  scope?: AppVariableScope;
+  type?: 'GENERAL' | 'SECRET';
+}
+
+export interface AppDomainSpec {
+  domain: string;
+  type?: 'UNSPECIFIED' | 'DEFAULT' | 'PRIMARY' | 'ALIAS';
+  wildcard?: boolean;
+  zone?: string;
+  minimum_tls_version?: '1.2' | '1.3';
+}
+
+export interface AppRouteSpec {
+  path: string;
+  preserve_path_prefix?: boolean;
+}
+
+export interface AppHealthCheckSpec {
+  http_path?: string;
+  port?: number;
+  initial_delay_seconds?: number;
+  period_seconds?: number;
+  timeout_seconds?: number;
+  success_threshold?: number;
+  failure_threshold?: number;
+}
+
+export interface AppCorsPolicy {
+  allow_origins?: (
+    | { exact: string }
+    | { prefix: string }
+    | { regex: string }
+  )[];
+  allow_methods?: string[];
+  allow_headers?: string[];
+  expose_headers?: string[];
+  max_age?: string;
+  allow_credentials?: boolean;
+}
+
+/**
+ * Settings shared by every component of an app
+ */
+export interface AppComponentSpec {
+  name: string;
+  git?: AppGitSource;
+  github?: AppGitHubSource;
+  gitlab?: AppGitLabSource;
+  image?: AppImageSource;
+  source_dir?: string;
+  dockerfile_path?: string;
+  build_command?: string;
+  environment_slug?: string;
+  envs?: AppVariableDefinition[];
+}
+
+/**
+ * Settings shared by components running on instances
+ */
+export interface AppInstanceComponentSpec extends AppComponentSpec {
+  run_command?: string;
+  instance_count?: number;
+  instance_size_slug?: string;
+  alerts?: AppAlertSpec[];
+}
+
+export interface AppServiceSpec extends AppInstanceComponentSpec {
+  http_port?: number;
+  internal_ports?: number[];
+  routes?: AppRouteSpec[];
+  health_check?: AppHealthCheckSpec;
+  cors?: AppCorsPolicy;
+}
+
+export interface AppStaticSiteSpec extends AppComponentSpec {
+  output_dir?: string;
+  index_document?: string;
+  error_document?: string;
+  catchall_document?: string;
+  routes?: AppRouteSpec[];
+  cors?: AppCorsPolicy;
+}
+
+export type AppWorkerSpec = AppInstanceComponentSpec;
+
+export type AppJobKind =
+  | 'UNSPECIFIED'
+  | 'PRE_DEPLOY'
+  | 'POST_DEPLOY'
+  | 'FAILED_DEPLOY';
+
+export interface AppJobSpec extends AppInstanceComponentSpec {
+  kind?: AppJobKind;
+}
+
+export interface AppDatabaseSpec {
+  name: string;
+  engine?: 'UNSET' | 'MYSQL' | 'PG' | 'REDIS';
+  version?: string;
+  production?: boolean;
+  cluster_name?: string;
+  db_name?: string;
+  db_user?: string;
+}
+
+export type AppAlertRule =
+  | 'UNSPECIFIED_RULE'
+  | 'CPU_UTILIZATION'
+  | 'MEM_UTILIZATION'
+  | 'RESTART_COUNT'
+  | 'DEPLOYMENT_FAILED'
+  | 'DEPLOYMENT_LIVE'
+  | 'DOMAIN_FAILED'
+  | 'DOMAIN_LIVE'
+  | 'FUNCTIONS_ACTIVATION_COUNT'
+  | 'FUNCTIONS_AVERAGE_DURATION_MS'
+  | 'FUNCTIONS_ERROR_RATE_PER_MINUTE'
+  | 'FUNCTIONS_AVERAGE_WAIT_TIME_MS'
+  | 'FUNCTIONS_ERROR_COUNT'
+  | 'FUNCTIONS_GB_RATE_PER_SECOND';
+
+export interface AppAlertSpec {
+  rule: AppAlertRule;
+  disabled?: boolean;
+  operator?: 'UNSPECIFIED_OPERATOR' | 'GREATER_THAN' | 'LESS_THAN';
+  value?: number;
+  window?:
+    | 'UNSPECIFIED_WINDOW'
+    | 'FIVE_MINUTES'
+    | 'TEN_MINUTES'
+    | 'THIRTY_MINUTES'
+    | 'ONE_HOUR';
+}
+
+export interface AppSpec {
+  name: string;
+  region?: string;
+  domains?: AppDomainSpec[];
+  services?: AppServiceSpec[];
+  static_sites?: AppStaticSiteSpec[];
+  workers?: AppWorkerSpec[];
+  jobs?: AppJobSpec[];
+  databases?: AppDatabaseSpec[];
+  envs?: AppVariableDefinition[];
+  alerts?: AppAlertSpec[];
+}
+
+export interface AppRequest {
+  spec: AppSpec;
+  project_id?: string;
+}
+
+export interface AppRegion {
+  slug: string;
+  label: string;
+  flag: string;
+  continent: string;
+  data_centers: string[];
+  default?: boolean;
+  disabled?: boolean;
+}
+
+export interface App {
+  id: string;
+  owner_uuid: string;
+  spec: AppSpec;
+  default_ingress?: string;
+  live_url?: string;
+  live_url_base?: string;
+  live_domain?: string;
+  created_at: string;
+  updated_at?: string;
+  last_deployment_created_at?: string;
+  last_deployment_active_at?: string;
+  active_deployment?: AppDeployment;
+  in_progress_deployment?: AppDeployment;
+  pending_deployment?: AppDeployment;
+  region?: AppRegion;
+  tier_slug?: string;
+  project_id?: string;
+}
+
+export type AppDeploymentPhase =
+  | 'UNKNOWN'
+  | 'PENDING_BUILD'
+  | 'BUILDING'
+  | 'PENDING_DEPLOY'
+  | 'DEPLOYING'
+  | 'ACTIVE'
+  | 'SUPERSEDED'
+  | 'ERROR'
+  | 'CANCELED';
+
+export interface AppDeploymentComponent {
+  name: string;
+  source_commit_hash?: string;
+}
+
+export interface AppDeploymentProgressStep {
+  name: string;
+  status: 'UNKNOWN' | 'PENDING' | 'RUNNING' | 'ERROR' | 'SUCCESS';
+  started_at?: string;
+  ended_at?: string;
+  steps?: AppDeploymentProgressStep[];
+}
+
+export interface AppDeploymentProgress {
+  pending_steps: number;
+  running_steps: number;
+  success_steps: number;
+  error_steps: number;
+  total_steps: number;
+  steps?: AppDeploymentProgressStep[];
+}
+
+export interface AppDeployment {
+  id: string;
+  spec: AppSpec;
+  services?: AppDeploymentComponent[];
+  static_sites?: AppDeploymentComponent[];
+  workers?: AppDeploymentComponent[];
+  jobs?: AppDeploymentComponent[];
+  phase: AppDeploymentPhase;
+  phase_last_updated_at: string;
+  created_at: string;
+  updated_at: string;
+  cause: string;
+  cloned_from?: string;
+  progress?: AppDeploymentProgress;
+  tier_slug?: string;
+}
+
+export type AppLogType = 'BUILD' | 'DEPLOY' | 'RUN' | 'RUN_RESTARTED';
+
+export interface AppLogsOptions {
+  /** Keep the live log stream open */
+  follow?: boolean;
+  /** Seconds to wait for a container to become available */
+  pod_connection_timeout?: string;
+}
+
+export interface AppLogs {
+  live_url: string;
+  historic_urls: string[];
+}
+
+/**
+ * Result of validating an app spec without creating the app
+ */
+export interface AppProposeResponse {
+  app_name_available: boolean;
+  app_name_suggestion?: string;
+  app_is_static?: boolean;
+  app_cost?: number;
+  app_tier_upgrade_cost?: number;
+  app_tier_downgrade_cost?: number;
+  existing_static_apps?: string;
+  max_free_static_apps?: string;
+  spec?: AppSpec;
+}
+
+export interface AppRollbackRequest {
+  deployment_id: string;
+  /** Leave the app unpinned, so later commits deploy automatically */
+  skip_pin?: boolean;
+}
+
+export interface AppRollbackValidation {
+  valid: boolean;
+  error?: {
+    code: string;
+    message: string;
+  };
+  warnings?: {
+    code: string;
+    message: string;
+  }[];
+}
+
+export interface AppAlertSlackWebhook {
+  url: string;
+  channel: string;
+}
+
+export interface AppAlertDestinations {
+  emails?: string[];
+  slack_webhooks?: AppAlertSlackWebhook[];
+}
+
+export interface AppAlert {
+  id: string;
+  component_name?: string;
+  spec: AppAlertSpec;
+  emails: string[];
+  slack_webhooks: AppAlertSlackWebhook[];
+  phase: 'UNKNOWN' | 'PENDING' | 'CONFIGURING' | 'ACTIVE' | 'ERROR';
+  progress?: AppDeploymentProgress;
+}
@@ -0,0 +1,267 @@
+export type DatabaseEngine = 'pg' | 'mysql' | 'redis';
+
+export type DatabaseClusterStatus =
+  | 'creating'
+  | 'online'
+  | 'resizing'
+  | 'migrating'
+  | 'forking';
+
+export interface DatabaseConnection {
+  uri: string;
+  database: string;
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  ssl: boolean;
+}
+
+export interface DatabaseMaintenanceWindow {
+  day: string;
+  hour: string;
+  pending?: boolean;
+  description?: string[];
+}
+
+interface DatabaseClusterBase {
+  id: string;
+  name: string;
+  engine: DatabaseEngine;
+  version: string;
+  num_nodes: number;
+  size: string;
+  region: string;
+  status: DatabaseClusterStatus;
+  created_at: string;
+  private_network_uuid: string;
+  tags: string[] | null;
+  db_names: string[] | null;
+  connection: DatabaseConnection;
+  private_connection: DatabaseConnection;
+  users: DatabaseUser[] | null;
+  maintenance_window: DatabaseMaintenanceWindow | null;
+  project_id?: string;
+  storage_size_mib?: number;
+}
+
+export interface PostgresDatabaseCluster extends DatabaseClusterBase {
+  engine: 'pg';
+}
+
+export interface MysqlDatabaseCluster extends DatabaseClusterBase {
+  engine: 'mysql';
+}
+
+export interface RedisDatabaseCluster extends DatabaseClusterBase {
+  engine: 'redis';
+}
+
+/**
+ * A database cluster, narrowed to the engine specific type by `engine`
+ */
+export type DatabaseCluster =
+  | PostgresDatabaseCluster
+  | MysqlDatabaseCluster
+  | RedisDatabaseCluster;
+
+export interface DatabaseBackupRestore {
+  database_name: string;
+  backup_created_at?: string;
+}
+
+export interface DatabaseClusterRequest {
+  name: string;
+  engine: DatabaseEngine;
+  version?: string;
+  size: string;
+  region: string;
+  num_nodes: number;
+  private_network_uuid?: string;
+  tags?: string[];
+  project_id?: string;
+  storage_size_mib?: number;
+  backup_restore?: DatabaseBackupRestore;
+}
+
+export interface DatabaseResizeRequest {
+  size: string;
+  num_nodes: number;
+  storage_size_mib?: number;
+}
+
+export interface DatabaseReplica {
+  name: string;
+  connection?: DatabaseConnection;
+  private_connection?: DatabaseConnection;
+  region?: string;
+  size: string;
+  status?: DatabaseClusterStatus;
+  created_at?: string;
+  private_network_uuid?: string;
+  tags?: string[];
+  storage_size_mib?: number;
+}
+
+export type MysqlAuthPlugin = 'mysql_native_password' | 'caching_sha2_password';
+
+export interface DatabaseUser {
+  name: string;
+  role?: 'primary' | 'normal';
+  password?: string;
+  mysql_settings?: {
+    auth_plugin: MysqlAuthPlugin;
+  };
+}
+
+export interface Database {
+  name: string;
+}
+
+export type DatabasePoolMode = 'session' | 'transaction' | 'statement';
+
+export interface DatabaseConnectionPool {
+  name: string;
+  mode: DatabasePoolMode;
+  size: number;
+  db: string;
+  user?: string;
+  connection?: DatabaseConnection;
+  private_connection?: DatabaseConnection;
+}
+
+export type DatabaseFirewallRuleType =
+  | 'droplet'
+  | 'k8s'
+  | 'ip_addr'
+  | 'tag'
+  | 'app';
+
+export interface DatabaseFirewallRule {
+  uuid?: string;
+  cluster_uuid?: string;
+  type: DatabaseFirewallRuleType;
+  value: string;
+  created_at?: string;
+}
+
+export interface DatabaseBackup {
+  created_at: string;
+  size_gigabytes: number;
+}
+
+export type DatabaseMigrationStatus =
+  | 'running'
+  | 'syncing'
+  | 'canceled'
+  | 'error'
+  | 'done';
+
+export interface DatabaseMigrationSource {
+  host: string;
+  port: number;
+  dbname: string;
+  username: string;
+  password: string;
+}
+
+export interface DatabaseOnlineMigrationRequest {
+  source: DatabaseMigrationSource;
+  disable_ssl?: boolean;
+  ignore_dbs?: string[];
+}
+
+export interface DatabaseOnlineMigration {
+  id: string;
+  status: DatabaseMigrationStatus;
+  created_at: string;
+}
+
+export type RedisEvictionPolicy =
+  | 'noeviction'
+  | 'allkeys_lru'
+  | 'allkeys_random'
+  | 'volatile_lru'
+  | 'volatile_random'
+  | 'volatile_ttl';
+
+export interface PostgresConfig {
+  autovacuum_freeze_max_age?: number;
+  autovacuum_max_workers?: number;
+  autovacuum_naptime?: number;
+  autovacuum_vacuum_threshold?: number;
+  autovacuum_analyze_threshold?: number;
+  autovacuum_vacuum_scale_factor?: number;
+  autovacuum_analyze_scale_factor?: number;
+  deadlock_timeout?: number;
+  idle_in_transaction_session_timeout?: number;
+  jit?: boolean;
+  log_min_duration_statement?: number;
+  max_connections?: number;
+  max_parallel_workers?: number;
+  max_parallel_workers_per_gather?: number;
+  max_prepared_transactions?: number;
+  max_worker_processes?: number;
+  shared_buffers_percentage?: number;
+  statement_timeout?: number;
+  timezone?: string;
+  work_mem?: number;
+}
+
+export interface MysqlConfig {
+  connect_timeout?: number;
+  default_time_zone?: string;
+  group_concat_max_len?: number;
+  information_schema_stats_expiry?: number;
+  innodb_ft_min_token_size?: number;
+  innodb_lock_wait_timeout?: number;
+  interactive_timeout?: number;
+  long_query_time?: number;
+  max_allowed_packet?: number;
+  net_read_timeout?: number;
+  net_write_timeout?: number;
+  slow_query_log?: boolean;
+  sort_buffer_size?: number;
+  sql_mode?: string;
+  sql_require_primary_key?: boolean;
+  wait_timeout?: number;
+}
+
+export interface RedisConfig {
+  redis_maxmemory_policy?: string;
+  redis_notify_keyspace_events?: string;
+  redis_persistence?: 'off' | 'rdb';
+  redis_pubsub_client_output_buffer_limit?: number;
+  redis_ssl?: boolean;
+  redis_timeout?: number;
+  redis_io_threads?: number;
+  redis_lfu_log_factor?: number;
+  redis_lfu_decay_time?: number;
+}
+
+/**
+ * Engine specific configuration of a database cluster
+ */
+export type DatabaseConfig = PostgresConfig | MysqlConfig | RedisConfig;
+
+export interface DatabaseEngineOptions {
+  regions: string[];
+  versions: string[];
+  layouts: {
+    num_nodes: number;
+    sizes: string[];
+  }[];
+}
+
+export interface DatabaseOptions {
+  options: {
+    [engine: string]: DatabaseEngineOptions;
+  };
+  version_availability: {
+    [engine: string]: {
+      end_of_life: string | null;
+      end_of_availability: string | null;
+      version: string;
+    }[];
+  };
+}
@@ -0,0 +1,66 @@
+import { DropletRequest } from './droplet.ts';
+
+/**
+ * Either `target_number_instances` for a fixed size pool, or
+ * `min_instances`, `max_instances` and at least one utilization target for a
+ * dynamic pool
+ */
+export interface AutoscalePoolConfig {
+  min_instances?: number;
+  max_instances?: number;
+  /** Target average CPU utilization, between 0.05 and 1 */
+  target_cpu_utilization?: number;
+  /** Target average memory utilization, between 0.05 and 1 */
+  target_memory_utilization?: number;
+  cooldown_minutes?: number;
+  target_number_instances?: number;
+}
+
+/**
+ * Template of the droplets created by a pool, droplets are named after the
+ * pool
+ */
+export interface AutoscalePoolDropletTemplate
+  extends Omit<DropletRequest, 'name' | 'names'> {
+  with_droplet_agent?: boolean;
+  project_id?: string;
+}
+
+export interface AutoscalePoolRequest {
+  name: string;
+  config: AutoscalePoolConfig;
+  droplet_template: AutoscalePoolDropletTemplate;
+}
+
+export interface AutoscalePoolUtilization {
+  cpu?: number;
+  memory?: number;
+}
+
+export interface AutoscalePool extends AutoscalePoolRequest {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  current_utilization?: AutoscalePoolUtilization;
+  status: 'active' | 'deleting' | 'error';
+  active_resources_count: number;
+}
+
+export interface AutoscalePoolMember {
+  droplet_id: number;
+  created_at: string;
+  updated_at: string;
+  health_status: string;
+  status: 'provisioning' | 'active' | 'deleting' | 'off';
+  current_utilization?: AutoscalePoolUtilization;
+}
+
+export interface AutoscalePoolHistoryEvent {
+  history_event_id: string;
+  current_instance_count: number;
+  desired_instance_count: number;
+  reason: 'CONFIGURATION_CHANGE' | 'SCALE_UP' | 'SCALE_DOWN';
+  status: 'in_progress' | 'success' | 'error';
+  created_at: string;
+  updated_at: string;
+}
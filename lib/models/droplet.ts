@@ -25,6 +25,7 @@ export interface Droplet {
   next_backup_window: any;
   tags: string[];
   volume_ids: string[];
+  vpc_uuid?: string;
 }
 
 export interface DropletRequest {
@@ -41,6 +42,7 @@ export interface DropletRequest {
   monitoring?: boolean;
   volumes?: any[];
   tags?: string[];
+  vpc_uuid?: string;
 }
 
 export interface DropletActionRequest {
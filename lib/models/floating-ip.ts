@@ -1,8 +1,6 @@
-import { Droplet } from './droplet.ts';
-import { Region } from './region.ts';
+import { ReservedIP } from './reserved-ip.ts';
 
-export interface FloatingIP {
-  ip: string;
-  region: Region;
-  droplet: Droplet;
-}
+/**
+ * @deprecated Floating IPs were renamed to reserved IPs, use `ReservedIP`
+ */
+export type FloatingIP = ReservedIP;
@@ -0,0 +1,44 @@
+export interface FunctionsNamespace {
+  uuid: string;
+  namespace: string;
+  label: string;
+  region: string;
+  api_host: string;
+  /** Key used to call the namespace api directly */
+  key: string;
+  name?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FunctionsNamespaceRequest {
+  region: string;
+  label: string;
+}
+
+export interface FunctionsTriggerScheduledDetails {
+  /** Standard 5 field cron expression, in UTC */
+  cron: string;
+  /** JSON payload passed to the function on each run */
+  body?: Record<string, any>;
+}
+
+export interface FunctionsTrigger {
+  namespace?: string;
+  name: string;
+  function: string;
+  type: 'SCHEDULED';
+  is_enabled: boolean;
+  scheduled_details: FunctionsTriggerScheduledDetails;
+  scheduled_runs?: {
+    last_run_at: string | null;
+    next_run_at: string | null;
+  };
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface FunctionsTriggerUpdateRequest {
+  is_enabled?: boolean;
+  scheduled_details?: FunctionsTriggerScheduledDetails;
+}
@@ -1,22 +1,35 @@
 export * from './account.ts';
 export * from './action.ts';
+export * from './app.ts';
 export * from './backup.ts';
 export * from './block-storage.ts';
 export * from './cdn.ts';
 export * from './certificate.ts';
+export * from './database.ts';
 export * from './domain.ts';
 export * from './domain-record.ts';
 export * from './droplet.ts';
+export * from './droplet-autoscale.ts';
 export * from './firewall.ts';
 export * from './floating-ip.ts';
+export * from './function.ts';
 export * from './image.ts';
+export * from './invoice.ts';
 export * from './kernel.ts';
 export * from './load-balancer.ts';
+export * from './monitoring.ts';
 export * from './network.ts';
 export * from './networks.ts';
+export * from './one-click.ts';
+export * from './pagination.ts';
 export * from './project.ts';
 export * from './region.ts';
+export * from './registry.ts';
+export * from './reserved-ip.ts';
 export * from './size.ts';
 export * from './snapshot.ts';
+export * from './spaces.ts';
 export * from './ssh-key.ts';
 export * from './tag.ts';
+export * from './uptime.ts';
+export * from './vpc.ts';
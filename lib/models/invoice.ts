@@ -0,0 +1,54 @@
+export interface Invoice {
+  invoice_uuid: string;
+  invoice_id?: string;
+  amount: string;
+  /** Billing month, e.g. `2024-01` */
+  invoice_period: string;
+  updated_at: string;
+}
+
+export interface InvoiceItem {
+  product: string;
+  resource_id?: string;
+  resource_uuid?: string;
+  group_description?: string;
+  description: string;
+  amount: string;
+  duration: string;
+  duration_unit: string;
+  start_time: string;
+  end_time: string;
+  project_name?: string;
+  category?: string;
+}
+
+export interface InvoiceSummaryLine {
+  name: string;
+  amount: string;
+}
+
+export interface InvoiceSummary {
+  invoice_uuid: string;
+  invoice_id?: string;
+  billing_period: string;
+  amount: string;
+  user_name: string;
+  user_billing_address?: {
+    address_line1: string;
+    address_line2?: string;
+    city: string;
+    region: string;
+    postal_code: string;
+    country_iso2_code: string;
+    created_at?: string;
+    updated_at?: string;
+  };
+  user_company?: string;
+  user_email: string;
+  product_charges: InvoiceSummaryLine & {
+    items: (InvoiceSummaryLine & { count: string })[];
+  };
+  overages?: InvoiceSummaryLine;
+  taxes?: InvoiceSummaryLine;
+  credits_and_adjustments?: InvoiceSummaryLine;
+}
@@ -14,6 +14,7 @@ export interface KubernetesCluster {
   created_at: string;
   updated_at: string;
   status: KubernetesClusterState;
+  vpc_uuid?: string;
 }
 
 export interface KubernetesClusterMaintenancePolicy {
@@ -43,7 +44,15 @@ export interface KubernetesWorkerNode {
 }
 
 export interface KubernetesClusterState {
-  state: 'running' | 'provisioning' | 'errored';
+  state:
+    | 'running'
+    | 'provisioning'
+    | 'degraded'
+    | 'error'
+    | 'deleted'
+    | 'upgrading'
+    | 'deleting';
+  message?: string;
 }
 
 export interface KubernetesClusterRequest {
@@ -54,6 +63,7 @@ export interface KubernetesClusterRequest {
   tags?: string[];
   maintenance_policy?: KubernetesClusterMaintenancePolicy;
   node_pools: KubernetesWorkerNodePool;
+  vpc_uuid?: string;
 }
 
 export interface KubernetesVersion {
@@ -14,6 +14,7 @@ export interface LoadBalancer {
   tag: string;
   droplet_ids: number[];
   redirect_http_to_https: boolean;
+  vpc_uuid?: string;
 }
 
 export interface ForwardingRule {
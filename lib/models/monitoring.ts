@@ -0,0 +1,80 @@
+/**
+ * A Prometheus range query result returned by the metrics endpoints
+ */
+export interface Metrics {
+  status: string;
+  data: {
+    resultType: 'matrix';
+    result: MetricResult[];
+  };
+}
+
+export interface MetricResult {
+  /** Labels of the series, e.g. `host_id` or `mode` */
+  metric: { [label: string]: string };
+  /** Pairs of unix timestamp in seconds and value */
+  values: [number, string][];
+}
+
+export type BandwidthInterface = 'public' | 'private';
+
+export type BandwidthDirection = 'inbound' | 'outbound';
+
+export type LoadAveragePeriod = 1 | 5 | 15;
+
+export type MemoryMetric = 'cached' | 'free' | 'total' | 'available';
+
+export type AlertPolicyType =
+  | 'v1/insights/droplet/load_1'
+  | 'v1/insights/droplet/load_5'
+  | 'v1/insights/droplet/load_15'
+  | 'v1/insights/droplet/memory_utilization_percent'
+  | 'v1/insights/droplet/disk_utilization_percent'
+  | 'v1/insights/droplet/cpu'
+  | 'v1/insights/droplet/disk_read'
+  | 'v1/insights/droplet/disk_write'
+  | 'v1/insights/droplet/public_outbound_bandwidth'
+  | 'v1/insights/droplet/public_inbound_bandwidth'
+  | 'v1/insights/droplet/private_outbound_bandwidth'
+  | 'v1/insights/droplet/private_inbound_bandwidth'
+  | 'v1/insights/lbaas/avg_cpu_utilization_percent'
+  | 'v1/insights/lbaas/connection_utilization_percent'
+  | 'v1/insights/lbaas/droplet_health'
+  | 'v1/insights/lbaas/tls_connections_per_second_utilization_percent'
+  | 'v1/insights/lbaas/increase_in_http_error_rate_percentage_5xx'
+  | 'v1/insights/lbaas/increase_in_http_error_rate_percentage_4xx'
+  | 'v1/insights/lbaas/increase_in_http_error_rate_count_5xx'
+  | 'v1/insights/lbaas/increase_in_http_error_rate_count_4xx'
+  | 'v1/insights/lbaas/high_http_request_response_time'
+  | 'v1/insights/lbaas/high_http_request_response_time_50p'
+  | 'v1/insights/lbaas/high_http_request_response_time_95p'
+  | 'v1/insights/lbaas/high_http_request_response_time_99p'
+  | 'v1/dbaas/alerts/load_15_alerts'
+  | 'v1/dbaas/alerts/memory_utilization_alerts'
+  | 'v1/dbaas/alerts/disk_utilization_alerts'
+  | 'v1/dbaas/alerts/cpu_alerts';
+
+export interface AlertPolicySlackNotification {
+  channel: string;
+  url: string;
+}
+
+export interface AlertPolicyNotifications {
+  email: string[];
+  slack: AlertPolicySlackNotification[];
+}
+
+export interface AlertPolicy {
+  uuid?: string;
+  type: AlertPolicyType;
+  description: string;
+  compare: 'GreaterThan' | 'LessThan';
+  value: number;
+  window: '5m' | '10m' | '30m' | '1h';
+  /** IDs of the targeted resources, e.g. droplet ids */
+  entities: string[];
+  /** Targets every resource with one of these tags */
+  tags: string[];
+  alerts: AlertPolicyNotifications;
+  enabled: boolean;
+}
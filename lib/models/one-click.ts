@@ -0,0 +1,6 @@
+export type OneClickType = 'droplet' | 'kubernetes';
+
+export interface OneClick {
+  slug: string;
+  type: OneClickType;
+}
@@ -0,0 +1,12 @@
+export interface PageLinks {
+  pages?: {
+    first?: string;
+    prev?: string;
+    next?: string;
+    last?: string;
+  };
+}
+
+export interface PageMeta {
+  total: number;
+}
@@ -0,0 +1,111 @@
+export interface Registry {
+  name: string;
+  created_at: string;
+  region: string;
+  storage_usage_bytes: number;
+  storage_usage_bytes_updated_at: string;
+  subscription?: RegistrySubscription;
+}
+
+export interface RegistryRequest {
+  name: string;
+  subscription_tier_slug: RegistrySubscriptionTierSlug;
+  region?: string;
+}
+
+export type RegistrySubscriptionTierSlug = 'starter' | 'basic' | 'professional';
+
+export interface RegistrySubscriptionTier {
+  name: string;
+  slug: RegistrySubscriptionTierSlug;
+  included_repositories: number;
+  included_storage_bytes: number;
+  allow_storage_overage: boolean;
+  included_bandwidth_bytes: number;
+  monthly_price_in_cents: number;
+  storage_overage_price_in_cents: number;
+  eligible?: boolean;
+  eligibility_reasons?: string[];
+}
+
+export interface RegistrySubscription {
+  tier: RegistrySubscriptionTier;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RegistryOptions {
+  available_regions: string[];
+  subscription_tiers: RegistrySubscriptionTier[];
+}
+
+export interface RegistryTag {
+  registry_name: string;
+  repository: string;
+  tag: string;
+  manifest_digest: string;
+  compressed_size_bytes: number;
+  size_bytes: number;
+  updated_at: string;
+}
+
+export interface RegistryRepository {
+  registry_name: string;
+  name: string;
+  latest_manifest: RegistryManifest;
+  tag_count: number;
+  manifest_count: number;
+}
+
+export interface RegistryManifestBlob {
+  digest: string;
+  compressed_size_bytes: number;
+}
+
+export interface RegistryManifest {
+  registry_name: string;
+  repository: string;
+  digest: string;
+  compressed_size_bytes: number;
+  size_bytes: number;
+  updated_at: string;
+  tags: string[];
+  blobs: RegistryManifestBlob[];
+}
+
+export type GarbageCollectionStatus =
+  | 'requested'
+  | 'waiting for write JWTs to expire'
+  | 'scanning manifests'
+  | 'deleting unreferenced blobs'
+  | 'cancelling'
+  | 'failed'
+  | 'succeeded'
+  | 'cancelled';
+
+export type GarbageCollectionType =
+  | 'untagged manifests only'
+  | 'unreferenced blobs only'
+  | 'untagged manifests and unreferenced blobs';
+
+export interface GarbageCollection {
+  uuid: string;
+  registry_name: string;
+  status: GarbageCollectionStatus;
+  type?: GarbageCollectionType;
+  created_at: string;
+  updated_at: string;
+  blobs_deleted: number;
+  freed_bytes: number;
+}
+
+/**
+ * Docker `config.json` contents granting access to the registry
+ */
+export interface DockerCredentials {
+  auths: {
+    [registry: string]: {
+      auth: string;
+    };
+  };
+}
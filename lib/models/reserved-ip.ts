@@ -0,0 +1,27 @@
+import { Droplet } from './droplet.ts';
+import { Region } from './region.ts';
+
+export interface ReservedIP {
+  ip: string;
+  region: Region;
+  droplet: Droplet | null;
+  locked: boolean;
+  project_id: string;
+}
+
+/**
+ * Either `droplet_id` or `region` must be set, `project_id` only applies
+ * when reserving to a region
+ */
+export interface ReservedIPRequest {
+  droplet_id?: string;
+  region?: string;
+  project_id?: string;
+}
+
+export interface ReservedIPv6 {
+  ip: string;
+  region_slug: string;
+  droplet: Droplet | null;
+  reserved_at: string;
+}
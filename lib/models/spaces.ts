@@ -0,0 +1,133 @@
+/**
+ * Canned ACLs supported by Spaces
+ */
+export type SpacesAcl = 'private' | 'public-read';
+
+/**
+ * Content accepted as the body of an object or upload part
+ */
+export type SpacesBody =
+  | string
+  | Uint8Array
+  | ArrayBuffer
+  | Blob
+  | ReadableStream<Uint8Array>;
+
+export interface SpacesBucket {
+  name: string;
+  creation_date: string;
+}
+
+export interface SpacesObject {
+  key: string;
+  size: number;
+  etag: string;
+  last_modified: string;
+  storage_class?: string;
+}
+
+export interface SpacesObjectHead {
+  content_type?: string;
+  content_length: number;
+  etag: string;
+  last_modified?: string;
+  cache_control?: string;
+  /** User metadata, sent as `x-amz-meta-*` headers */
+  metadata: Record<string, string>;
+}
+
+export interface SpacesListObjectsOptions {
+  prefix?: string;
+  /** Group keys sharing a prefix up to the delimiter into `common_prefixes` */
+  delimiter?: string;
+  max_keys?: number;
+  continuation_token?: string;
+  start_after?: string;
+}
+
+export interface SpacesObjectList {
+  objects: SpacesObject[];
+  common_prefixes: string[];
+  is_truncated: boolean;
+  next_continuation_token?: string;
+}
+
+export interface SpacesPutObjectOptions {
+  /** Size of the body in bytes, required when it is a `ReadableStream` */
+  content_length?: number;
+  content_type?: string;
+  cache_control?: string;
+  content_disposition?: string;
+  acl?: SpacesAcl;
+  metadata?: Record<string, string>;
+}
+
+export interface SpacesUploadPartOptions {
+  /** Size of the body in bytes, required when it is a `ReadableStream` */
+  content_length?: number;
+}
+
+export interface SpacesPresignOptions {
+  /** HTTP method the url grants, defaults to `GET` */
+  method?: 'GET' | 'PUT' | 'HEAD' | 'DELETE';
+  /** Seconds the url stays valid, defaults to one hour, at most 7 days */
+  expires_in?: number;
+}
+
+export interface SpacesGrantee {
+  type: 'CanonicalUser' | 'Group';
+  id?: string;
+  display_name?: string;
+  uri?: string;
+}
+
+export interface SpacesGrant {
+  grantee: SpacesGrantee;
+  permission: 'FULL_CONTROL' | 'READ' | 'WRITE' | 'READ_ACP' | 'WRITE_ACP';
+}
+
+export interface SpacesAccessControlPolicy {
+  owner: {
+    id: string;
+    display_name?: string;
+  };
+  grants: SpacesGrant[];
+}
+
+export interface SpacesMultipartUpload {
+  upload_id: string;
+  key: string;
+  initiated?: string;
+}
+
+export interface SpacesUploadedPart {
+  part_number: number;
+  etag: string;
+  size?: number;
+  last_modified?: string;
+}
+
+/**
+ * `fullaccess` applies to every bucket and must be granted with an empty
+ * bucket name
+ */
+export type SpacesKeyPermission = 'read' | 'readwrite' | 'fullaccess';
+
+export interface SpacesKeyGrant {
+  bucket: string;
+  permission: SpacesKeyPermission;
+}
+
+export interface SpacesKey {
+  name: string;
+  access_key: string;
+  /** Only returned when the key is created */
+  secret_key?: string;
+  grants: SpacesKeyGrant[];
+  created_at: string;
+}
+
+export interface SpacesKeyRequest {
+  name: string;
+  grants: SpacesKeyGrant[];
+}
@@ -0,0 +1,56 @@
+import { AlertPolicyNotifications } from './monitoring.ts';
+
+export type UptimeCheckType = 'ping' | 'http' | 'https';
+
+export type UptimeRegion = 'us_east' | 'us_west' | 'eu_west' | 'se_asia';
+
+export interface UptimeCheck {
+  id?: string;
+  name: string;
+  type: UptimeCheckType;
+  target: string;
+  regions?: UptimeRegion[];
+  enabled?: boolean;
+}
+
+export interface UptimeRegionState {
+  status: 'UP' | 'DOWN' | 'UNKNOWN';
+  status_changed_at: string;
+  thirty_day_uptime_percentage: number;
+}
+
+export interface UptimeOutage {
+  region: string;
+  started_at: string;
+  ended_at: string;
+  duration_seconds: number;
+}
+
+export interface UptimeCheckState {
+  regions: {
+    [region in UptimeRegion]?: UptimeRegionState;
+  };
+  previous_outage?: UptimeOutage;
+}
+
+export type UptimeAlertType = 'latency' | 'down' | 'down_global' | 'ssl_expiry';
+
+export type UptimeAlertPeriod =
+  | '2m'
+  | '3m'
+  | '5m'
+  | '10m'
+  | '15m'
+  | '30m'
+  | '1h';
+
+export interface UptimeAlert {
+  id?: string;
+  name: string;
+  type: UptimeAlertType;
+  /** Milliseconds for `latency` alerts, days for `ssl_expiry` alerts */
+  threshold?: number;
+  comparison?: 'greater_than' | 'less_than';
+  notifications: AlertPolicyNotifications;
+  period: UptimeAlertPeriod;
+}
@@ -0,0 +1,30 @@
+export interface Vpc {
+  id: string;
+  urn: string;
+  name: string;
+  description: string;
+  region: string;
+  ip_range: string;
+  default: boolean;
+  created_at: string;
+}
+
+export interface VpcRequest {
+  name?: string;
+  description?: string;
+  region?: string;
+  ip_range?: string;
+  default?: boolean;
+}
+
+export type VpcMemberResourceType =
+  | 'droplet'
+  | 'kubernetes'
+  | 'load_balancer'
+  | 'database';
+
+export interface VpcMember {
+  urn: string;
+  name: string;
+  created_at: string;
+}
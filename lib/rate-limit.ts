@@ -0,0 +1,153 @@
+import { sleep } from './retry.ts';
+
+/**
+ * Rate limit state reported by the API in the `ratelimit-*` headers
+ */
+export interface RateLimitState {
+  /** Number of requests allowed per hour */
+  limit: number;
+  /** Number of requests left in the current window */
+  remaining: number;
+  /** Epoch time in seconds at which the oldest request leaves the window */
+  reset: number;
+}
+
+export interface ThrottleOptions {
+  /** Sustained request rate of the token bucket */
+  requestsPerHour?: number;
+  /** Number of requests that may be sent back to back */
+  burst?: number;
+}
+
+export interface RateLimitOptions {
+  /** A `low` event is dispatched when `remaining` drops below this value */
+  threshold?: number;
+  /**
+   * Queue requests through a token bucket so bulk jobs stay within the hourly
+   * budget. Requests are also held back while the API reports no remaining
+   * requests.
+   */
+  throttle?: boolean | ThrottleOptions;
+}
+
+const DEFAULT_THRESHOLD = 500;
+
+const DEFAULT_THROTTLE: Required<ThrottleOptions> = {
+  requestsPerHour: 5000,
+  burst: 250
+};
+
+/**
+ * Tracks the API rate limit of a client and optionally throttles requests.
+ *
+ * ### Example
+ * ```js
+ * import { DigitalOcean } from 'digitalocean-js';
+ *
+ * const client = new DigitalOcean('your-api-key', undefined, {
+ *   rateLimit: { threshold: 100, throttle: true }
+ * });
+ * client.rateLimit.addEventListener('low', event => {
+ *   console.warn('Rate limit running low', event.detail);
+ * });
+ * await client.tags.tagResources('tag-name', resources);
+ * console.log(client.rateLimit.state);
+ * ```
+ */
+export class RateLimiter extends EventTarget {
+  #state?: RateLimitState;
+  #threshold: number;
+  #throttle?: Required<ThrottleOptions>;
+  #tokens = 0;
+  #refilledAt = Date.now();
+  #queue: Promise<void> = Promise.resolve();
+
+  constructor(options: RateLimitOptions = {}) {
+    super();
+    this.#threshold = options.threshold ?? DEFAULT_THRESHOLD;
+    if (options.throttle) {
+      this.#throttle = {
+        ...DEFAULT_THROTTLE,
+        ...(options.throttle === true ? {} : options.throttle)
+      };
+      this.#tokens = this.#throttle.burst;
+    }
+  }
+
+  /**
+   * The rate limit state from the latest API response, if any
+   */
+  get state(): RateLimitState | undefined {
+    return this.#state && { ...this.#state };
+  }
+
+  /**
+   * Record the rate limit headers of an API response
+   *
+   * @ignore
+   */
+  update(headers: Headers) {
+    const limit = Number(headers.get('ratelimit-limit'));
+    const remaining = Number(headers.get('ratelimit-remaining'));
+    const reset = Number(headers.get('ratelimit-reset'));
+    if (!headers.has('ratelimit-remaining') || isNaN(remaining)) {
+      return;
+    }
+
+    const previous = this.#state;
+    this.#state = { limit, remaining, reset };
+    if (
+      remaining < this.#threshold &&
+      (!previous || previous.remaining >= this.#threshold)
+    ) {
+      this.dispatchEvent(
+        new CustomEvent<RateLimitState>('low', { detail: this.state })
+      );
+    }
+  }
+
+  /**
+   * Wait for a turn to send a request. Resolves immediately unless throttling
+   * is enabled.
+   *
+   * @ignore
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (!this.#throttle) {
+      return Promise.resolve();
+    }
+    const turn = this.#queue.then(() => {
+      signal?.throwIfAborted();
+      return this.#take(signal);
+    });
+    this.#queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  async #take(signal?: AbortSignal) {
+    const { requestsPerHour, burst } = this.#throttle!;
+    const perMs = requestsPerHour / 3_600_000;
+
+    this.#refill(perMs, burst);
+    if (this.#tokens < 1) {
+      await sleep(Math.ceil((1 - this.#tokens) / perMs), signal);
+      this.#refill(perMs, burst);
+    }
+    this.#tokens -= 1;
+
+    // the API budget is exhausted, hold until the window moves on
+    const state = this.#state;
+    if (state && state.remaining <= 0 && state.reset * 1000 > Date.now()) {
+      await sleep(state.reset * 1000 - Date.now(), signal);
+    }
+  }
+
+  #refill(perMs: number, burst: number) {
+    const now = Date.now();
+    this.#tokens = Math.min(
+      burst,
+      this.#tokens + (now - this.#refilledAt) * perMs
+    );
+    this.#refilledAt = now;
+  }
+}
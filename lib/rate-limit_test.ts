@@ -0,0 +1,105 @@
+import { assert, assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from './digitalocean.ts';
+import { RateLimiter, RateLimitState } from './rate-limit.ts';
+import { StubFetch } from './testing/stub-fetch.ts';
+
+function rateLimitHeaders(remaining: number, reset = Date.now() / 1000 + 60) {
+  return new Headers({
+    'ratelimit-limit': '5000',
+    'ratelimit-remaining': String(remaining),
+    'ratelimit-reset': String(Math.ceil(reset))
+  });
+}
+
+Deno.test('the rate limit state follows the API headers', async () => {
+  let remaining = 5000;
+  const stub = new StubFetch(() =>
+    Response.json({ tags: [] }, { headers: rateLimitHeaders(--remaining) })
+  );
+  const restore = stub.install();
+  try {
+    const client = new DigitalOcean('token');
+    assertEquals(client.rateLimit.state, undefined);
+
+    await client.tags.getTags();
+    await client.tags.getTags();
+    assertEquals(client.rateLimit.state?.limit, 5000);
+    assertEquals(client.rateLimit.state?.remaining, 4998);
+  } finally {
+    restore();
+  }
+});
+
+Deno.test('a low event is dispatched when crossing the threshold', () => {
+  const limiter = new RateLimiter({ threshold: 100 });
+  const events: RateLimitState[] = [];
+  limiter.addEventListener('low', event =>
+    events.push((event as CustomEvent<RateLimitState>).detail)
+  );
+
+  limiter.update(rateLimitHeaders(150));
+  limiter.update(rateLimitHeaders(99));
+  limiter.update(rateLimitHeaders(98));
+  assertEquals(
+    events.map(event => event.remaining),
+    [99]
+  );
+});
+
+Deno.test('throttling spaces out requests beyond the burst', async () => {
+  // 36000 requests per hour is one request every 100ms
+  const limiter = new RateLimiter({
+    throttle: { requestsPerHour: 36_000, burst: 2 }
+  });
+  const start = Date.now();
+  await limiter.acquire();
+  await limiter.acquire();
+  assert(Date.now() - start < 50);
+
+  await limiter.acquire();
+  assert(Date.now() - start >= 90);
+});
+
+Deno.test('throttling holds requests while no requests remain', async () => {
+  const limiter = new RateLimiter({ throttle: true });
+  limiter.update(rateLimitHeaders(0, Date.now() / 1000 + 1));
+  const start = Date.now();
+
+  await limiter.acquire();
+  assert(Date.now() - start >= 500);
+});
+
+Deno.test('queued requests can be cancelled', async () => {
+  const limiter = new RateLimiter({
+    throttle: { requestsPerHour: 3600, burst: 1 }
+  });
+  await limiter.acquire();
+  const controller = new AbortController();
+  const turn = limiter.acquire(controller.signal);
+  controller.abort(new Error('cancelled'));
+
+  await assertRejects(() => turn, Error, 'cancelled');
+});
+
+Deno.test(
+  'waiting for the throttle does not count towards the timeout',
+  async () => {
+    const stub = new StubFetch(() => Response.json({ tags: [] }));
+    // one request every 100ms, each attempt may only take 50ms
+    const client = new DigitalOcean('token', undefined, {
+      fetch: stub.fetch,
+      timeout: 50,
+      retry: false,
+      rateLimit: { throttle: { requestsPerHour: 36000, burst: 1 } }
+    });
+
+    const start = Date.now();
+    await Promise.all([
+      client.tags.getTags(),
+      client.tags.getTags(),
+      client.tags.getTags()
+    ]);
+    assertEquals(stub.requests.length, 3);
+    assert(Date.now() - start >= 190);
+  }
+);
@@ -1,4 +1,12 @@
 // deno-lint-ignore-file no-explicit-any
+import { Cassette } from './cassette.ts';
+import { API_BASE_URL, MAX_PER_PAGE } from './conf/environment.ts';
+import { createApiError } from './errors.ts';
+import { Middleware } from './middleware.ts';
+import { PageLinks, PageMeta } from './models/pagination.ts';
+import { RateLimiter, RateLimitOptions } from './rate-limit.ts';
+import { DEFAULT_RETRY_OPTIONS, RetryOptions, withRetry } from './retry.ts';
+import type { SpacesOptions } from './spaces-tool.ts';
 
 interface Result<T> {
   response: Response;
@@ -6,80 +14,306 @@ interface Result<T> {
   text?: string | null;
 }
 
-class RequestTool {
-  baseUrl = '';
-  token = '';
+/**
+ * How the body of a successful response is read: parsed as JSON (the
+ * default), as a string, as bytes or left as a stream for the caller
+ */
+export type ResponseMode = 'json' | 'text' | 'bytes' | 'stream';
 
-  constructor() {
-    this;
+/**
+ * Response handling of an endpoint that does not return JSON
+ */
+export interface ResponseOptions {
+  mode?: ResponseMode;
+  /** `Accept` header sent instead of the JSON default */
+  accept?: string;
+}
+
+/**
+ * Per-call options accepted as the last argument of every service method
+ */
+export interface RequestOptions {
+  /** Cancels the call, including pending retries */
+  signal?: AbortSignal;
+  /**
+   * Milliseconds before an attempt is aborted with a `TimeoutError`,
+   * overriding the client default
+   */
+  timeout?: number;
+  /**
+   * Number of items requested per page by list calls, defaults to the
+   * maximum of 200
+   */
+  perPage?: number;
+  /** Extra headers sent with the call, e.g. `X-Dangerous` */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Optional settings of a `DigitalOcean` client
+ */
+export interface DigitalOceanOptions {
+  /**
+   * Retry policy for transient failures, or `false` to disable retries.
+   * Only GET, HEAD, PUT and DELETE requests are retried by default.
+   */
+  retry?: RetryOptions | false;
+  /** Rate limit tracking and client side throttling */
+  rateLimit?: RateLimitOptions;
+  /**
+   * `fetch` implementation used to send requests, e.g. one routing through a
+   * proxy. Defaults to the global `fetch`.
+   */
+  fetch?: typeof fetch;
+  /**
+   * Record requests to, or replay them from, a `Cassette` instead of relying
+   * on the network alone
+   */
+  cassette?: Cassette;
+  /** Middleware applied to every request, see `DigitalOcean.use` */
+  middleware?: Middleware[];
+  /**
+   * Default number of milliseconds before an attempt is aborted with a
+   * `TimeoutError`. Timed out attempts are retried like network errors.
+   * Streamed downloads only need to start within it.
+   */
+  timeout?: number;
+  /** Access keys and endpoint used by `client.spaces` */
+  spaces?: SpacesOptions;
+}
+
+/**
+ * HTTP transport bound to a single API token and base URL.
+ *
+ * Each `DigitalOcean` client owns its own instance, so several clients
+ * (different accounts, tokens or base URLs) can coexist in one process.
+ */
+export class RequestTool {
+  readonly rateLimit: RateLimiter;
+  #retry?: Required<RetryOptions>;
+  #fetch: typeof fetch;
+  #middleware: Middleware[];
+  #timeout?: number;
+
+  constructor(
+    readonly token: string,
+    readonly baseUrl = API_BASE_URL,
+    options: DigitalOceanOptions = {}
+  ) {
+    this.rateLimit = new RateLimiter(options.rateLimit);
+    this.#fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    if (options.cassette) {
+      this.#fetch = options.cassette.wrap(this.#fetch);
+    }
+    this.#middleware = [...(options.middleware ?? [])];
+    this.#timeout = options.timeout;
+    if (options.retry !== false) {
+      this.#retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    }
+  }
+
+  /**
+   * Register middleware applied to every subsequent request
+   */
+  use(...middleware: Middleware[]) {
+    this.#middleware.push(...middleware);
   }
 
-  #getHeaders = (method: string) => {
+  #getHeaders = (body: any) => {
     const headers: Record<string, string> = {
       Authorization: `Bearer ${this.token}`,
       Accept: `application/json, text/plain, */*`
     };
-    switch (method.toLowerCase()) {
-      case 'put':
-      case 'post':
-      case 'patch':
-        headers['Content-Type'] = `application/json`;
+    // DELETE calls may send a body too
+    if (body !== undefined) {
+      headers['Content-Type'] = `application/json`;
     }
     return headers;
   };
 
-  async #query(method: string, path: string, body?: any): Promise<Result<any>> {
+  #query(
+    method: string,
+    path: string,
+    body?: any,
+    options: RequestOptions = {},
+    responseOptions: ResponseOptions = {}
+  ): Promise<Result<any>> {
+    const { signal, timeout = this.#timeout, headers } = options;
+    return withRetry(
+      attemptSignal =>
+        this.#send(method, path, body, attemptSignal, headers, responseOptions),
+      {
+        method,
+        policy: this.#retry,
+        signal,
+        timeout,
+        // waiting for the throttle does not count towards the timeout
+        acquire: () => this.rateLimit.acquire(signal)
+      }
+    );
+  }
+
+  async #send(
+    method: string,
+    path: string,
+    body: any,
+    signal: AbortSignal,
+    headers: Record<string, string> = {},
+    { mode = 'json', accept }: ResponseOptions = {}
+  ): Promise<Result<any>> {
     const opts: any = {
       method,
-      headers: this.#getHeaders(method)
+      headers: {
+        ...this.#getHeaders(body),
+        ...(accept ? { Accept: accept } : {}),
+        ...headers
+      },
+      signal
     };
     if (body !== undefined) {
       opts.body = JSON.stringify(body);
     }
 
-    const response = await fetch(`${this.baseUrl}${path}`, opts);
-
-    const text: string | null = await response.text().catch(_ => null);
-    let data: any = null;
+    let request: Request | undefined;
     try {
-      if (text) {
-        data = JSON.parse(text);
+      request = new Request(`${this.baseUrl}${path}`, opts);
+      for (const middleware of this.#middleware) {
+        request = (await middleware.beforeRequest?.(request)) ?? request;
       }
-    } catch (_) {
-      // do nothing
-    }
 
-    if (response.status > 500) {
-      throw Object.assign(new Error('Server Error Result'), {
-        response,
-        text,
-        data
-      });
-    }
-    if (response.status > 400) {
-      throw Object.assign(new Error('Client Error Result'), {
-        response,
-        text,
-        data
-      });
+      let response = await this.#fetch(request);
+      for (const middleware of this.#middleware) {
+        response =
+          (await middleware.afterResponse?.(response, request)) ?? response;
+      }
+      this.rateLimit.update(response.headers);
+
+      if (mode !== 'json' && response.status < 400) {
+        return { response, data: await this.#readBody(response, mode) };
+      }
+
+      const text: string | null = await response.text().catch(_ => null);
+      let data: any = null;
+      try {
+        if (text) {
+          data = JSON.parse(text);
+        }
+      } catch (_) {
+        // do nothing
+      }
+
+      if (response.status >= 400) {
+        throw createApiError({
+          status: response.status,
+          method,
+          endpoint: path,
+          response,
+          text,
+          data
+        });
+      }
+
+      return { response, text, data };
+    } catch (error) {
+      // only an invalid url fails before there is a request to report
+      if (request) {
+        for (const middleware of this.#middleware) {
+          await middleware.onError?.(error, request);
+        }
+      }
+      throw error;
     }
+  }
 
-    return { response, text, data };
+  #readBody(response: Response, mode: ResponseMode): Promise<any> {
+    switch (mode) {
+      case 'text':
+        return response.text();
+      case 'bytes':
+        return response.arrayBuffer().then(buffer => new Uint8Array(buffer));
+      case 'stream':
+        return Promise.resolve(response.body ?? new Blob().stream());
+      default:
+        return response.json();
+    }
   }
 
-  head = (path: string) => this.#query('HEAD', path);
+  head = (path: string, options?: RequestOptions) =>
+    this.#query('HEAD', path, undefined, options);
 
-  get = (path: string) => this.#query('GET', path);
+  get = (
+    path: string,
+    options?: RequestOptions,
+    responseOptions?: ResponseOptions
+  ) => this.#query('GET', path, undefined, options, responseOptions);
 
-  put = (path: string, value: any) => this.#query('PUT', path, value);
+  put = (path: string, value: any, options?: RequestOptions) =>
+    this.#query('PUT', path, value, options);
 
-  post = (path: string, value: any) => this.#query('POST', path, value);
+  post = (path: string, value: any, options?: RequestOptions) =>
+    this.#query('POST', path, value, options);
 
-  patch = (path: string, value: any) => this.#query('PATCH', path, value);
+  patch = (path: string, value: any, options?: RequestOptions) =>
+    this.#query('PATCH', path, value, options);
 
-  delete(path: string, value?: any) {
-    return this.#query('DELETE', path, value);
+  delete(path: string, value?: any, options?: RequestOptions) {
+    return this.#query('DELETE', path, value, options);
   }
-}
 
-export const request = new RequestTool();
+  /**
+   * Iterate over every item of a list endpoint, following `links.pages.next`
+   * until the last page or `meta.total` items have been yielded. Pages hold
+   * `options.perPage` items.
+   */
+  async *paginate<T = any>(
+    path: string,
+    key: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<T> {
+    const perPage = options?.perPage ?? MAX_PER_PAGE;
+    const separator = path.includes('?') ? '&' : '?';
+    let next: string | undefined = `${path}${separator}per_page=${perPage}`;
+    let count = 0;
+    while (next) {
+      const { data } = await this.get(next, options);
+      const items: T[] = data?.[key] ?? [];
+      yield* items;
+
+      count += items.length;
+      const links: PageLinks | undefined = data?.links;
+      const meta: PageMeta | undefined = data?.meta;
+      if (!items.length || (meta && count >= meta.total)) {
+        return;
+      }
+      next = links?.pages?.next && this.#relativePath(links.pages.next);
+    }
+  }
+
+  /**
+   * Path of an absolute pagination link relative to the base url, so the
+   * next page goes through the same host as the first one
+   */
+  #relativePath(link: string): string {
+    const url = new URL(link);
+    // the API names its own host in links, also when reached through a proxy
+    for (const base of [new URL(this.baseUrl), new URL(API_BASE_URL)]) {
+      const prefix = base.pathname.replace(/\/+$/, '');
+      if (url.origin === base.origin && url.pathname.startsWith(`${prefix}/`)) {
+        return `${url.pathname.slice(prefix.length)}${url.search}`;
+      }
+    }
+    throw new Error(`Refusing to follow pagination link to ${link}`);
+  }
+
+  /**
+   * Collect every item of a list endpoint across all pages, requesting
+   * `options.perPage` items at a time
+   */
+  async all<T = any>(path: string, key: string, options?: RequestOptions) {
+    const items: T[] = [];
+    for await (const item of this.paginate<T>(path, key, options)) {
+      items.push(item);
+    }
+    return items;
+  }
+}
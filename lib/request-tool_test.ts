@@ -0,0 +1,260 @@
+import { assertEquals, assertInstanceOf, assertRejects } from '@std/assert';
+import { DigitalOcean } from './digitalocean.ts';
+import { Middleware } from './middleware.ts';
+import { StubFetch } from './testing/stub-fetch.ts';
+
+/**
+ * Serves `total` tags page by page, linking to the next page on `linkBase`
+ */
+function pagedTags(
+  total: number,
+  linkBase = 'https://api.digitalocean.com/v2'
+) {
+  return new StubFetch(request => {
+    const params = new URL(request.url).searchParams;
+    const page = Number(params.get('page') ?? 1);
+    const perPage = Number(params.get('per_page'));
+    const start = (page - 1) * perPage;
+    const tags = Array.from(
+      { length: Math.max(0, Math.min(perPage, total - start)) },
+      (_, i) => ({ name: `tag-${start + i}` })
+    );
+    const next = start + perPage < total ? page + 1 : undefined;
+    return Response.json({
+      tags,
+      links: {
+        pages: next
+          ? { next: `${linkBase}/tags?page=${next}&per_page=${perPage}` }
+          : {}
+      },
+      meta: { total }
+    });
+  });
+}
+
+Deno.test('getAll* methods collect every page', async () => {
+  const stub = pagedTags(450);
+  const restore = stub.install();
+  try {
+    const client = new DigitalOcean('token');
+    const tags = await client.tags.getTags();
+    assertEquals(tags.length, 450);
+    assertEquals(tags[449].name, 'tag-449');
+  } finally {
+    restore();
+  }
+
+  assertEquals(
+    stub.requests.map(request => request.url),
+    [
+      'https://api.digitalocean.com/v2/tags?per_page=200',
+      'https://api.digitalocean.com/v2/tags?page=2&per_page=200',
+      'https://api.digitalocean.com/v2/tags?page=3&per_page=200'
+    ]
+  );
+});
+
+Deno.test('list* methods fetch pages lazily', async () => {
+  const stub = pagedTags(10);
+  const restore = stub.install();
+  const names: string[] = [];
+  try {
+    const client = new DigitalOcean('token');
+    for await (const tag of client.tags.listTags({ perPage: 3 })) {
+      names.push(tag.name);
+      if (names.length === 4) {
+        break;
+      }
+    }
+  } finally {
+    restore();
+  }
+
+  assertEquals(names, ['tag-0', 'tag-1', 'tag-2', 'tag-3']);
+  assertEquals(stub.requests.length, 2);
+});
+
+Deno.test('pagination links are followed through the base url', async () => {
+  const stub = pagedTags(2);
+  const restore = stub.install();
+  try {
+    const client = new DigitalOcean('token', 'https://proxy.internal/v2');
+    const tags: string[] = [];
+    for await (const tag of client.tags.listTags({ perPage: 1 })) {
+      tags.push(tag.name);
+    }
+    assertEquals(tags, ['tag-0', 'tag-1']);
+  } finally {
+    restore();
+  }
+
+  assertEquals(
+    stub.requests.map(
+      request => `${request.url} ${request.headers.get('authorization')}`
+    ),
+    [
+      'https://proxy.internal/v2/tags?per_page=1 Bearer token',
+      'https://proxy.internal/v2/tags?page=2&per_page=1 Bearer token'
+    ]
+  );
+});
+
+Deno.test('pagination links to other hosts are rejected', async () => {
+  const stub = pagedTags(300, 'https://attacker.example/v2');
+  const restore = stub.install();
+  try {
+    const client = new DigitalOcean('token');
+    await assertRejects(
+      () => client.tags.getTags(),
+      Error,
+      'Refusing to follow pagination link'
+    );
+  } finally {
+    restore();
+  }
+
+  assertEquals(stub.requests.length, 1);
+});
+
+Deno.test('bodies are sent as JSON, also on DELETE', async () => {
+  const stub = new StubFetch(() => new Response(null, { status: 204 }));
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+
+  await client.tags.removeTagFromResources('web', ['123']);
+  await client.tags.deleteTag('web');
+  const [withBody, withoutBody] = stub.requests;
+  assertEquals(withBody.method, 'DELETE');
+  assertEquals(withBody.headers.get('content-type'), 'application/json');
+  assertEquals(withoutBody.headers.get('content-type'), null);
+});
+
+Deno.test('middleware can change requests and observe responses', async () => {
+  const stub = new StubFetch(() =>
+    Response.json({ tag: { name: 'web' } }, { status: 201 })
+  );
+  const statuses: number[] = [];
+  const middleware: Middleware = {
+    beforeRequest: request => {
+      const headers = new Headers(request.headers);
+      headers.set('Authorization', 'Bearer from-middleware');
+      return new Request(request, { headers });
+    },
+    afterResponse: response => void statuses.push(response.status)
+  };
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+  client.use(middleware);
+
+  await client.tags.createTag('web');
+  assertEquals(statuses, [201]);
+  assertEquals(
+    stub.requests[0].headers.get('authorization'),
+    'Bearer from-middleware'
+  );
+});
+
+Deno.test('onError reports API errors and failing middleware', async () => {
+  const stub = new StubFetch(() =>
+    Response.json({ id: 'not_found' }, { status: 404 })
+  );
+  const errors: unknown[] = [];
+  const client = new DigitalOcean('token', undefined, {
+    fetch: stub.fetch,
+    retry: false,
+    middleware: [{ onError: error => void errors.push(error) }]
+  });
+
+  await assertRejects(() => client.tags.getTagByName('missing'));
+  client.use({
+    beforeRequest: () => {
+      throw new Error('middleware failed');
+    }
+  });
+  await assertRejects(() => client.tags.getTags(), Error, 'middleware failed');
+  assertEquals(errors.length, 2);
+  assertEquals((errors[1] as Error).message, 'middleware failed');
+  assertEquals(stub.requests.length, 1);
+});
+
+Deno.test('getAll* methods take the page size as an option', async () => {
+  const stub = pagedTags(5);
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+
+  const tags = await client.tags.getTags({ perPage: 2 });
+  assertEquals(tags.length, 5);
+  assertEquals(
+    stub.requests.map(request => new URL(request.url).search),
+    ['?per_page=2', '?page=2&per_page=2', '?page=3&per_page=2']
+  );
+});
+
+function hangingFetch(input: RequestInfo | URL, init?: RequestInit) {
+  const { signal } = new Request(input, init);
+  return new Promise<Response>((_, reject) => {
+    signal.throwIfAborted();
+    signal.addEventListener('abort', () => reject(signal.reason));
+  });
+}
+
+Deno.test('attempts time out after the client timeout', async () => {
+  const client = new DigitalOcean('token', undefined, {
+    fetch: hangingFetch,
+    timeout: 20,
+    retry: false
+  });
+
+  const error = await assertRejects(() => client.account.getUserInformation());
+  assertEquals((error as Error).name, 'TimeoutError');
+});
+
+Deno.test('the caller signal cancels a call', async () => {
+  const client = new DigitalOcean('token', undefined, { fetch: hangingFetch });
+  const controller = new AbortController();
+  const call = client.account.getUserInformation({
+    signal: controller.signal
+  });
+  controller.abort(new Error('cancelled'));
+
+  await assertRejects(() => call, Error, 'cancelled');
+});
+
+Deno.test('text responses are read with their own Accept header', async () => {
+  const kubeconfig = 'apiVersion: v1\nkind: Config\n';
+  const stub = new StubFetch(
+    () =>
+      new Response(kubeconfig, {
+        headers: { 'content-type': 'application/yaml' }
+      })
+  );
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+
+  assertEquals(await client.kubernetes.getClusterKubeconfig('id'), kubeconfig);
+  assertEquals(stub.requests[0].headers.get('accept'), 'application/yaml');
+});
+
+Deno.test('streamed downloads may outlast the timeout', async () => {
+  const client = new DigitalOcean('token', undefined, {
+    timeout: 20,
+    fetch: () => {
+      let chunks = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull: controller =>
+          new Promise(resolve => {
+            setTimeout(() => {
+              if (chunks++ < 3) {
+                controller.enqueue(new Uint8Array([chunks]));
+              } else {
+                controller.close();
+              }
+              resolve();
+            }, 15);
+          })
+      });
+      return Promise.resolve(new Response(body));
+    }
+  });
+
+  const stream = await client.billingHistory.getInvoicePdfStream('uuid');
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  assertInstanceOf(stream, ReadableStream);
+  assertEquals([...bytes], [1, 2, 3]);
+});
@@ -0,0 +1,199 @@
+// deno-lint-ignore-file no-explicit-any
+import { DigitalOceanError } from './errors.ts';
+
+/**
+ * Retry policy applied by the client to transient failures: network errors,
+ * rate limiting (429) and server errors (5xx).
+ */
+export interface RetryOptions {
+  /** Total number of attempts, including the first one */
+  maxAttempts?: number;
+  /** Delay in milliseconds before the first retry, doubled on each attempt */
+  baseDelay?: number;
+  /**
+   * Longest delay in milliseconds to wait before a retry. When the API asks to
+   * wait longer (`Retry-After` or `ratelimit-reset`) the error is thrown.
+   */
+  maxDelay?: number;
+  /** HTTP status codes that are retried */
+  statuses?: number[];
+  /** Also retry POST and PATCH requests, which are not idempotent */
+  retryNonIdempotent?: boolean;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 30_000,
+  statuses: [429, 500, 502, 503, 504],
+  retryNonIdempotent: false
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE'];
+
+/**
+ * Whether requests with the given method may be retried under the policy
+ *
+ * @ignore
+ */
+export function canRetry(policy: Required<RetryOptions>, method: string) {
+  return (
+    policy.retryNonIdempotent ||
+    IDEMPOTENT_METHODS.includes(method.toUpperCase())
+  );
+}
+
+/**
+ * Milliseconds to wait before retrying after `error` on the given attempt
+ * (starting at 1), or `undefined` if the error should not be retried.
+ *
+ * @ignore
+ */
+export function retryDelay(
+  policy: Required<RetryOptions>,
+  attempt: number,
+  error: any
+): number | undefined {
+  if (attempt >= policy.maxAttempts) {
+    return undefined;
+  }
+
+  if (error instanceof DigitalOceanError) {
+    if (!policy.statuses.includes(error.status)) {
+      return undefined;
+    }
+    const requested = requestedDelay(
+      error.response?.headers,
+      error.status === 429
+    );
+    if (requested !== undefined) {
+      return requested <= policy.maxDelay ? requested : undefined;
+    }
+  } else if (!(error instanceof TypeError) && error?.name !== 'TimeoutError') {
+    // fetch rejects with a TypeError on network failures, anything else
+    // (aborts, bugs) is not transient
+    return undefined;
+  }
+
+  // exponential backoff with full jitter
+  const ceiling = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * 2 ** (attempt - 1)
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Delay the API asks for, from `Retry-After` (seconds or HTTP date) or, when
+ * rate limited, `ratelimit-reset` (epoch seconds)
+ */
+function requestedDelay(
+  headers: Headers | undefined,
+  rateLimited: boolean
+): number | undefined {
+  const retryAfter = headers?.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = isNaN(seconds)
+      ? Date.parse(retryAfter) - Date.now()
+      : seconds * 1000;
+    if (!isNaN(ms)) {
+      return Math.max(0, ms);
+    }
+  }
+
+  const reset = Number(headers?.get('ratelimit-reset'));
+  if (rateLimited && reset) {
+    return Math.max(0, reset * 1000 - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * How `withRetry` runs the attempts of a request
+ *
+ * @ignore
+ */
+export interface AttemptOptions {
+  method: string;
+  /** Retry policy of the client, no retries when missing */
+  policy?: Required<RetryOptions>;
+  /** Cancels the current attempt and any pending retry */
+  signal?: AbortSignal;
+  /**
+   * Milliseconds before each attempt is aborted with a `TimeoutError`, until
+   * it resolves
+   */
+  timeout?: number;
+  /**
+   * Waits for a turn before each attempt, e.g. from a throttle. The timeout
+   * only starts once it resolves.
+   */
+  acquire?: () => Promise<void>;
+}
+
+/**
+ * Run `attempt` until it resolves, retrying the failures `policy` allows
+ * after the delay it asks for
+ *
+ * @ignore
+ */
+export async function withRetry<T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  { method, policy, signal, timeout, acquire }: AttemptOptions
+): Promise<T> {
+  for (let count = 1; ; count++) {
+    await acquire?.();
+    // the timeout applies to each attempt, the caller's signal to all of them
+    const controller = new AbortController();
+    const timer = timeout
+      ? setTimeout(
+          () =>
+            controller.abort(
+              new DOMException('Signal timed out.', 'TimeoutError')
+            ),
+          timeout
+        )
+      : undefined;
+    const signals = signal ? [signal, controller.signal] : [controller.signal];
+    try {
+      // the timer stops once the attempt resolves, so a streamed body can
+      // take longer than the timeout to be read
+      return await attempt(AbortSignal.any(signals));
+    } catch (error) {
+      const delay =
+        policy && canRetry(policy, method) && !signal?.aborted
+          ? retryDelay(policy, count, error)
+          : undefined;
+      if (delay === undefined) {
+        throw error;
+      }
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Resolve after `ms` milliseconds, or reject with the reason of `signal` as
+ * soon as it is aborted
+ *
+ * @ignore
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
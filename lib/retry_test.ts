@@ -0,0 +1,128 @@
+import { assert, assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from './digitalocean.ts';
+import { RateLimitError, ServerError, ValidationError } from './errors.ts';
+import { DEFAULT_RETRY_OPTIONS, retryDelay } from './retry.ts';
+import { StubFetch } from './testing/stub-fetch.ts';
+
+/**
+ * Answers with the given responses in order, repeating the last one
+ */
+function sequence(...responses: (() => Response)[]) {
+  let calls = 0;
+  return new StubFetch(() =>
+    responses[Math.min(++calls, responses.length) - 1]()
+  );
+}
+
+const ok = () => Response.json({ account: { email: 'sammy@example.com' } });
+const unavailable = (headers?: HeadersInit) => () =>
+  Response.json({ id: 'service_unavailable' }, { status: 503, headers });
+
+Deno.test('server errors are retried with backoff', async () => {
+  const stub = sequence(unavailable(), unavailable(), ok);
+  const restore = stub.install();
+  try {
+    const client = new DigitalOcean('token', undefined, {
+      retry: { baseDelay: 1 }
+    });
+    const account = await client.account.getUserInformation();
+    assertEquals(account.email, 'sammy@example.com');
+  } finally {
+    restore();
+  }
+  assertEquals(stub.requests.length, 3);
+});
+
+Deno.test('retries stop after maxAttempts', async () => {
+  const stub = sequence(unavailable());
+  const restore = stub.install();
+  try {
+    const client = new DigitalOcean('token', undefined, {
+      retry: { baseDelay: 1, maxAttempts: 2 }
+    });
+    await assertRejects(() => client.account.getUserInformation(), ServerError);
+  } finally {
+    restore();
+  }
+  assertEquals(stub.requests.length, 2);
+});
+
+Deno.test('POST requests are not retried by default', async () => {
+  const stub = sequence(unavailable(), ok);
+  const restore = stub.install();
+  try {
+    const client = new DigitalOcean('token', undefined, {
+      retry: { baseDelay: 1 }
+    });
+    await assertRejects(() => client.tags.createTag('web'), ServerError);
+  } finally {
+    restore();
+  }
+  assertEquals(
+    stub.requests.map(request => request.method),
+    ['POST']
+  );
+});
+
+Deno.test('client errors are not retried', async () => {
+  const stub = sequence(() =>
+    Response.json({ id: 'unprocessable_entity' }, { status: 422 })
+  );
+  const restore = stub.install();
+  try {
+    const client = new DigitalOcean('token');
+    await assertRejects(() => client.tags.getTags(), ValidationError);
+  } finally {
+    restore();
+  }
+  assertEquals(stub.requests.length, 1);
+});
+
+Deno.test('Retry-After is honoured', () => {
+  const error = (status: number, headers: HeadersInit) =>
+    new RateLimitError({
+      status,
+      method: 'GET',
+      endpoint: '/droplets',
+      response: new Response(null, { status, headers })
+    });
+  const policy = DEFAULT_RETRY_OPTIONS;
+
+  assertEquals(retryDelay(policy, 1, error(429, { 'retry-after': '2' })), 2000);
+  const date = new Date(Date.now() + 5000).toUTCString();
+  const delay = retryDelay(policy, 1, error(429, { 'retry-after': date }));
+  assert(delay !== undefined && delay > 3000 && delay <= 5000);
+  const reset = String(Math.ceil(Date.now() / 1000) + 2);
+  const untilReset = retryDelay(
+    policy,
+    1,
+    error(429, { 'ratelimit-reset': reset })
+  );
+  assert(untilReset !== undefined && untilReset > 1000 && untilReset <= 3000);
+  // waiting longer than maxDelay gives up
+  assertEquals(
+    retryDelay(policy, 1, error(429, { 'retry-after': '3600' })),
+    undefined
+  );
+});
+
+Deno.test('a zero Retry-After retries immediately', async () => {
+  const stub = sequence(unavailable({ 'retry-after': '0' }), ok);
+  const restore = stub.install();
+  try {
+    await new DigitalOcean('token').account.getUserInformation();
+  } finally {
+    restore();
+  }
+  assertEquals(stub.requests.length, 2);
+});
+
+Deno.test('network errors are retried, other errors are not', () => {
+  const policy = DEFAULT_RETRY_OPTIONS;
+  assert(retryDelay(policy, 1, new TypeError('fetch failed')) !== undefined);
+  assertEquals(retryDelay(policy, 1, new Error('bug')), undefined);
+  assertEquals(
+    retryDelay(policy, policy.maxAttempts, new TypeError('fetch failed')),
+    undefined
+  );
+});
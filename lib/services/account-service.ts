@@ -1,9 +1,9 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 
 import { Account } from '../models/account.ts';
 
 export class AccountService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Get the account information associated with the provided credentials
@@ -16,7 +16,9 @@ export class AccountService {
    * const account = await client.account.getUserInformation();
    * ```
    */
-  public getUserInformation(): Promise<Account> {
-    return request.get(`/account`).then(response => response.data.account);
+  public getUserInformation(options?: RequestOptions): Promise<Account> {
+    return this.request
+      .get(`/account`, options)
+      .then(response => response.data.account);
   }
 }
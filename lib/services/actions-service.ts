@@ -1,9 +1,15 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+import {
+  toWaitableAction,
+  WaitableAction,
+  waitForAction,
+  WaitOptions
+} from '../waiter.ts';
 
 import { Action } from '../models/action.ts';
 
 export class ActionService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * List all of the actions that have been executed on the current account.
@@ -19,11 +25,34 @@ export class ActionService {
    * actions = await client.actions.getAllActions(10, 1);
    * ```
    */
-  public getAllActions(perPage?: number, page?: number): Promise<Action[]> {
+  public getAllActions(
+    perPage?: number,
+    page?: number,
+    options?: RequestOptions
+  ): Promise<Action[]> {
     page = page || 1;
     perPage = perPage || 25;
     const url = `/actions?page=${page}&per_page=${perPage}`;
-    return request.get(url).then(response => response.data.actions);
+    return this.request
+      .get(url, options)
+      .then(response => response.data.actions);
+  }
+
+  /**
+   * Iterate over every action executed on the current account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const action of client.actions.listActions()) {
+   *   console.log(action);
+   * }
+   * ```
+   */
+  public listActions(options?: RequestOptions): AsyncIterableIterator<Action> {
+    return this.request.paginate(`/actions`, 'actions', options);
   }
 
   /**
@@ -37,8 +66,39 @@ export class ActionService {
    * const action = await client.actions.getExistingAction('specific-action-id');
    * ```
    */
-  public getExistingAction(id: number): Promise<Action> {
+  public getExistingAction(
+    id: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const url = `/actions/${id}`;
-    return request.get(url).then(response => response.data.action);
+    return this.request
+      .get(url, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
+  }
+
+  /**
+   * Wait for an action to complete, polling its status until it is `completed`.
+   * Rejects with an `ActionFailedError` if the action is `errored`, with a
+   * `WaitTimeoutError` once `timeout` elapses, or with the abort reason of `signal`.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const action = await client.dropletActions.rebootDroplet(1234);
+   * const completed = await client.actions.waitForAction(action, {
+   *   timeout: 5 * 60 * 1000,
+   *   interval: 2000
+   * });
+   * // or, equivalently
+   * await action.wait();
+   * ```
+   */
+  public waitForAction(
+    action: Action | number,
+    options?: WaitOptions
+  ): Promise<Action> {
+    return waitForAction(this.request, action, options);
   }
 }
@@ -0,0 +1,564 @@
+import { ResourceFailedError } from '../errors.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+import { waitUntil, WaitUntilOptions } from '../waiter.ts';
+
+import {
+  App,
+  AppAlert,
+  AppAlertDestinations,
+  AppDeployment,
+  AppLogs,
+  AppLogsOptions,
+  AppLogType,
+  AppProposeResponse,
+  AppRequest,
+  AppRollbackRequest,
+  AppRollbackValidation,
+  AppSpec
+} from '../models/app.ts';
+
+export class AppsService {
+  constructor(private request: RequestTool) {}
+
+  /**
+   * Get all apps on your account
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const apps = await client.apps.getAllApps();
+   * ```
+   */
+  public getAllApps(options?: RequestOptions): Promise<App[]> {
+    return this.request.all(`/apps`, 'apps', options);
+  }
+
+  /**
+   * Iterate over every app on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const app of client.apps.listApps()) {
+   *   console.log(app);
+   * }
+   * ```
+   */
+  public listApps(options?: RequestOptions): AsyncIterableIterator<App> {
+    return this.request.paginate(`/apps`, 'apps', options);
+  }
+
+  /**
+   * Create a new app from an app spec
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const request = {
+   *   spec: {
+   *     name: 'web-app',
+   *     region: 'nyc',
+   *     services: [
+   *       {
+   *         name: 'api',
+   *         github: {
+   *           repo: 'digitalocean/sample-golang',
+   *           branch: 'main',
+   *           deploy_on_push: true
+   *         },
+   *         http_port: 8080,
+   *         instance_count: 2,
+   *         instance_size_slug: 'apps-s-1vcpu-0.5gb',
+   *         envs: [{ key: 'API_KEY', value: 'secret', type: 'SECRET' }]
+   *       }
+   *     ]
+   *   }
+   * };
+   * const app = await client.apps.createApp(request);
+   * ```
+   */
+  public async createApp(
+    app: AppRequest,
+    options?: RequestOptions
+  ): Promise<App> {
+    if (!this.specIsValid(app.spec)) {
+      throw new Error('Required fields missing from App Spec Object');
+    }
+    return await this.request
+      .post(`/apps`, app, options)
+      .then(response => response.data.app);
+  }
+
+  /**
+   * Get an existing app
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const app = await client.apps.getApp('app-id');
+   * ```
+   */
+  public getApp(appId: string, options?: RequestOptions): Promise<App> {
+    return this.request
+      .get(`/apps/${appId}`, options)
+      .then(response => response.data.app);
+  }
+
+  /**
+   * Replace the spec of an existing app, triggering a new deployment
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const app = await client.apps.getApp('app-id');
+   * app.spec.services[0].instance_count = 3;
+   * const updated = await client.apps.updateApp('app-id', app.spec);
+   * ```
+   */
+  public async updateApp(
+    appId: string,
+    spec: AppSpec,
+    options?: RequestOptions
+  ): Promise<App> {
+    if (!this.specIsValid(spec)) {
+      throw new Error('Required fields missing from App Spec Object');
+    }
+    return await this.request
+      .put(`/apps/${appId}`, { spec }, options)
+      .then(response => response.data.app);
+  }
+
+  /**
+   * Delete an existing app
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.apps.deleteApp('app-id');
+   * ```
+   */
+  public deleteApp(appId: string, options?: RequestOptions): Promise<void> {
+    return this.request
+      .delete(`/apps/${appId}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Validate an app spec and get its cost without creating the app. Pass the
+   * id of an existing app to validate an update of it.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const proposal = await client.apps.validateAppSpec(spec);
+   * console.log(proposal.app_name_available, proposal.app_cost);
+   * ```
+   */
+  public validateAppSpec(
+    spec: AppSpec,
+    appId?: string,
+    options?: RequestOptions
+  ): Promise<AppProposeResponse> {
+    const body = appId ? { spec, app_id: appId } : { spec };
+    return this.request
+      .post(`/apps/propose`, body, options)
+      .then(response => response.data);
+  }
+
+  /**
+   * Get all deployments of an app
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const deployments = await client.apps.getAllDeployments('app-id');
+   * ```
+   */
+  public getAllDeployments(
+    appId: string,
+    options?: RequestOptions
+  ): Promise<AppDeployment[]> {
+    return this.request.all(
+      `/apps/${appId}/deployments`,
+      'deployments',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every deployment of an app, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const deployment of client.apps.listDeployments('app-id')) {
+   *   console.log(deployment);
+   * }
+   * ```
+   */
+  public listDeployments(
+    appId: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<AppDeployment> {
+    return this.request.paginate(
+      `/apps/${appId}/deployments`,
+      'deployments',
+      options
+    );
+  }
+
+  /**
+   * Get an existing deployment of an app
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const deployment = await client.apps.getDeployment('app-id', 'deployment-id');
+   * ```
+   */
+  public getDeployment(
+    appId: string,
+    deploymentId: string,
+    options?: RequestOptions
+  ): Promise<AppDeployment> {
+    return this.request
+      .get(`/apps/${appId}/deployments/${deploymentId}`, options)
+      .then(response => response.data.deployment);
+  }
+
+  /**
+   * Trigger a new deployment of an app. With `forceBuild` every component is
+   * rebuilt, even if its source did not change.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const deployment = await client.apps.createDeployment('app-id', true);
+   * ```
+   */
+  public createDeployment(
+    appId: string,
+    forceBuild = false,
+    options?: RequestOptions
+  ): Promise<AppDeployment> {
+    return this.request
+      .post(`/apps/${appId}/deployments`, { force_build: forceBuild }, options)
+      .then(response => response.data.deployment);
+  }
+
+  /**
+   * Cancel an in-progress deployment of an app
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const deployment = await client.apps.cancelDeployment('app-id', 'deployment-id');
+   * ```
+   */
+  public cancelDeployment(
+    appId: string,
+    deploymentId: string,
+    options?: RequestOptions
+  ): Promise<AppDeployment> {
+    return this.request
+      .post(
+        `/apps/${appId}/deployments/${deploymentId}/cancel`,
+        undefined,
+        options
+      )
+      .then(response => response.data.deployment);
+  }
+
+  /**
+   * Wait until a deployment is `ACTIVE`. Rejects with a `ResourceFailedError`
+   * if the deployment errors or is canceled.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const deployment = await client.apps.createDeployment('app-id');
+   * await client.apps.waitForDeploymentActive('app-id', deployment.id, {
+   *   onProgress: deployment => console.log(deployment.phase)
+   * });
+   * ```
+   */
+  public waitForDeploymentActive(
+    appId: string,
+    deploymentId: string,
+    options?: WaitUntilOptions<AppDeployment>
+  ): Promise<AppDeployment> {
+    const description = `deployment ${deploymentId} of app ${appId}`;
+    return waitUntil(
+      () =>
+        this.getDeployment(appId, deploymentId, { signal: options?.signal }),
+      deployment => {
+        if (deployment.phase === 'ERROR' || deployment.phase === 'CANCELED') {
+          throw new ResourceFailedError(description, deployment);
+        }
+        return deployment.phase === 'ACTIVE';
+      },
+      { description: `${description} to be active`, ...options }
+    );
+  }
+
+  /**
+   * Get the URLs of the logs of a deployment, for all components or for a
+   * single one
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const logs = await client.apps.getDeploymentLogs(
+   *   'app-id',
+   *   'deployment-id',
+   *   'BUILD',
+   *   'api'
+   * );
+   * const response = await fetch(logs.historic_urls[0]);
+   * ```
+   */
+  public getDeploymentLogs(
+    appId: string,
+    deploymentId: string,
+    type: AppLogType,
+    componentName?: string,
+    logsOptions: AppLogsOptions = {},
+    options?: RequestOptions
+  ): Promise<AppLogs> {
+    const component = componentName ? `/components/${componentName}` : '';
+    const query = this.logsQuery(type, logsOptions);
+    return this.request
+      .get(
+        `/apps/${appId}/deployments/${deploymentId}${component}/logs?${query}`,
+        options
+      )
+      .then(response => response.data);
+  }
+
+  /**
+   * Get the URLs of the logs of the active deployment of an app
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const logs = await client.apps.getActiveDeploymentLogs('app-id', 'RUN', 'api', {
+   *   follow: true
+   * });
+   * ```
+   */
+  public getActiveDeploymentLogs(
+    appId: string,
+    type: AppLogType,
+    componentName?: string,
+    logsOptions: AppLogsOptions = {},
+    options?: RequestOptions
+  ): Promise<AppLogs> {
+    const component = componentName ? `/components/${componentName}` : '';
+    const query = this.logsQuery(type, logsOptions);
+    return this.request
+      .get(`/apps/${appId}${component}/logs?${query}`, options)
+      .then(response => response.data);
+  }
+
+  /**
+   * Roll an app back to a previous deployment. The app is pinned to it until
+   * the rollback is committed or reverted, unless `skip_pin` is set.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const deployment = await client.apps.rollbackApp('app-id', {
+   *   deployment_id: 'deployment-id'
+   * });
+   * ```
+   */
+  public async rollbackApp(
+    appId: string,
+    rollback: AppRollbackRequest,
+    options?: RequestOptions
+  ): Promise<AppDeployment> {
+    if (!rollback.deployment_id) {
+      throw new Error('Required fields missing from Rollback Object');
+    }
+    return await this.request
+      .post(`/apps/${appId}/rollback`, rollback, options)
+      .then(response => response.data.deployment);
+  }
+
+  /**
+   * Check whether an app can be rolled back to a previous deployment
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const { valid, warnings } = await client.apps.validateRollback('app-id', {
+   *   deployment_id: 'deployment-id'
+   * });
+   * ```
+   */
+  public async validateRollback(
+    appId: string,
+    rollback: AppRollbackRequest,
+    options?: RequestOptions
+  ): Promise<AppRollbackValidation> {
+    if (!rollback.deployment_id) {
+      throw new Error('Required fields missing from Rollback Object');
+    }
+    return await this.request
+      .post(`/apps/${appId}/rollback/validate`, rollback, options)
+      .then(response => response.data);
+  }
+
+  /**
+   * Commit a rollback, unpinning the app so later commits deploy again
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.apps.commitRollback('app-id');
+   * ```
+   */
+  public commitRollback(
+    appId: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .post(`/apps/${appId}/rollback/commit`, undefined, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Revert a rollback, deploying the app as it was before the rollback
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const deployment = await client.apps.revertRollback('app-id');
+   * ```
+   */
+  public revertRollback(
+    appId: string,
+    options?: RequestOptions
+  ): Promise<AppDeployment> {
+    return this.request
+      .post(`/apps/${appId}/rollback/revert`, undefined, options)
+      .then(response => response.data.deployment);
+  }
+
+  /**
+   * Get the alerts configured for an app and its components
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const alerts = await client.apps.getAppAlerts('app-id');
+   * ```
+   */
+  public getAppAlerts(
+    appId: string,
+    options?: RequestOptions
+  ): Promise<AppAlert[]> {
+    return this.request
+      .get(`/apps/${appId}/alerts`, options)
+      .then(response => response.data.alerts);
+  }
+
+  /**
+   * Set the emails and Slack webhooks notified by an app alert
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const alert = await client.apps.updateAlertDestinations('app-id', 'alert-id', {
+   *   emails: ['sammy@digitalocean.com'],
+   *   slack_webhooks: [
+   *     { url: 'https://hooks.slack.com/services/T1234/B1234/abc', channel: '#alerts' }
+   *   ]
+   * });
+   * ```
+   */
+  public updateAlertDestinations(
+    appId: string,
+    alertId: string,
+    destinations: AppAlertDestinations,
+    options?: RequestOptions
+  ): Promise<AppAlert> {
+    return this.request
+      .post(
+        `/apps/${appId}/alerts/${alertId}/destinations`,
+        destinations,
+        options
+      )
+      .then(response => response.data.alert);
+  }
+
+  private logsQuery(type: AppLogType, logsOptions: AppLogsOptions): string {
+    const query = new URLSearchParams({ type });
+    if (logsOptions.follow !== undefined) {
+      query.set('follow', String(logsOptions.follow));
+    }
+    if (logsOptions.pod_connection_timeout) {
+      query.set('pod_connection_timeout', logsOptions.pod_connection_timeout);
+    }
+    return query.toString();
+  }
+
+  ////////// Validation Methods //////////
+  private specIsValid(spec: AppSpec): boolean {
+    if (!spec || !spec.name) {
+      return false;
+    }
+    const components = [
+      ...(spec.services ?? []),
+      ...(spec.static_sites ?? []),
+      ...(spec.workers ?? []),
+      ...(spec.jobs ?? [])
+    ];
+    if (components.some(component => !component.name)) {
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,101 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from '../digitalocean.ts';
+import { ResourceFailedError } from '../errors.ts';
+import { StubFetch } from '../testing/stub-fetch.ts';
+
+const SPEC = {
+  name: 'web-app',
+  region: 'nyc',
+  services: [{ name: 'api', http_port: 8080, instance_count: 2 }]
+};
+
+function setup(handler: () => Response) {
+  const stub = new StubFetch(handler);
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+  return { stub, client };
+}
+
+Deno.test('createApp and updateApp send the spec', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ app: { id: 'app-id', spec: SPEC } })
+  );
+
+  const app = await client.apps.createApp({ spec: SPEC });
+  assertEquals(app.id, 'app-id');
+  await client.apps.updateApp('app-id', SPEC);
+
+  const [create, update] = stub.requests;
+  assertEquals(
+    `${create.method} ${create.url}`,
+    'POST https://api.digitalocean.com/v2/apps'
+  );
+  assertEquals(await create.json(), { spec: SPEC });
+  assertEquals(
+    `${update.method} ${new URL(update.url).pathname}`,
+    'PUT /v2/apps/app-id'
+  );
+  assertEquals(await update.json(), { spec: SPEC });
+});
+
+Deno.test('invalid app specs reject without a request', async () => {
+  const { stub, client } = setup(() => Response.json({}));
+
+  await assertRejects(
+    () => client.apps.createApp({ spec: { services: [] } as any }),
+    Error,
+    'Required fields missing from App Spec Object'
+  );
+  await assertRejects(
+    () =>
+      client.apps.updateApp('app-id', {
+        name: 'web-app',
+        services: [{} as any]
+      }),
+    Error
+  );
+  await assertRejects(
+    () => client.apps.rollbackApp('app-id', {} as any),
+    Error
+  );
+  assertEquals(stub.requests.length, 0);
+});
+
+Deno.test('getDeploymentLogs builds the logs url', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ live_url: 'https://logs.example/live', historic_urls: [] })
+  );
+
+  const logs = await client.apps.getDeploymentLogs(
+    'app-id',
+    'deployment-id',
+    'BUILD',
+    'api',
+    { follow: true }
+  );
+  assertEquals(logs.live_url, 'https://logs.example/live');
+  assertEquals(
+    stub.requests[0].url,
+    'https://api.digitalocean.com/v2/apps/app-id/deployments/deployment-id/components/api/logs?type=BUILD&follow=true'
+  );
+});
+
+Deno.test('failed deployments reject the waiter', async () => {
+  let reads = 0;
+  const { client } = setup(() =>
+    Response.json({
+      deployment: {
+        id: 'deployment-id',
+        phase: ++reads < 2 ? 'BUILDING' : 'ERROR'
+      }
+    })
+  );
+
+  await assertRejects(
+    () =>
+      client.apps.waitForDeploymentActive('app-id', 'deployment-id', {
+        interval: 1
+      }),
+    ResourceFailedError
+  );
+  assertEquals(reads, 2);
+});
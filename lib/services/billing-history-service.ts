@@ -1,9 +1,10 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 import { Balance } from '../models/balance.ts';
 import { BillingHistory } from '../models/billing-history.ts';
+import { Invoice, InvoiceItem, InvoiceSummary } from '../models/invoice.ts';
 
 export class BillingHistoryService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Retrieve the balances on a customer's account
@@ -16,8 +17,10 @@ export class BillingHistoryService {
    * const balance = await client.billingHistory.getMyBalance();
    * ```
    */
-  public getMyBalance(): Promise<Balance> {
-    return request.get('/customers/my/balance').then(response => response.data);
+  public getMyBalance(options?: RequestOptions): Promise<Balance> {
+    return this.request
+      .get('/customers/my/balance', options)
+      .then(response => response.data);
   }
 
   /**
@@ -31,9 +34,253 @@ export class BillingHistoryService {
    * const billingHistory = await client.billingHistory.getMyBillingHistory();
    * ```
    */
-  public getMyBillingHistory(): Promise<BillingHistory[]> {
-    return request
-      .get('/customers/my/billing_history')
-      .then(response => response.data.billing_history);
+  public getMyBillingHistory(
+    options?: RequestOptions
+  ): Promise<BillingHistory[]> {
+    return this.request.all(
+      '/customers/my/billing_history',
+      'billing_history',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every billing history entry, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const billingHistory of client.billingHistory.listMyBillingHistory()) {
+   *   console.log(billingHistory);
+   * }
+   * ```
+   */
+  public listMyBillingHistory(
+    options?: RequestOptions
+  ): AsyncIterableIterator<BillingHistory> {
+    return this.request.paginate(
+      '/customers/my/billing_history',
+      'billing_history',
+      options
+    );
+  }
+
+  /**
+   * Retrieve a list of all invoices
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const invoices = await client.billingHistory.getAllInvoices();
+   * ```
+   */
+  public getAllInvoices(options?: RequestOptions): Promise<Invoice[]> {
+    return this.request.all('/customers/my/invoices', 'invoices', options);
+  }
+
+  /**
+   * Iterate over every invoice, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const invoice of client.billingHistory.listInvoices()) {
+   *   console.log(invoice.invoice_period, invoice.amount);
+   * }
+   * ```
+   */
+  public listInvoices(
+    options?: RequestOptions
+  ): AsyncIterableIterator<Invoice> {
+    return this.request.paginate('/customers/my/invoices', 'invoices', options);
+  }
+
+  /**
+   * Retrieve a preview of the invoice of the current month, based on usage
+   * so far
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const preview = await client.billingHistory.getInvoicePreview();
+   * ```
+   */
+  public getInvoicePreview(options?: RequestOptions): Promise<Invoice> {
+    return this.request
+      .get('/customers/my/invoices?per_page=1', options)
+      .then(response => response.data.invoice_preview);
+  }
+
+  /**
+   * Retrieve all items of an invoice
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const items = await client.billingHistory.getAllInvoiceItems('invoice-uuid');
+   * ```
+   */
+  public getAllInvoiceItems(
+    invoiceUuid: string,
+    options?: RequestOptions
+  ): Promise<InvoiceItem[]> {
+    return this.request.all(
+      `/customers/my/invoices/${invoiceUuid}`,
+      'invoice_items',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every item of an invoice, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const item of client.billingHistory.listInvoiceItems('invoice-uuid')) {
+   *   console.log(item.description, item.amount);
+   * }
+   * ```
+   */
+  public listInvoiceItems(
+    invoiceUuid: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<InvoiceItem> {
+    return this.request.paginate(
+      `/customers/my/invoices/${invoiceUuid}`,
+      'invoice_items',
+      options
+    );
+  }
+
+  /**
+   * Retrieve the summary of an invoice: totals per product, overages, taxes
+   * and credits
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const summary = await client.billingHistory.getInvoiceSummary('invoice-uuid');
+   * ```
+   */
+  public getInvoiceSummary(
+    invoiceUuid: string,
+    options?: RequestOptions
+  ): Promise<InvoiceSummary> {
+    return this.request
+      .get(`/customers/my/invoices/${invoiceUuid}/summary`, options)
+      .then(response => response.data);
+  }
+
+  /**
+   * Download an invoice as CSV
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const csv = await client.billingHistory.getInvoiceCsv('invoice-uuid');
+   * await Deno.writeFile('invoice.csv', csv);
+   * ```
+   */
+  public getInvoiceCsv(
+    invoiceUuid: string,
+    options?: RequestOptions
+  ): Promise<Uint8Array> {
+    return this.request
+      .get(`/customers/my/invoices/${invoiceUuid}/csv`, options, {
+        mode: 'bytes',
+        accept: 'text/csv'
+      })
+      .then(response => response.data);
+  }
+
+  /**
+   * Stream an invoice as CSV
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const csv = await client.billingHistory.getInvoiceCsvStream('invoice-uuid');
+   * const file = await Deno.create('invoice.csv');
+   * await csv.pipeTo(file.writable);
+   * ```
+   */
+  public getInvoiceCsvStream(
+    invoiceUuid: string,
+    options?: RequestOptions
+  ): Promise<ReadableStream<Uint8Array>> {
+    return this.request
+      .get(`/customers/my/invoices/${invoiceUuid}/csv`, options, {
+        mode: 'stream',
+        accept: 'text/csv'
+      })
+      .then(response => response.data);
+  }
+
+  /**
+   * Download an invoice as PDF
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const pdf = await client.billingHistory.getInvoicePdf('invoice-uuid');
+   * await Deno.writeFile('invoice.pdf', pdf);
+   * ```
+   */
+  public getInvoicePdf(
+    invoiceUuid: string,
+    options?: RequestOptions
+  ): Promise<Uint8Array> {
+    return this.request
+      .get(`/customers/my/invoices/${invoiceUuid}/pdf`, options, {
+        mode: 'bytes',
+        accept: 'application/pdf'
+      })
+      .then(response => response.data);
+  }
+
+  /**
+   * Stream an invoice as PDF
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const pdf = await client.billingHistory.getInvoicePdfStream('invoice-uuid');
+   * const file = await Deno.create('invoice.pdf');
+   * await pdf.pipeTo(file.writable);
+   * ```
+   */
+  public getInvoicePdfStream(
+    invoiceUuid: string,
+    options?: RequestOptions
+  ): Promise<ReadableStream<Uint8Array>> {
+    return this.request
+      .get(`/customers/my/invoices/${invoiceUuid}/pdf`, options, {
+        mode: 'stream',
+        accept: 'application/pdf'
+      })
+      .then(response => response.data);
   }
 }
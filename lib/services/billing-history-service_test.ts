@@ -0,0 +1,62 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from '../digitalocean.ts';
+import { NotFoundError } from '../errors.ts';
+import { StubFetch, StubHandler } from '../testing/stub-fetch.ts';
+
+function setup(handler: StubHandler) {
+  const stub = new StubFetch(handler);
+  const client = new DigitalOcean('token', undefined, {
+    fetch: stub.fetch,
+    retry: false
+  });
+  return { stub, client };
+}
+
+Deno.test('invoice summaries are read by uuid', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ invoice_uuid: 'invoice-uuid', amount: '27.13' })
+  );
+
+  const summary = await client.billingHistory.getInvoiceSummary('invoice-uuid');
+  assertEquals(summary.amount, '27.13');
+  assertEquals(
+    new URL(stub.requests[0].url).pathname,
+    '/v2/customers/my/invoices/invoice-uuid/summary'
+  );
+});
+
+Deno.test('invoices download as bytes and streams', async () => {
+  const csv = 'product,amount\nDroplets,12.00\n';
+  const { stub, client } = setup(
+    () => new Response(csv, { headers: { 'content-type': 'text/csv' } })
+  );
+
+  const bytes = await client.billingHistory.getInvoiceCsv('invoice-uuid');
+  assertEquals(new TextDecoder().decode(bytes), csv);
+  const stream = await client.billingHistory.getInvoicePdfStream(
+    'invoice-uuid'
+  );
+  assertEquals(await new Response(stream).text(), csv);
+  assertEquals(
+    stub.requests.map(request => new URL(request.url).pathname),
+    [
+      '/v2/customers/my/invoices/invoice-uuid/csv',
+      '/v2/customers/my/invoices/invoice-uuid/pdf'
+    ]
+  );
+});
+
+Deno.test('failed invoice downloads reject with API errors', async () => {
+  const { client } = setup(() =>
+    Response.json(
+      { id: 'not_found', message: 'invoice not found' },
+      { status: 404 }
+    )
+  );
+
+  await assertRejects(
+    () => client.billingHistory.getInvoicePdf('missing'),
+    NotFoundError,
+    'invoice not found'
+  );
+});
@@ -1,9 +1,10 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+import { toWaitableAction, WaitableAction } from '../waiter.ts';
 
 import { Action, ActionRequest } from '../models/action.ts';
 
 export class BlockStorageActionService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Attach a Block Storage volume to a droplet
@@ -24,14 +25,15 @@ export class BlockStorageActionService {
    */
   public async attachVolumeToDroplet(
     volumeId: string,
-    actionRequest: ActionRequest
-  ): Promise<Action> {
+    actionRequest: ActionRequest,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     if (!this.attachActionIsValid(actionRequest)) {
       throw new Error('Required fields missing from Action Object');
     }
-    return await request
-      .post(`/volumes/${volumeId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return await this.request
+      .post(`/volumes/${volumeId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -53,14 +55,15 @@ export class BlockStorageActionService {
    * ```
    */
   public async attachVolumeToDropletByName(
-    actionRequest: ActionRequest
-  ): Promise<Action> {
+    actionRequest: ActionRequest,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     if (!this.attachActionByNameIsValid(actionRequest)) {
       throw new Error('Required fields missing from Action Object');
     }
-    return await request
-      .post(`/volumes/actions`, actionRequest)
-      .then(response => response.data.action);
+    return await this.request
+      .post(`/volumes/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -82,14 +85,15 @@ export class BlockStorageActionService {
    */
   public async detachVolumeFromDroplet(
     volumeId: string,
-    actionRequest: ActionRequest
-  ): Promise<Action> {
+    actionRequest: ActionRequest,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     if (!this.attachActionIsValid(actionRequest)) {
       throw new Error('Required fields missing from Action Object');
     }
-    return await request
-      .post(`/volumes/${volumeId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return await this.request
+      .post(`/volumes/${volumeId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -111,14 +115,15 @@ export class BlockStorageActionService {
    * ```
    */
   public async detachVolumeFromDropletByName(
-    actionRequest: ActionRequest
-  ): Promise<Action> {
+    actionRequest: ActionRequest,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     if (!this.attachActionByNameIsValid(actionRequest)) {
       throw new Error('Required fields missing from Action Object');
     }
-    return await request
-      .post(`/volumes/actions`, actionRequest)
-      .then(response => response.data.action);
+    return await this.request
+      .post(`/volumes/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -140,14 +145,15 @@ export class BlockStorageActionService {
    */
   public async resizeVolume(
     volumeId: string,
-    actionRequest: ActionRequest
-  ): Promise<Action> {
+    actionRequest: ActionRequest,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     if (!this.resizeActionIsValid(actionRequest)) {
       throw new Error('Required fields missing from Action Object');
     }
-    return await request
-      .post(`/volumes/${volumeId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return await this.request
+      .post(`/volumes/${volumeId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -168,12 +174,39 @@ export class BlockStorageActionService {
   public getAllVolumeActions(
     volumeId: string,
     perPage?: number,
-    page?: number
+    page?: number,
+    options?: RequestOptions
   ): Promise<Action[]> {
     page = page ?? 1;
     perPage = perPage || 25;
     const url = `/volumes/${volumeId}/actions?page=${page}&per_page=${perPage}`;
-    return request.get(url).then(response => response.data.actions);
+    return this.request
+      .get(url, options)
+      .then(response => response.data.actions);
+  }
+
+  /**
+   * Iterate over every action executed on a Block Storage volume
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const action of client.blockStorageActions.listVolumeActions('volume-id')) {
+   *   console.log(action);
+   * }
+   * ```
+   */
+  public listVolumeActions(
+    volumeId: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<Action> {
+    return this.request.paginate(
+      `/volumes/${volumeId}/actions`,
+      'actions',
+      options
+    );
   }
 
   /**
@@ -190,11 +223,12 @@ export class BlockStorageActionService {
    */
   public getExistingVolumeAction(
     volumeId: string,
-    actionId: number
-  ): Promise<Action> {
-    return request
-      .get(`/volumes/${volumeId}/actions/${actionId}`)
-      .then(response => response.data.action);
+    actionId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
+    return this.request
+      .get(`/volumes/${volumeId}/actions/${actionId}`, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   ////////// Validation Methods //////////
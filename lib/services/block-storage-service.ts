@@ -1,10 +1,11 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+import { waitUntil, WaitUntilOptions } from '../waiter.ts';
 
 import { BlockStorage, BlockStorageRequest } from '../models/block-storage.ts';
 import { Snapshot } from '../models/snapshot.ts';
 
 export class BlockStorageService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * List all of the Block Storage volumes available on your account
@@ -17,8 +18,27 @@ export class BlockStorageService {
    * const volumes = await client.blockStorage.getAllBlockStorage();
    * ```
    */
-  public getAllBlockStorage(): Promise<BlockStorage[]> {
-    return request.get(`/volumes`).then(response => response.data.volumes);
+  public getAllBlockStorage(options?: RequestOptions): Promise<BlockStorage[]> {
+    return this.request.all(`/volumes`, 'volumes', options);
+  }
+
+  /**
+   * Iterate over every Block Storage volume on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const blockStorage of client.blockStorage.listBlockStorage()) {
+   *   console.log(blockStorage);
+   * }
+   * ```
+   */
+  public listBlockStorage(
+    options?: RequestOptions
+  ): AsyncIterableIterator<BlockStorage> {
+    return this.request.paginate(`/volumes`, 'volumes', options);
   }
 
   /**
@@ -39,13 +59,14 @@ export class BlockStorageService {
    * ```
    */
   public async createBlockStorage(
-    volume: BlockStorageRequest
+    volume: BlockStorageRequest,
+    options?: RequestOptions
   ): Promise<BlockStorage> {
     if (!this.volumeIsValid(volume)) {
       throw new Error('Required fields missing from Block Storage Object');
     }
-    return await request
-      .post(`/volumes`, volume)
+    return await this.request
+      .post(`/volumes`, volume, options)
       .then(response => response.data.volume);
   }
 
@@ -60,8 +81,13 @@ export class BlockStorageService {
    * const volume = await client.blockStorage.getBlockStorageById('volume-id');
    * ```
    */
-  public getBlockStorageById(id: string): Promise<BlockStorage> {
-    return request.get(`/volumes/${id}`).then(response => response.data.volume);
+  public getBlockStorageById(
+    id: string,
+    options?: RequestOptions
+  ): Promise<BlockStorage> {
+    return this.request
+      .get(`/volumes/${id}`, options)
+      .then(response => response.data.volume);
   }
 
   /**
@@ -78,10 +104,11 @@ export class BlockStorageService {
    */
   public getBlockStorageByName(
     name: string,
-    regionSlug: string
+    regionSlug: string,
+    options?: RequestOptions
   ): Promise<BlockStorage[]> {
-    return request
-      .get(`/volumes?name=${name}&region=${regionSlug}`)
+    return this.request
+      .get(`/volumes?name=${name}&region=${regionSlug}`, options)
       .then(response => response.data.volumes);
   }
 
@@ -97,10 +124,35 @@ export class BlockStorageService {
    *    .getSnapshotsForVolume('volume-id');
    * ```
    */
-  public getSnapshotsForVolume(id: string): Promise<Snapshot[]> {
-    return request
-      .get(`/volumes/${id}/snapshots`)
-      .then(response => response.data.snapshots);
+  public getSnapshotsForVolume(
+    id: string,
+    options?: RequestOptions
+  ): Promise<Snapshot[]> {
+    return this.request.all(`/volumes/${id}/snapshots`, 'snapshots', options);
+  }
+
+  /**
+   * Iterate over every snapshot created from a Block Storage volume
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const snapshot of client.blockStorage.listSnapshotsForVolume('volume-id')) {
+   *   console.log(snapshot);
+   * }
+   * ```
+   */
+  public listSnapshotsForVolume(
+    id: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<Snapshot> {
+    return this.request.paginate(
+      `/volumes/${id}/snapshots`,
+      'snapshots',
+      options
+    );
   }
 
   /**
@@ -115,9 +167,13 @@ export class BlockStorageService {
    *    .createSnapshotFromVolume('volume-id', 'my-new-snapshot');
    * ```
    */
-  public createSnapshotFromVolume(id: string, name: string): Promise<Snapshot> {
-    return request
-      .post(`/volumes/${id}/snapshots`, { name })
+  public createSnapshotFromVolume(
+    id: string,
+    name: string,
+    options?: RequestOptions
+  ): Promise<Snapshot> {
+    return this.request
+      .post(`/volumes/${id}/snapshots`, { name }, options)
       .then(response => response.data.snapshot);
   }
 
@@ -132,8 +188,13 @@ export class BlockStorageService {
    * await client.blockStorage.deleteBlockStorageById('volume-id');
    * ```
    */
-  public deleteBlockStorageById(id: string): Promise<void> {
-    return request.delete(`/volumes/${id}`).then(() => undefined);
+  public deleteBlockStorageById(
+    id: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/volumes/${id}`, undefined, options)
+      .then(() => undefined);
   }
 
   /**
@@ -149,13 +210,70 @@ export class BlockStorageService {
    */
   public deleteBlockStorageByName(
     name: string,
-    regionSlug: string
+    regionSlug: string,
+    options?: RequestOptions
   ): Promise<void> {
-    return request
-      .delete(`/volumes?name=${name}&region=${regionSlug}`)
+    return this.request
+      .delete(`/volumes?name=${name}&region=${regionSlug}`, undefined, options)
       .then(() => undefined);
   }
 
+  /**
+   * Wait until a Block Storage volume is attached to a droplet
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.blockStorageActions.attachVolumeToDroplet('volume-id', request);
+   * const volume = await client.blockStorage
+   *    .waitForVolumeAttached('volume-id', 11612190);
+   * ```
+   */
+  public waitForVolumeAttached(
+    id: string,
+    dropletId: number,
+    options?: WaitUntilOptions<BlockStorage>
+  ): Promise<BlockStorage> {
+    return waitUntil(
+      () => this.getBlockStorageById(id, { signal: options?.signal }),
+      volume => volume.droplet_ids?.includes(dropletId),
+      {
+        description: `volume ${id} to be attached to droplet ${dropletId}`,
+        ...options
+      }
+    );
+  }
+
+  /**
+   * Wait until a Block Storage volume is detached from a droplet
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.blockStorageActions.detachVolumeFromDroplet('volume-id', request);
+   * const volume = await client.blockStorage
+   *    .waitForVolumeDetached('volume-id', 11612190);
+   * ```
+   */
+  public waitForVolumeDetached(
+    id: string,
+    dropletId: number,
+    options?: WaitUntilOptions<BlockStorage>
+  ): Promise<BlockStorage> {
+    return waitUntil(
+      () => this.getBlockStorageById(id, { signal: options?.signal }),
+      volume => !volume.droplet_ids?.includes(dropletId),
+      {
+        description: `volume ${id} to be detached from droplet ${dropletId}`,
+        ...options
+      }
+    );
+  }
+
   ////////// Validation Methods //////////
   private volumeIsValid(vol: BlockStorageRequest): boolean {
     if (!vol.size_gigabytes || !vol.name) {
@@ -1,9 +1,9 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 
 import { CdnEndpoint, CdnEndpointRequest } from '../models/cdn.ts';
 
 export class CdnService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * List all of the CDN endpoints available on your account
@@ -16,10 +16,27 @@ export class CdnService {
    * const endpoints = await client.cdn.getAllEndpoints();
    * ```
    */
-  public getAllEndpoints(): Promise<CdnEndpoint[]> {
-    return request
-      .get(`/cdn/endpoints`)
-      .then(response => response.data.endpoints);
+  public getAllEndpoints(options?: RequestOptions): Promise<CdnEndpoint[]> {
+    return this.request.all(`/cdn/endpoints`, 'endpoints', options);
+  }
+
+  /**
+   * Iterate over every CDN endpoint on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const cdnEndpoint of client.cdn.listEndpoints()) {
+   *   console.log(cdnEndpoint);
+   * }
+   * ```
+   */
+  public listEndpoints(
+    options?: RequestOptions
+  ): AsyncIterableIterator<CdnEndpoint> {
+    return this.request.paginate(`/cdn/endpoints`, 'endpoints', options);
   }
 
   /**
@@ -33,9 +50,12 @@ export class CdnService {
    * const endpoint = await client.cdn.getExistingEndpoint('endpoint-id');
    * ```
    */
-  public getExistingEndpoint(id: string): Promise<CdnEndpoint> {
-    return request
-      .get(`/cdn/endpoints/${id}`)
+  public getExistingEndpoint(
+    id: string,
+    options?: RequestOptions
+  ): Promise<CdnEndpoint> {
+    return this.request
+      .get(`/cdn/endpoints/${id}`, options)
       .then(response => response.data.endpoint);
   }
 
@@ -55,13 +75,14 @@ export class CdnService {
    * ```
    */
   public async createEndpoint(
-    endpoint: CdnEndpointRequest
+    endpoint: CdnEndpointRequest,
+    options?: RequestOptions
   ): Promise<CdnEndpoint> {
     if (!this.endpointIsValid(endpoint)) {
       throw new Error('Required fields missing from Endpoint Object');
     }
-    return await request
-      .post(`/cdn/endpoints`, endpoint)
+    return await this.request
+      .post(`/cdn/endpoints`, endpoint, options)
       .then(response => response.data.endpoint);
   }
 
@@ -76,9 +97,13 @@ export class CdnService {
    * const endpoint = await client.cdn.updateEndpoint('endpoint-id', 1800);
    * ```
    */
-  public updateEndpoint(id: string, ttl: number): Promise<CdnEndpoint> {
-    return request
-      .put(`/cdn/endpoints/${id}`, { ttl })
+  public updateEndpoint(
+    id: string,
+    ttl: number,
+    options?: RequestOptions
+  ): Promise<CdnEndpoint> {
+    return this.request
+      .put(`/cdn/endpoints/${id}`, { ttl }, options)
       .then(response => response.data.endpoint);
   }
 
@@ -93,8 +118,10 @@ export class CdnService {
    * const endpoint = await client.cdn.deleteEndpoint('endpoint-id');
    * ```
    */
-  public deleteEndpoint(id: string): Promise<void> {
-    return request.delete(`/cdn/endpoints/${id}`).then(() => undefined);
+  public deleteEndpoint(id: string, options?: RequestOptions): Promise<void> {
+    return this.request
+      .delete(`/cdn/endpoints/${id}`, undefined, options)
+      .then(() => undefined);
   }
 
   /**
@@ -112,11 +139,13 @@ export class CdnService {
    * const endpoint = await client.cdn.purgeEndpointCache('endpoint-id', files);
    * ```
    */
-  public purgeEndpointCache(id: string, files: string[]): Promise<void> {
-    return request
-      .delete(`/cdn/endpoints/${id}/cache`, {
-        data: { files }
-      })
+  public purgeEndpointCache(
+    id: string,
+    files: string[],
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/cdn/endpoints/${id}/cache`, { files }, options)
       .then(() => undefined);
   }
 
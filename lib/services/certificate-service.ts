@@ -1,9 +1,9 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 
 import { Certificate, CertificateRequest } from '../models/certificate.ts';
 
 export class CertificateService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Upload a new SSL Certificate
@@ -23,10 +23,11 @@ export class CertificateService {
    * ```
    */
   public createCertificate(
-    certificateRequest: CertificateRequest
+    certificateRequest: CertificateRequest,
+    options?: RequestOptions
   ): Promise<Certificate> {
-    return request
-      .post(`/certificates`, certificateRequest)
+    return this.request
+      .post(`/certificates`, certificateRequest, options)
       .then(response => response.data.certificate);
   }
 
@@ -41,9 +42,12 @@ export class CertificateService {
    * const cert = await client.certificates.getExistingCertificate('cert-id');
    * ```
    */
-  public getExistingCertificate(certificateId: string): Promise<Certificate> {
-    return request
-      .get(`/certificates/${certificateId}`)
+  public getExistingCertificate(
+    certificateId: string,
+    options?: RequestOptions
+  ): Promise<Certificate> {
+    return this.request
+      .get(`/certificates/${certificateId}`, options)
       .then(response => response.data.certificate);
   }
 
@@ -58,10 +62,27 @@ export class CertificateService {
    * const certs = await client.certificates.getAllCertificates();
    * ```
    */
-  public getAllCertificates(): Promise<Certificate[]> {
-    return request
-      .get(`/certificates`)
-      .then(response => response.data.certificates);
+  public getAllCertificates(options?: RequestOptions): Promise<Certificate[]> {
+    return this.request.all(`/certificates`, 'certificates', options);
+  }
+
+  /**
+   * Iterate over every certificate on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const certificate of client.certificates.listCertificates()) {
+   *   console.log(certificate);
+   * }
+   * ```
+   */
+  public listCertificates(
+    options?: RequestOptions
+  ): AsyncIterableIterator<Certificate> {
+    return this.request.paginate(`/certificates`, 'certificates', options);
   }
 
   /**
@@ -75,9 +96,12 @@ export class CertificateService {
    * await client.certificates.deleteCertificate('cert-id');
    * ```
    */
-  public deleteCertificate(certificateId: string): Promise<void> {
-    return request
-      .delete(`/certificates/${certificateId}`)
+  public deleteCertificate(
+    certificateId: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/certificates/${certificateId}`, undefined, options)
       .then(() => undefined);
   }
 }
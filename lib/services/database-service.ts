@@ -0,0 +1,1069 @@
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+import { waitUntil, WaitUntilOptions } from '../waiter.ts';
+
+import {
+  Database,
+  DatabaseBackup,
+  DatabaseCluster,
+  DatabaseClusterRequest,
+  DatabaseConfig,
+  DatabaseConnectionPool,
+  DatabaseFirewallRule,
+  DatabaseMaintenanceWindow,
+  DatabaseOnlineMigration,
+  DatabaseOnlineMigrationRequest,
+  DatabaseOptions,
+  DatabaseReplica,
+  DatabaseResizeRequest,
+  DatabaseUser,
+  MysqlAuthPlugin,
+  RedisEvictionPolicy
+} from '../models/database.ts';
+
+export class DatabaseService {
+  constructor(private request: RequestTool) {}
+
+  /**
+   * Get all database clusters on your account, optionally only those with a
+   * given tag
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const clusters = await client.databases.getAllDatabaseClusters();
+   * ```
+   */
+  public getAllDatabaseClusters(
+    tagName?: string,
+    options?: RequestOptions
+  ): Promise<DatabaseCluster[]> {
+    return this.request.all(this.clustersUrl(tagName), 'databases', options);
+  }
+
+  /**
+   * Iterate over every database cluster on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const cluster of client.databases.listDatabaseClusters()) {
+   *   console.log(cluster);
+   * }
+   * ```
+   */
+  public listDatabaseClusters(
+    tagName?: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<DatabaseCluster> {
+    return this.request.paginate(
+      this.clustersUrl(tagName),
+      'databases',
+      options
+    );
+  }
+
+  /**
+   * Create a new database cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const request = {
+   *   name: 'backend',
+   *   engine: 'pg',
+   *   version: '16',
+   *   region: 'nyc3',
+   *   size: 'db-s-2vcpu-4gb',
+   *   num_nodes: 2,
+   *   tags: ['production']
+   * };
+   * const cluster = await client.databases.createDatabaseCluster(request);
+   * ```
+   */
+  public async createDatabaseCluster(
+    cluster: DatabaseClusterRequest,
+    options?: RequestOptions
+  ): Promise<DatabaseCluster> {
+    if (!this.clusterIsValid(cluster)) {
+      throw new Error('Required fields missing from Database Cluster Object');
+    }
+    return await this.request
+      .post(`/databases`, cluster, options)
+      .then(response => response.data.database);
+  }
+
+  /**
+   * Create a new database cluster from a backup of an existing one
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const request = {
+   *   name: 'backend-restored',
+   *   engine: 'pg',
+   *   region: 'nyc3',
+   *   size: 'db-s-2vcpu-4gb',
+   *   num_nodes: 2,
+   *   backup_restore: {
+   *     database_name: 'backend',
+   *     backup_created_at: '2019-01-31T19:25:22Z'
+   *   }
+   * };
+   * const cluster = await client.databases.restoreDatabaseFromBackup(request);
+   * ```
+   */
+  public async restoreDatabaseFromBackup(
+    cluster: DatabaseClusterRequest,
+    options?: RequestOptions
+  ): Promise<DatabaseCluster> {
+    if (!cluster.backup_restore?.database_name) {
+      throw new Error('Required fields missing from Database Cluster Object');
+    }
+    return await this.createDatabaseCluster(cluster, options);
+  }
+
+  /**
+   * Get an existing database cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const cluster = await client.databases.getDatabaseCluster('cluster-id');
+   * ```
+   */
+  public getDatabaseCluster(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<DatabaseCluster> {
+    return this.request
+      .get(`/databases/${clusterId}`, options)
+      .then(response => response.data.database);
+  }
+
+  /**
+   * Destroy a database cluster and all of its replicas
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.deleteDatabaseCluster('cluster-id');
+   * ```
+   */
+  public deleteDatabaseCluster(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/databases/${clusterId}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Resize a database cluster to a different size and/or number of nodes
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.resizeDatabaseCluster('cluster-id', {
+   *   size: 'db-s-4vcpu-8gb',
+   *   num_nodes: 3
+   * });
+   * ```
+   */
+  public async resizeDatabaseCluster(
+    clusterId: string,
+    resize: DatabaseResizeRequest,
+    options?: RequestOptions
+  ): Promise<void> {
+    if (!resize.size || !resize.num_nodes) {
+      throw new Error('Required fields missing from Database Resize Object');
+    }
+    return await this.request
+      .put(`/databases/${clusterId}/resize`, resize, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Migrate a database cluster to a different region
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.migrateDatabaseCluster('cluster-id', 'lon1');
+   * ```
+   */
+  public migrateDatabaseCluster(
+    clusterId: string,
+    region: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .put(`/databases/${clusterId}/migrate`, { region }, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Configure the maintenance window of a database cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.updateMaintenanceWindow('cluster-id', {
+   *   day: 'tuesday',
+   *   hour: '14:00'
+   * });
+   * ```
+   */
+  public async updateMaintenanceWindow(
+    clusterId: string,
+    maintenanceWindow: DatabaseMaintenanceWindow,
+    options?: RequestOptions
+  ): Promise<void> {
+    if (!maintenanceWindow.day || !maintenanceWindow.hour) {
+      throw new Error('Required fields missing from Maintenance Window Object');
+    }
+    return await this.request
+      .put(`/databases/${clusterId}/maintenance`, maintenanceWindow, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Get the available backups of a database cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const backups = await client.databases.getDatabaseBackups('cluster-id');
+   * ```
+   */
+  public getDatabaseBackups(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<DatabaseBackup[]> {
+    return this.request
+      .get(`/databases/${clusterId}/backups`, options)
+      .then(response => response.data.backups);
+  }
+
+  /**
+   * Get the engines, versions, regions and sizes available for database
+   * clusters
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const options = await client.databases.getDatabaseOptions();
+   * ```
+   */
+  public getDatabaseOptions(
+    options?: RequestOptions
+  ): Promise<DatabaseOptions> {
+    return this.request
+      .get(`/databases/options`, options)
+      .then(response => response.data);
+  }
+
+  /**
+   * Get the CA certificate of a database cluster, base64 encoded
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const certificate = await client.databases.getDatabaseCertificate('cluster-id');
+   * ```
+   */
+  public getDatabaseCertificate(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<string> {
+    return this.request
+      .get(`/databases/${clusterId}/ca`, options)
+      .then(response => response.data.ca.certificate);
+  }
+
+  /**
+   * Get the engine specific configuration of a database cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const config = await client.databases.getDatabaseConfig('cluster-id');
+   * ```
+   */
+  public getDatabaseConfig<T extends DatabaseConfig = DatabaseConfig>(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request
+      .get(`/databases/${clusterId}/config`, options)
+      .then(response => response.data.config);
+  }
+
+  /**
+   * Update a subset of the engine specific configuration of a database
+   * cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.updateDatabaseConfig('cluster-id', {
+   *   max_connections: 200
+   * });
+   * ```
+   */
+  public updateDatabaseConfig<T extends DatabaseConfig = DatabaseConfig>(
+    clusterId: string,
+    config: T,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .patch(`/databases/${clusterId}/config`, { config }, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Get the eviction policy of a Redis cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const policy = await client.databases.getEvictionPolicy('cluster-id');
+   * ```
+   */
+  public getEvictionPolicy(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<RedisEvictionPolicy> {
+    return this.request
+      .get(`/databases/${clusterId}/eviction_policy`, options)
+      .then(response => response.data.eviction_policy);
+  }
+
+  /**
+   * Set the eviction policy of a Redis cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.setEvictionPolicy('cluster-id', 'allkeys_lru');
+   * ```
+   */
+  public setEvictionPolicy(
+    clusterId: string,
+    evictionPolicy: RedisEvictionPolicy,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .put(
+        `/databases/${clusterId}/eviction_policy`,
+        { eviction_policy: evictionPolicy },
+        options
+      )
+      .then(() => undefined);
+  }
+
+  /**
+   * Get the global SQL modes of a MySQL cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const sqlMode = await client.databases.getSqlMode('cluster-id');
+   * ```
+   */
+  public getSqlMode(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<string> {
+    return this.request
+      .get(`/databases/${clusterId}/sql_mode`, options)
+      .then(response => response.data.sql_mode);
+  }
+
+  /**
+   * Set the global SQL modes of a MySQL cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.setSqlMode(
+   *   'cluster-id',
+   *   'ANSI,ERROR_FOR_DIVISION_BY_ZERO,NO_ZERO_DATE'
+   * );
+   * ```
+   */
+  public setSqlMode(
+    clusterId: string,
+    sqlMode: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .put(`/databases/${clusterId}/sql_mode`, { sql_mode: sqlMode }, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Wait until a database cluster is `online`, e.g. after creating or
+   * resizing it
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const cluster = await client.databases.createDatabaseCluster(request);
+   * const online = await client.databases.waitForDatabaseClusterOnline(
+   *   cluster.id,
+   *   { timeout: 20 * 60 * 1000 }
+   * );
+   * ```
+   */
+  public waitForDatabaseClusterOnline(
+    clusterId: string,
+    options?: WaitUntilOptions<DatabaseCluster>
+  ): Promise<DatabaseCluster> {
+    return waitUntil(
+      () => this.getDatabaseCluster(clusterId, { signal: options?.signal }),
+      cluster => cluster.status === 'online',
+      {
+        description: `database cluster ${clusterId} to be online`,
+        ...options
+      }
+    );
+  }
+
+  /**
+   * Get the status of the most recent online migration into a database
+   * cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const migration = await client.databases.getOnlineMigrationStatus('cluster-id');
+   * ```
+   */
+  public getOnlineMigrationStatus(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<DatabaseOnlineMigration> {
+    return this.request
+      .get(`/databases/${clusterId}/online-migration`, options)
+      .then(response => response.data);
+  }
+
+  /**
+   * Start an online migration from an external database into a database
+   * cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const migration = await client.databases.startOnlineMigration('cluster-id', {
+   *   source: {
+   *     host: 'source-do-user-6607903-0.b.db.ondigitalocean.com',
+   *     port: 25060,
+   *     dbname: 'defaultdb',
+   *     username: 'doadmin',
+   *     password: 'paakjnfe10rsrsmf'
+   *   },
+   *   disable_ssl: false
+   * });
+   * ```
+   */
+  public async startOnlineMigration(
+    clusterId: string,
+    migration: DatabaseOnlineMigrationRequest,
+    options?: RequestOptions
+  ): Promise<DatabaseOnlineMigration> {
+    if (!migration.source?.host) {
+      throw new Error('Required fields missing from Online Migration Object');
+    }
+    return await this.request
+      .put(`/databases/${clusterId}/online-migration`, migration, options)
+      .then(response => response.data);
+  }
+
+  /**
+   * Stop an online migration
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.stopOnlineMigration('cluster-id', 'migration-id');
+   * ```
+   */
+  public stopOnlineMigration(
+    clusterId: string,
+    migrationId: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(
+        `/databases/${clusterId}/online-migration/${migrationId}`,
+        undefined,
+        options
+      )
+      .then(() => undefined);
+  }
+
+  /**
+   * Get all read-only replicas of a database cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const replicas = await client.databases.getAllReplicas('cluster-id');
+   * ```
+   */
+  public getAllReplicas(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<DatabaseReplica[]> {
+    return this.request
+      .get(`/databases/${clusterId}/replicas`, options)
+      .then(response => response.data.replicas);
+  }
+
+  /**
+   * Create a read-only replica of a PostgreSQL or MySQL cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const replica = await client.databases.createReplica('cluster-id', {
+   *   name: 'read-nyc3-01',
+   *   region: 'nyc3',
+   *   size: 'db-s-2vcpu-4gb'
+   * });
+   * ```
+   */
+  public async createReplica(
+    clusterId: string,
+    replica: DatabaseReplica,
+    options?: RequestOptions
+  ): Promise<DatabaseReplica> {
+    if (!replica.name || !replica.size) {
+      throw new Error('Required fields missing from Database Replica Object');
+    }
+    return await this.request
+      .post(`/databases/${clusterId}/replicas`, replica, options)
+      .then(response => response.data.replica);
+  }
+
+  /**
+   * Get an existing read-only replica
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const replica = await client.databases.getReplica('cluster-id', 'read-nyc3-01');
+   * ```
+   */
+  public getReplica(
+    clusterId: string,
+    replicaName: string,
+    options?: RequestOptions
+  ): Promise<DatabaseReplica> {
+    return this.request
+      .get(`/databases/${clusterId}/replicas/${replicaName}`, options)
+      .then(response => response.data.replica);
+  }
+
+  /**
+   * Destroy a read-only replica
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.deleteReplica('cluster-id', 'read-nyc3-01');
+   * ```
+   */
+  public deleteReplica(
+    clusterId: string,
+    replicaName: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(
+        `/databases/${clusterId}/replicas/${replicaName}`,
+        undefined,
+        options
+      )
+      .then(() => undefined);
+  }
+
+  /**
+   * Promote a read-only replica to a standalone primary cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.promoteReplica('cluster-id', 'read-nyc3-01');
+   * ```
+   */
+  public promoteReplica(
+    clusterId: string,
+    replicaName: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .put(
+        `/databases/${clusterId}/replicas/${replicaName}/promote`,
+        undefined,
+        options
+      )
+      .then(() => undefined);
+  }
+
+  /**
+   * Get all users of a database cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const users = await client.databases.getAllUsers('cluster-id');
+   * ```
+   */
+  public getAllUsers(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<DatabaseUser[]> {
+    return this.request
+      .get(`/databases/${clusterId}/users`, options)
+      .then(response => response.data.users);
+  }
+
+  /**
+   * Add a user to a database cluster. The generated password is returned in
+   * the user object.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const user = await client.databases.addUser('cluster-id', {
+   *   name: 'app-01'
+   * });
+   * ```
+   */
+  public async addUser(
+    clusterId: string,
+    user: DatabaseUser,
+    options?: RequestOptions
+  ): Promise<DatabaseUser> {
+    if (!user.name) {
+      throw new Error('Required fields missing from Database User Object');
+    }
+    return await this.request
+      .post(`/databases/${clusterId}/users`, user, options)
+      .then(response => response.data.user);
+  }
+
+  /**
+   * Get an existing user of a database cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const user = await client.databases.getUser('cluster-id', 'app-01');
+   * ```
+   */
+  public getUser(
+    clusterId: string,
+    userName: string,
+    options?: RequestOptions
+  ): Promise<DatabaseUser> {
+    return this.request
+      .get(`/databases/${clusterId}/users/${userName}`, options)
+      .then(response => response.data.user);
+  }
+
+  /**
+   * Remove a user from a database cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.deleteUser('cluster-id', 'app-01');
+   * ```
+   */
+  public deleteUser(
+    clusterId: string,
+    userName: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/databases/${clusterId}/users/${userName}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Reset the password of a database user. For MySQL users the
+   * authentication plugin can be changed as well.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const user = await client.databases.resetUserAuth('cluster-id', 'app-01');
+   * ```
+   */
+  public resetUserAuth(
+    clusterId: string,
+    userName: string,
+    authPlugin?: MysqlAuthPlugin,
+    options?: RequestOptions
+  ): Promise<DatabaseUser> {
+    const body = authPlugin
+      ? { mysql_settings: { auth_plugin: authPlugin } }
+      : {};
+    return this.request
+      .post(
+        `/databases/${clusterId}/users/${userName}/reset_auth`,
+        body,
+        options
+      )
+      .then(response => response.data.user);
+  }
+
+  /**
+   * Get all databases of a PostgreSQL or MySQL cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const dbs = await client.databases.getAllDatabases('cluster-id');
+   * ```
+   */
+  public getAllDatabases(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<Database[]> {
+    return this.request
+      .get(`/databases/${clusterId}/dbs`, options)
+      .then(response => response.data.dbs);
+  }
+
+  /**
+   * Add a database to a PostgreSQL or MySQL cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const db = await client.databases.addDatabase('cluster-id', 'alpha');
+   * ```
+   */
+  public addDatabase(
+    clusterId: string,
+    name: string,
+    options?: RequestOptions
+  ): Promise<Database> {
+    return this.request
+      .post(`/databases/${clusterId}/dbs`, { name }, options)
+      .then(response => response.data.db);
+  }
+
+  /**
+   * Get an existing database of a PostgreSQL or MySQL cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const db = await client.databases.getDatabase('cluster-id', 'alpha');
+   * ```
+   */
+  public getDatabase(
+    clusterId: string,
+    name: string,
+    options?: RequestOptions
+  ): Promise<Database> {
+    return this.request
+      .get(`/databases/${clusterId}/dbs/${name}`, options)
+      .then(response => response.data.db);
+  }
+
+  /**
+   * Delete a database from a PostgreSQL or MySQL cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.deleteDatabase('cluster-id', 'alpha');
+   * ```
+   */
+  public deleteDatabase(
+    clusterId: string,
+    name: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/databases/${clusterId}/dbs/${name}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Get all connection pools of a PostgreSQL cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const pools = await client.databases.getAllConnectionPools('cluster-id');
+   * ```
+   */
+  public getAllConnectionPools(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<DatabaseConnectionPool[]> {
+    return this.request
+      .get(`/databases/${clusterId}/pools`, options)
+      .then(response => response.data.pools);
+  }
+
+  /**
+   * Add a connection pool to a PostgreSQL cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const pool = await client.databases.addConnectionPool('cluster-id', {
+   *   name: 'backend-pool',
+   *   mode: 'transaction',
+   *   size: 10,
+   *   db: 'defaultdb',
+   *   user: 'doadmin'
+   * });
+   * ```
+   */
+  public async addConnectionPool(
+    clusterId: string,
+    pool: DatabaseConnectionPool,
+    options?: RequestOptions
+  ): Promise<DatabaseConnectionPool> {
+    if (!this.connectionPoolIsValid(pool)) {
+      throw new Error('Required fields missing from Connection Pool Object');
+    }
+    return await this.request
+      .post(`/databases/${clusterId}/pools`, pool, options)
+      .then(response => response.data.pool);
+  }
+
+  /**
+   * Get an existing connection pool of a PostgreSQL cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const pool = await client.databases.getConnectionPool('cluster-id', 'backend-pool');
+   * ```
+   */
+  public getConnectionPool(
+    clusterId: string,
+    poolName: string,
+    options?: RequestOptions
+  ): Promise<DatabaseConnectionPool> {
+    return this.request
+      .get(`/databases/${clusterId}/pools/${poolName}`, options)
+      .then(response => response.data.pool);
+  }
+
+  /**
+   * Update the mode, size, database or user of a connection pool
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.updateConnectionPool('cluster-id', 'backend-pool', {
+   *   name: 'backend-pool',
+   *   mode: 'session',
+   *   size: 20,
+   *   db: 'defaultdb'
+   * });
+   * ```
+   */
+  public async updateConnectionPool(
+    clusterId: string,
+    poolName: string,
+    pool: DatabaseConnectionPool,
+    options?: RequestOptions
+  ): Promise<void> {
+    if (!pool.mode || !pool.size || !pool.db) {
+      throw new Error('Required fields missing from Connection Pool Object');
+    }
+    return await this.request
+      .put(`/databases/${clusterId}/pools/${poolName}`, pool, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Delete a connection pool from a PostgreSQL cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.deleteConnectionPool('cluster-id', 'backend-pool');
+   * ```
+   */
+  public deleteConnectionPool(
+    clusterId: string,
+    poolName: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/databases/${clusterId}/pools/${poolName}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Get the trusted sources allowed to connect to a database cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const rules = await client.databases.getFirewallRules('cluster-id');
+   * ```
+   */
+  public getFirewallRules(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<DatabaseFirewallRule[]> {
+    return this.request
+      .get(`/databases/${clusterId}/firewall`, options)
+      .then(response => response.data.rules);
+  }
+
+  /**
+   * Replace the trusted sources allowed to connect to a database cluster
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.databases.updateFirewallRules('cluster-id', [
+   *   { type: 'ip_addr', value: '192.168.1.1' },
+   *   { type: 'droplet', value: '163973392' },
+   *   { type: 'tag', value: 'backend' }
+   * ]);
+   * ```
+   */
+  public async updateFirewallRules(
+    clusterId: string,
+    rules: DatabaseFirewallRule[],
+    options?: RequestOptions
+  ): Promise<void> {
+    if (rules.some(rule => !rule.type || !rule.value)) {
+      throw new Error('Required fields missing from Firewall Rule Object');
+    }
+    return await this.request
+      .put(`/databases/${clusterId}/firewall`, { rules }, options)
+      .then(() => undefined);
+  }
+
+  private clustersUrl(tagName?: string): string {
+    if (tagName) {
+      return `/databases?tag_name=${tagName}`;
+    }
+    return `/databases`;
+  }
+
+  ////////// Validation Methods //////////
+  private clusterIsValid(cluster: DatabaseClusterRequest): boolean {
+    if (
+      !cluster.name ||
+      !cluster.engine ||
+      !cluster.size ||
+      !cluster.region ||
+      !cluster.num_nodes
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  private connectionPoolIsValid(pool: DatabaseConnectionPool): boolean {
+    if (!pool.name || !pool.mode || !pool.size || !pool.db) {
+      return false;
+    }
+    return true;
+  }
+}
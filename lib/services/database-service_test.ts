@@ -0,0 +1,97 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from '../digitalocean.ts';
+import { StubFetch } from '../testing/stub-fetch.ts';
+
+const CLUSTER_ID = '9cc10173-e9ea-4176-9dbc-a4cee4c4ff30';
+
+function setup(handler: () => Response) {
+  const stub = new StubFetch(handler);
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+  return { stub, client };
+}
+
+function cluster(status: string) {
+  return Response.json({
+    database: {
+      id: CLUSTER_ID,
+      name: 'backend',
+      engine: 'pg',
+      version: '16',
+      num_nodes: 2,
+      size: 'db-s-2vcpu-4gb',
+      region: 'nyc3',
+      status
+    }
+  });
+}
+
+Deno.test('createDatabaseCluster posts the cluster', async () => {
+  const { stub, client } = setup(() => cluster('creating'));
+  const request = {
+    name: 'backend',
+    engine: 'pg',
+    version: '16',
+    size: 'db-s-2vcpu-4gb',
+    region: 'nyc3',
+    num_nodes: 2
+  } as const;
+
+  const created = await client.databases.createDatabaseCluster(request);
+  assertEquals(created.status, 'creating');
+  assertEquals(stub.requests[0].method, 'POST');
+  assertEquals(
+    stub.requests[0].url,
+    'https://api.digitalocean.com/v2/databases'
+  );
+  assertEquals(await stub.requests[0].json(), request);
+});
+
+Deno.test('invalid database requests reject without a request', async () => {
+  const { stub, client } = setup(() => cluster('online'));
+
+  await assertRejects(
+    () => client.databases.createDatabaseCluster({ name: 'backend' } as any),
+    Error,
+    'Required fields missing from Database Cluster Object'
+  );
+  await assertRejects(
+    () => client.databases.resizeDatabaseCluster(CLUSTER_ID, {} as any),
+    Error
+  );
+  await assertRejects(
+    () => client.databases.addConnectionPool(CLUSTER_ID, {} as any),
+    Error
+  );
+  assertEquals(stub.requests.length, 0);
+});
+
+Deno.test('engine settings are unwrapped and wrapped', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ eviction_policy: 'allkeys_lru' })
+  );
+
+  assertEquals(
+    await client.databases.getEvictionPolicy(CLUSTER_ID),
+    'allkeys_lru'
+  );
+  await client.databases.setSqlMode(CLUSTER_ID, 'ANSI,TRADITIONAL');
+  const put = stub.requests[1];
+  assertEquals(put.method, 'PUT');
+  assertEquals(
+    new URL(put.url).pathname,
+    `/v2/databases/${CLUSTER_ID}/sql_mode`
+  );
+  assertEquals(await put.json(), { sql_mode: 'ANSI,TRADITIONAL' });
+});
+
+Deno.test('waitForDatabaseClusterOnline polls the status', async () => {
+  let reads = 0;
+  const { client } = setup(() => cluster(++reads < 3 ? 'creating' : 'online'));
+
+  const online = await client.databases.waitForDatabaseClusterOnline(
+    CLUSTER_ID,
+    { interval: 1 }
+  );
+  assertEquals(online.status, 'online');
+  assertEquals(reads, 3);
+});
@@ -1,9 +1,9 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 
 import { DomainRecord, DomainRecordRequest } from '../models/domain-record.ts';
 
 export class DomainRecordService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Get all records configured for a domain
@@ -16,10 +16,39 @@ export class DomainRecordService {
    * const records = await client.domainRecords.getAllDomainRecords('example.com');
    * ```
    */
-  public getAllDomainRecords(domainName: string): Promise<DomainRecord[]> {
-    return request
-      .get(`/domains/${domainName}/records`)
-      .then(response => response.data.domain_records);
+  public getAllDomainRecords(
+    domainName: string,
+    options?: RequestOptions
+  ): Promise<DomainRecord[]> {
+    return this.request.all(
+      `/domains/${domainName}/records`,
+      'domain_records',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every record of a domain, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const domainRecord of client.domainRecords.listDomainRecords('example.com')) {
+   *   console.log(domainRecord);
+   * }
+   * ```
+   */
+  public listDomainRecords(
+    domainName: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<DomainRecord> {
+    return this.request.paginate(
+      `/domains/${domainName}/records`,
+      'domain_records',
+      options
+    );
   }
 
   /**
@@ -47,10 +76,11 @@ export class DomainRecordService {
    */
   public createDomainRecord(
     domainName: string,
-    domainRequest: DomainRecordRequest
+    domainRequest: DomainRecordRequest,
+    options?: RequestOptions
   ): Promise<DomainRecord> {
-    return request
-      .post(`/domains/${domainName}/records`, domainRequest)
+    return this.request
+      .post(`/domains/${domainName}/records`, domainRequest, options)
       .then(response => response.data.domain_record);
   }
 
@@ -68,10 +98,11 @@ export class DomainRecordService {
    */
   public getExistingDomainRecord(
     domainName: string,
-    recordId: number
+    recordId: number,
+    options?: RequestOptions
   ): Promise<DomainRecord> {
-    return request
-      .get(`/domains/${domainName}/records/${recordId}`)
+    return this.request
+      .get(`/domains/${domainName}/records/${recordId}`, options)
       .then(response => response.data.domain_record);
   }
 
@@ -94,10 +125,11 @@ export class DomainRecordService {
   public updateDomainRecord(
     domainName: string,
     recordId: number,
-    domainRequest: DomainRecordRequest
+    domainRequest: DomainRecordRequest,
+    options?: RequestOptions
   ): Promise<DomainRecord> {
-    return request
-      .put(`/domains/${domainName}/records/${recordId}`, domainRequest)
+    return this.request
+      .put(`/domains/${domainName}/records/${recordId}`, domainRequest, options)
       .then(response => response.data.domain_record);
   }
 
@@ -114,10 +146,11 @@ export class DomainRecordService {
    */
   public deleteDomainRecord(
     domainName: string,
-    recordId: number
+    recordId: number,
+    options?: RequestOptions
   ): Promise<void> {
-    return request
-      .delete(`/domains/${domainName}/records/${recordId}`)
+    return this.request
+      .delete(`/domains/${domainName}/records/${recordId}`, undefined, options)
       .then(() => undefined);
   }
 }
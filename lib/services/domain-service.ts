@@ -1,9 +1,9 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 
 import { Domain, DomainRequest } from '../models/domain.ts';
 
 export class DomainService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Get a list of all the domains on your account
@@ -16,8 +16,25 @@ export class DomainService {
    * const domains = await client.domains.getAllDomains();
    * ```
    */
-  public getAllDomains(): Promise<Domain[]> {
-    return request.get(`/domains`).then(response => response.data.domains);
+  public getAllDomains(options?: RequestOptions): Promise<Domain[]> {
+    return this.request.all(`/domains`, 'domains', options);
+  }
+
+  /**
+   * Iterate over every domain on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const domain of client.domains.listDomains()) {
+   *   console.log(domain);
+   * }
+   * ```
+   */
+  public listDomains(options?: RequestOptions): AsyncIterableIterator<Domain> {
+    return this.request.paginate(`/domains`, 'domains', options);
   }
 
   /**
@@ -35,9 +52,12 @@ export class DomainService {
    * const domain = await client.domains.createDomain(request);
    * ```
    */
-  public createDomain(domainRequest: DomainRequest): Promise<Domain> {
-    return request
-      .post(`/domains`, domainRequest)
+  public createDomain(
+    domainRequest: DomainRequest,
+    options?: RequestOptions
+  ): Promise<Domain> {
+    return this.request
+      .post(`/domains`, domainRequest, options)
       .then(response => response.data.domain);
   }
 
@@ -52,9 +72,12 @@ export class DomainService {
    * const domain = await client.domains.getExistingDomain('example.com');
    * ```
    */
-  public getExistingDomain(domainName: string): Promise<Domain> {
-    return request
-      .get(`/domains/${domainName}`)
+  public getExistingDomain(
+    domainName: string,
+    options?: RequestOptions
+  ): Promise<Domain> {
+    return this.request
+      .get(`/domains/${domainName}`, options)
       .then(response => response.data.domain);
   }
 
@@ -69,7 +92,12 @@ export class DomainService {
    * await client.domains.deleteDomain('example.com');
    * ```
    */
-  public deleteDomain(domainName: string): Promise<void> {
-    return request.delete(`/domains/${domainName}`).then(() => undefined);
+  public deleteDomain(
+    domainName: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/domains/${domainName}`, undefined, options)
+      .then(() => undefined);
   }
 }
@@ -1,10 +1,11 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+import { toWaitableAction, WaitableAction } from '../waiter.ts';
 
 import { Action } from '../models/action.ts';
 import { DropletActionRequest } from '../models/droplet.ts';
 
 export class DropletActionService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Enable backups on an existing droplet
@@ -17,13 +18,16 @@ export class DropletActionService {
    * const action = await client.dropletActions.enableBackupsForDroplet('droplet-id');
    * ```
    */
-  public enableBackupsForDroplet(dropletId: number): Promise<Action> {
+  public enableBackupsForDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       type: 'enable_backups'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -37,13 +41,16 @@ export class DropletActionService {
    * const action = await client.dropletActions.disableBackupsForDroplet('droplet-id');
    * ```
    */
-  public disableBackupsForDroplet(dropletId: number): Promise<Action> {
+  public disableBackupsForDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       type: 'disable_backups'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -57,13 +64,16 @@ export class DropletActionService {
    * const action = await client.dropletActions.rebootDroplet('droplet-id');
    * ```
    */
-  public rebootDroplet(dropletId: number): Promise<Action> {
+  public rebootDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       type: 'reboot'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -77,13 +87,16 @@ export class DropletActionService {
    * const action = await client.dropletActions.powerCycleDroplet('droplet-id');
    * ```
    */
-  public powerCycleDroplet(dropletId: number): Promise<Action> {
+  public powerCycleDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       type: 'power_cycle'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -97,13 +110,16 @@ export class DropletActionService {
    * const action = await client.dropletActions.shutdownDroplet('droplet-id');
    * ```
    */
-  public shutdownDroplet(dropletId: number): Promise<Action> {
+  public shutdownDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       type: 'shutdown'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -117,13 +133,16 @@ export class DropletActionService {
    * const action = await client.dropletActions.powerOffDroplet('droplet-id');
    * ```
    */
-  public powerOffDroplet(dropletId: number): Promise<Action> {
+  public powerOffDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       type: 'power_off'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -137,13 +156,16 @@ export class DropletActionService {
    * const action = await client.dropletActions.powerOnDroplet('droplet-id');
    * ```
    */
-  public powerOnDroplet(dropletId: number): Promise<Action> {
+  public powerOnDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       type: 'power_on'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -159,15 +181,16 @@ export class DropletActionService {
    */
   public restoreDroplet(
     dropletId: number,
-    image: string | number
-  ): Promise<Action> {
+    image: string | number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       image,
       type: 'restore'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -181,13 +204,16 @@ export class DropletActionService {
    * const action = await client.dropletActions.passwordResetDroplet('droplet-id');
    * ```
    */
-  public passwordResetDroplet(dropletId: number): Promise<Action> {
+  public passwordResetDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       type: 'password_reset'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -205,16 +231,17 @@ export class DropletActionService {
   public resizeDroplet(
     dropletId: number,
     resizeDisk: boolean,
-    size: string
-  ): Promise<Action> {
+    size: string,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       disk: resizeDisk,
       size,
       type: 'password_reset'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -231,15 +258,16 @@ export class DropletActionService {
    */
   public rebuildDroplet(
     dropletId: number,
-    image: string | number
-  ): Promise<Action> {
+    image: string | number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       image,
       type: 'rebuild'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -254,14 +282,18 @@ export class DropletActionService {
    *    .renameDroplet('droplet-id', 'nifty-new-name');
    * ```
    */
-  public renameDroplet(dropletId: number, name: string): Promise<Action> {
+  public renameDroplet(
+    dropletId: number,
+    name: string,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       name,
       type: 'rename'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -278,15 +310,16 @@ export class DropletActionService {
    */
   public changeDropletKernel(
     dropletId: number,
-    kernelId: number
-  ): Promise<Action> {
+    kernelId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       kernel: kernelId,
       type: 'change_kernel'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -300,13 +333,16 @@ export class DropletActionService {
    * const action = await client.dropletActions.enableIPv6('droplet-id');
    * ```
    */
-  public enableIPv6(dropletId: number): Promise<Action> {
+  public enableIPv6(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       type: 'enable_ipv6'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -320,13 +356,16 @@ export class DropletActionService {
    * const action = await client.dropletActions.enablePrivateNetworking('droplet-id');
    * ```
    */
-  public enablePrivateNetworking(dropletId: number): Promise<Action> {
+  public enablePrivateNetworking(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       type: 'enable_private_networking'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -341,14 +380,18 @@ export class DropletActionService {
    *    .snapshotDroplet('droplet-id', 'Nifty New Snapshot');
    * ```
    */
-  public snapshotDroplet(dropletId: number, name: string): Promise<Action> {
+  public snapshotDroplet(
+    dropletId: number,
+    name: string,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const actionRequest: DropletActionRequest = {
       name,
       type: 'snapshot'
     };
-    return request
-      .post(`/droplets/${dropletId}/actions`, actionRequest)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/droplets/${dropletId}/actions`, actionRequest, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   // TODO: Implement the bulk action method, Acting on Tagged Droplets
@@ -367,10 +410,11 @@ export class DropletActionService {
    */
   public getExistingDropletAction(
     dropletId: number,
-    actionId: number
-  ): Promise<Action> {
-    return request
-      .get(`/droplets/${dropletId}/actions/${actionId}`)
-      .then(response => response.data.action);
+    actionId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
+    return this.request
+      .get(`/droplets/${dropletId}/actions/${actionId}`, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 }
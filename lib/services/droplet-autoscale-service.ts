@@ -0,0 +1,313 @@
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+
+import {
+  AutoscalePool,
+  AutoscalePoolHistoryEvent,
+  AutoscalePoolMember,
+  AutoscalePoolRequest
+} from '../models/droplet-autoscale.ts';
+
+export class DropletAutoscaleService {
+  constructor(private request: RequestTool) {}
+
+  /**
+   * Get all droplet autoscale pools on your account
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const pools = await client.dropletAutoscale.getAllAutoscalePools();
+   * ```
+   */
+  public getAllAutoscalePools(
+    options?: RequestOptions
+  ): Promise<AutoscalePool[]> {
+    return this.request.all(`/droplets/autoscale`, 'autoscale_pools', options);
+  }
+
+  /**
+   * Iterate over every droplet autoscale pool on your account, following
+   * pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const pool of client.dropletAutoscale.listAutoscalePools()) {
+   *   console.log(pool);
+   * }
+   * ```
+   */
+  public listAutoscalePools(
+    options?: RequestOptions
+  ): AsyncIterableIterator<AutoscalePool> {
+    return this.request.paginate(
+      `/droplets/autoscale`,
+      'autoscale_pools',
+      options
+    );
+  }
+
+  /**
+   * Create a new autoscale pool, scaling droplets created from the template
+   * between the configured bounds to reach the target utilization
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const pool = await client.dropletAutoscale.createAutoscalePool({
+   *   name: 'web-pool',
+   *   config: {
+   *     min_instances: 2,
+   *     max_instances: 10,
+   *     target_cpu_utilization: 0.6,
+   *     cooldown_minutes: 5
+   *   },
+   *   droplet_template: {
+   *     region: 'nyc3',
+   *     size: 's-1vcpu-1gb',
+   *     image: 'ubuntu-24-04-x64',
+   *     ssh_keys: ['3b:16:e4:bf:8b:00:8b:b8:59:8c:a9:d3:f0:19:fa:45'],
+   *     tags: ['web']
+   *   }
+   * });
+   * ```
+   */
+  public async createAutoscalePool(
+    pool: AutoscalePoolRequest,
+    options?: RequestOptions
+  ): Promise<AutoscalePool> {
+    if (!this.autoscalePoolIsValid(pool)) {
+      throw new Error('Required fields missing from Autoscale Pool Object');
+    }
+    return await this.request
+      .post(`/droplets/autoscale`, pool, options)
+      .then(response => response.data.autoscale_pool);
+  }
+
+  /**
+   * Get an existing droplet autoscale pool
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const pool = await client.dropletAutoscale.getAutoscalePool('pool-id');
+   * console.log(pool.current_utilization);
+   * ```
+   */
+  public getAutoscalePool(
+    id: string,
+    options?: RequestOptions
+  ): Promise<AutoscalePool> {
+    return this.request
+      .get(`/droplets/autoscale/${id}`, options)
+      .then(response => response.data.autoscale_pool);
+  }
+
+  /**
+   * Update the name, scaling config and droplet template of an autoscale
+   * pool. A new template only applies to droplets created afterwards.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const pool = await client.dropletAutoscale.getAutoscalePool('pool-id');
+   * pool.config.max_instances = 20;
+   * pool.config.target_memory_utilization = 0.7;
+   * const updated = await client.dropletAutoscale.updateAutoscalePool('pool-id', pool);
+   * ```
+   */
+  public async updateAutoscalePool(
+    id: string,
+    pool: AutoscalePoolRequest,
+    options?: RequestOptions
+  ): Promise<AutoscalePool> {
+    if (!this.autoscalePoolIsValid(pool)) {
+      throw new Error('Required fields missing from Autoscale Pool Object');
+    }
+    const { name, config, droplet_template } = pool;
+    return await this.request
+      .put(
+        `/droplets/autoscale/${id}`,
+        { name, config, droplet_template },
+        options
+      )
+      .then(response => response.data.autoscale_pool);
+  }
+
+  /**
+   * Delete an autoscale pool, leaving its droplets running
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.dropletAutoscale.deleteAutoscalePool('pool-id');
+   * ```
+   */
+  public deleteAutoscalePool(
+    id: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/droplets/autoscale/${id}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Delete an autoscale pool along with all of its droplets
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.dropletAutoscale.deleteAutoscalePoolWithDroplets('pool-id');
+   * ```
+   */
+  public deleteAutoscalePoolWithDroplets(
+    id: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/droplets/autoscale/${id}/dangerous`, undefined, {
+        ...options,
+        headers: { ...options?.headers, 'X-Dangerous': 'true' }
+      })
+      .then(() => undefined);
+  }
+
+  /**
+   * Get all droplets currently in an autoscale pool
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const members = await client.dropletAutoscale
+   *    .getAllAutoscalePoolMembers('pool-id');
+   * ```
+   */
+  public getAllAutoscalePoolMembers(
+    id: string,
+    options?: RequestOptions
+  ): Promise<AutoscalePoolMember[]> {
+    return this.request.all(
+      `/droplets/autoscale/${id}/members`,
+      'droplets',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every droplet in an autoscale pool, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const member of client.dropletAutoscale.listAutoscalePoolMembers('pool-id')) {
+   *   console.log(member.droplet_id, member.current_utilization);
+   * }
+   * ```
+   */
+  public listAutoscalePoolMembers(
+    id: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<AutoscalePoolMember> {
+    return this.request.paginate(
+      `/droplets/autoscale/${id}/members`,
+      'droplets',
+      options
+    );
+  }
+
+  /**
+   * Get the scaling history of an autoscale pool
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const history = await client.dropletAutoscale
+   *    .getAllAutoscalePoolHistory('pool-id');
+   * ```
+   */
+  public getAllAutoscalePoolHistory(
+    id: string,
+    options?: RequestOptions
+  ): Promise<AutoscalePoolHistoryEvent[]> {
+    return this.request.all(
+      `/droplets/autoscale/${id}/history`,
+      'history',
+      options
+    );
+  }
+
+  /**
+   * Iterate over the scaling history of an autoscale pool, following
+   * pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const event of client.dropletAutoscale.listAutoscalePoolHistory('pool-id')) {
+   *   console.log(event.reason, event.desired_instance_count);
+   * }
+   * ```
+   */
+  public listAutoscalePoolHistory(
+    id: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<AutoscalePoolHistoryEvent> {
+    return this.request.paginate(
+      `/droplets/autoscale/${id}/history`,
+      'history',
+      options
+    );
+  }
+
+  ////////// Validation Methods //////////
+  private autoscalePoolIsValid(pool: AutoscalePoolRequest): boolean {
+    const { config, droplet_template } = pool;
+    if (
+      !pool.name ||
+      !config ||
+      !droplet_template ||
+      !droplet_template.region ||
+      !droplet_template.size ||
+      !droplet_template.image ||
+      !droplet_template.ssh_keys
+    ) {
+      return false;
+    }
+    // fixed size pools only need a number of instances
+    if (config.target_number_instances !== undefined) {
+      return true;
+    }
+    if (
+      config.min_instances === undefined ||
+      config.max_instances === undefined ||
+      (config.target_cpu_utilization === undefined &&
+        config.target_memory_utilization === undefined)
+    ) {
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,78 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from '../digitalocean.ts';
+import { StubFetch } from '../testing/stub-fetch.ts';
+
+const TEMPLATE = {
+  region: 'nyc3',
+  size: 's-1vcpu-1gb',
+  image: 'ubuntu-24-04-x64',
+  ssh_keys: ['3b:16:e4:bf:8b:00:8b:b8:59:8c:a9:d3:f0:19:fa:45']
+};
+
+function setup(handler: () => Response) {
+  const stub = new StubFetch(handler);
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+  return { stub, client };
+}
+
+Deno.test('autoscale pools are created from a droplet template', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ autoscale_pool: { id: 'pool-id' } }, { status: 202 })
+  );
+
+  const pool = await client.dropletAutoscale.createAutoscalePool({
+    name: 'web-pool',
+    config: { target_number_instances: 3 },
+    droplet_template: TEMPLATE
+  });
+  assertEquals(pool.id, 'pool-id');
+  assertEquals(
+    new URL(stub.requests[0].url).pathname,
+    '/v2/droplets/autoscale'
+  );
+  assertEquals((await stub.requests[0].json()).config, {
+    target_number_instances: 3
+  });
+});
+
+Deno.test('dynamic pools need bounds and a utilization target', async () => {
+  const { stub, client } = setup(() => Response.json({}));
+
+  await assertRejects(
+    () =>
+      client.dropletAutoscale.createAutoscalePool({
+        name: 'web-pool',
+        config: { min_instances: 2, max_instances: 10 },
+        droplet_template: TEMPLATE
+      }),
+    Error,
+    'Required fields missing from Autoscale Pool Object'
+  );
+  await assertRejects(
+    () =>
+      client.dropletAutoscale.updateAutoscalePool('pool-id', {
+        name: 'web-pool',
+        config: { target_number_instances: 3 },
+        droplet_template: { ...TEMPLATE, image: '' }
+      }),
+    Error,
+    'Required fields missing from Autoscale Pool Object'
+  );
+  assertEquals(stub.requests.length, 0);
+});
+
+Deno.test('deleting a pool with its droplets is marked dangerous', async () => {
+  const { stub, client } = setup(() => new Response(null, { status: 202 }));
+
+  await client.dropletAutoscale.deleteAutoscalePoolWithDroplets('pool-id', {
+    headers: { 'X-Request-Id': 'abc' }
+  });
+  const [request] = stub.requests;
+  assertEquals(
+    `${request.method} ${new URL(request.url).pathname}`,
+    'DELETE /v2/droplets/autoscale/pool-id/dangerous'
+  );
+  assertEquals(request.headers.get('x-dangerous'), 'true');
+  assertEquals(request.headers.get('x-request-id'), 'abc');
+  assertEquals(request.headers.get('authorization'), 'Bearer token');
+});
@@ -1,4 +1,6 @@
-import { request } from '../request-tool.ts';
+import { NotFoundError } from '../errors.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+import { waitUntil, WaitUntilOptions } from '../waiter.ts';
 
 import { Action } from '../models/action.ts';
 import { Backup } from '../models/backup.ts';
@@ -7,7 +9,7 @@ import { Kernel } from '../models/kernel.ts';
 import { Snapshot } from '../models/snapshot.ts';
 
 export class DropletService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Create a new droplet
@@ -35,9 +37,12 @@ export class DropletService {
    * const droplet = await client.droplets.createNewDroplet(request);
    * ```
    */
-  public createNewDroplet(dropletRequest: DropletRequest): Promise<Droplet> {
-    return request
-      .post(`/droplets`, dropletRequest)
+  public createNewDroplet(
+    dropletRequest: DropletRequest,
+    options?: RequestOptions
+  ): Promise<Droplet> {
+    return this.request
+      .post(`/droplets`, dropletRequest, options)
       .then(response => response.data.droplet);
   }
 
@@ -70,10 +75,11 @@ export class DropletService {
    * ```
    */
   public createMultipleDroplets(
-    dropletsRequest: DropletRequest
+    dropletsRequest: DropletRequest,
+    options?: RequestOptions
   ): Promise<Droplet[]> {
-    return request
-      .post(`/droplets`, dropletsRequest)
+    return this.request
+      .post(`/droplets`, dropletsRequest, options)
       .then(response => response.data.droplets);
   }
 
@@ -88,9 +94,12 @@ export class DropletService {
    * const droplet = await client.droplets.getExistingDroplet('droplet-id');
    * ```
    */
-  public getExistingDroplet(dropletId: number): Promise<Droplet> {
-    return request
-      .get(`/droplets/${dropletId}`)
+  public getExistingDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<Droplet> {
+    return this.request
+      .get(`/droplets/${dropletId}`, options)
       .then(response => response.data.droplet);
   }
 
@@ -105,8 +114,27 @@ export class DropletService {
    * const droplets = await client.droplets.getAllDroplets();
    * ```
    */
-  public getAllDroplets(): Promise<Droplet[]> {
-    return request.get(`/droplets`).then(response => response.data.droplets);
+  public getAllDroplets(options?: RequestOptions): Promise<Droplet[]> {
+    return this.request.all(`/droplets`, 'droplets', options);
+  }
+
+  /**
+   * Iterate over every droplet on the account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const droplet of client.droplets.listDroplets()) {
+   *   console.log(droplet);
+   * }
+   * ```
+   */
+  public listDroplets(
+    options?: RequestOptions
+  ): AsyncIterableIterator<Droplet> {
+    return this.request.paginate(`/droplets`, 'droplets', options);
   }
 
   /**
@@ -120,10 +148,35 @@ export class DropletService {
    * const droplets = await client.droplets.getDropletsByTag('tag-name');
    * ```
    */
-  public getDropletsByTag(tag: string): Promise<Droplet[]> {
-    return request
-      .get(`/droplets?tag_name=${tag}`)
-      .then(response => response.data.droplets);
+  public getDropletsByTag(
+    tag: string,
+    options?: RequestOptions
+  ): Promise<Droplet[]> {
+    return this.request.all(`/droplets?tag_name=${tag}`, 'droplets', options);
+  }
+
+  /**
+   * Iterate over every droplet on the account that has a given tag
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const droplet of client.droplets.listDropletsByTag('tag-name')) {
+   *   console.log(droplet);
+   * }
+   * ```
+   */
+  public listDropletsByTag(
+    tag: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<Droplet> {
+    return this.request.paginate(
+      `/droplets?tag_name=${tag}`,
+      'droplets',
+      options
+    );
   }
 
   /**
@@ -137,10 +190,39 @@ export class DropletService {
    * const kernels = await client.droplets.getAvailableKernelsForDroplet('droplet-id');
    * ```
    */
-  public getAvailableKernelsForDroplet(dropletId: number): Promise<Kernel[]> {
-    return request
-      .get(`/droplets/${dropletId}/kernels`)
-      .then(response => response.data.kernels);
+  public getAvailableKernelsForDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<Kernel[]> {
+    return this.request.all(
+      `/droplets/${dropletId}/kernels`,
+      'kernels',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every kernel available to a Droplet
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const kernel of client.droplets.listAvailableKernelsForDroplet('droplet-id')) {
+   *   console.log(kernel);
+   * }
+   * ```
+   */
+  public listAvailableKernelsForDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): AsyncIterableIterator<Kernel> {
+    return this.request.paginate(
+      `/droplets/${dropletId}/kernels`,
+      'kernels',
+      options
+    );
   }
 
   /**
@@ -154,10 +236,39 @@ export class DropletService {
    * const snapshots = await client.droplets.getSnapshotsForDroplet('droplet-id');
    * ```
    */
-  public getSnapshotsForDroplet(dropletId: number): Promise<Snapshot[]> {
-    return request
-      .get(`/droplets/${dropletId}/snapshots`)
-      .then(response => response.data.snapshots);
+  public getSnapshotsForDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<Snapshot[]> {
+    return this.request.all(
+      `/droplets/${dropletId}/snapshots`,
+      'snapshots',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every snapshot created from a Droplet
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const snapshot of client.droplets.listSnapshotsForDroplet('droplet-id')) {
+   *   console.log(snapshot);
+   * }
+   * ```
+   */
+  public listSnapshotsForDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): AsyncIterableIterator<Snapshot> {
+    return this.request.paginate(
+      `/droplets/${dropletId}/snapshots`,
+      'snapshots',
+      options
+    );
   }
 
   /**
@@ -171,10 +282,39 @@ export class DropletService {
    * const backups = await client.droplets.getBackupsForDroplet('droplet-id');
    * ```
    */
-  public getBackupsForDroplet(dropletId: number): Promise<Backup[]> {
-    return request
-      .get(`/droplets/${dropletId}/backups`)
-      .then(response => response.data.backups);
+  public getBackupsForDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<Backup[]> {
+    return this.request.all(
+      `/droplets/${dropletId}/backups`,
+      'backups',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every backup associated with a Droplet
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const backup of client.droplets.listBackupsForDroplet('droplet-id')) {
+   *   console.log(backup);
+   * }
+   * ```
+   */
+  public listBackupsForDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): AsyncIterableIterator<Backup> {
+    return this.request.paginate(
+      `/droplets/${dropletId}/backups`,
+      'backups',
+      options
+    );
   }
 
   /**
@@ -188,10 +328,39 @@ export class DropletService {
    * const actions = await client.droplets.getDropletActions('droplet-id');
    * ```
    */
-  public getDropletActions(dropletId: number): Promise<Action[]> {
-    return request
-      .get(`/droplets/${dropletId}/actions`)
-      .then(response => response.data.actions);
+  public getDropletActions(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<Action[]> {
+    return this.request.all(
+      `/droplets/${dropletId}/actions`,
+      'actions',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every action executed on a Droplet
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const action of client.droplets.listDropletActions('droplet-id')) {
+   *   console.log(action);
+   * }
+   * ```
+   */
+  public listDropletActions(
+    dropletId: number,
+    options?: RequestOptions
+  ): AsyncIterableIterator<Action> {
+    return this.request.paginate(
+      `/droplets/${dropletId}/actions`,
+      'actions',
+      options
+    );
   }
 
   /**
@@ -205,8 +374,13 @@ export class DropletService {
    * await client.droplets.deleteDroplet('droplet-id');
    * ```
    */
-  public deleteDroplet(dropletId: number): Promise<void> {
-    return request.delete(`/droplets/${dropletId}`).then(() => undefined);
+  public deleteDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/droplets/${dropletId}`, undefined, options)
+      .then(() => undefined);
   }
 
   /**
@@ -220,8 +394,13 @@ export class DropletService {
    * await client.droplets.deleteDropletsByTag('tag');
    * ```
    */
-  public deleteDropletsByTag(tag: string): Promise<void> {
-    return request.delete(`/droplets?tag_name=${tag}`).then(() => undefined);
+  public deleteDropletsByTag(
+    tag: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/droplets?tag_name=${tag}`, undefined, options)
+      .then(() => undefined);
   }
 
   /**
@@ -235,9 +414,12 @@ export class DropletService {
    * const droplets = await client.droplets.getNeighborsForDroplet('droplet-id');
    * ```
    */
-  public getNeighborsForDroplet(dropletId: number): Promise<Droplet[]> {
-    return request
-      .delete(`/droplets/${dropletId}/neighbors`)
+  public getNeighborsForDroplet(
+    dropletId: number,
+    options?: RequestOptions
+  ): Promise<Droplet[]> {
+    return this.request
+      .delete(`/droplets/${dropletId}/neighbors`, undefined, options)
       .then(response => response.data.droplets);
   }
 
@@ -252,9 +434,66 @@ export class DropletService {
    * const droplets = await client.droplets.getDropletNeighbors();
    * ```
    */
-  public getDropletNeighbors(): Promise<Droplet[][]> {
-    return request
-      .delete(`/reports/droplet_neighbors`)
+  public getDropletNeighbors(options?: RequestOptions): Promise<Droplet[][]> {
+    return this.request
+      .delete(`/reports/droplet_neighbors`, undefined, options)
       .then(response => response.data.neighbors);
   }
+
+  /**
+   * Wait until a droplet is `active`, e.g. after creating it
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const droplet = await client.droplets.createNewDroplet(request);
+   * const active = await client.droplets.waitForDropletActive(droplet.id, {
+   *   timeout: 5 * 60 * 1000,
+   *   onProgress: droplet => console.log(droplet.status)
+   * });
+   * ```
+   */
+  public waitForDropletActive(
+    dropletId: number,
+    options?: WaitUntilOptions<Droplet>
+  ): Promise<Droplet> {
+    return waitUntil(
+      () => this.getExistingDroplet(dropletId, { signal: options?.signal }),
+      droplet => droplet.status === 'active',
+      { description: `droplet ${dropletId} to be active`, ...options }
+    );
+  }
+
+  /**
+   * Wait until a droplet no longer exists, e.g. after deleting it
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.droplets.deleteDroplet(1234);
+   * await client.droplets.waitForDropletDeleted(1234);
+   * ```
+   */
+  public waitForDropletDeleted(
+    dropletId: number,
+    options?: WaitUntilOptions<Droplet | undefined>
+  ): Promise<void> {
+    return waitUntil(
+      () =>
+        this.getExistingDroplet(dropletId, { signal: options?.signal }).catch(
+          error => {
+            if (error instanceof NotFoundError) {
+              return undefined;
+            }
+            throw error;
+          }
+        ),
+      droplet => droplet === undefined,
+      { description: `droplet ${dropletId} to be deleted`, ...options }
+    ).then(() => undefined);
+  }
 }
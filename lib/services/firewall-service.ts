@@ -1,4 +1,4 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 
 import {
   Firewall,
@@ -7,7 +7,7 @@ import {
 } from '../models/firewall.ts';
 
 export class FirewallService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Create a new Cloud Firewall
@@ -62,9 +62,12 @@ export class FirewallService {
    * const firewall = await client.firewalls.createFirewall(newFirewall);
    * ```
    */
-  public createFirewall(firewall: Firewall): Promise<Firewall> {
-    return request
-      .post(`/firewalls`, firewall)
+  public createFirewall(
+    firewall: Firewall,
+    options?: RequestOptions
+  ): Promise<Firewall> {
+    return this.request
+      .post(`/firewalls`, firewall, options)
       .then(response => response.data.firewall);
   }
 
@@ -79,9 +82,12 @@ export class FirewallService {
    * const firewall = await client.firewalls.getExistingFirewall('firewall-id');
    * ```
    */
-  public getExistingFirewall(firewallId: string): Promise<Firewall> {
-    return request
-      .get(`/firewalls/${firewallId}`)
+  public getExistingFirewall(
+    firewallId: string,
+    options?: RequestOptions
+  ): Promise<Firewall> {
+    return this.request
+      .get(`/firewalls/${firewallId}`, options)
       .then(response => response.data.firewall);
   }
 
@@ -96,8 +102,27 @@ export class FirewallService {
    * const firewall = await client.firewalls.getAllFirewalls();
    * ```
    */
-  public getAllFirewalls(): Promise<Firewall[]> {
-    return request.get(`/firewalls`).then(response => response.data.firewalls);
+  public getAllFirewalls(options?: RequestOptions): Promise<Firewall[]> {
+    return this.request.all(`/firewalls`, 'firewalls', options);
+  }
+
+  /**
+   * Iterate over every firewall on the account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const firewall of client.firewalls.listFirewalls()) {
+   *   console.log(firewall);
+   * }
+   * ```
+   */
+  public listFirewalls(
+    options?: RequestOptions
+  ): AsyncIterableIterator<Firewall> {
+    return this.request.paginate(`/firewalls`, 'firewalls', options);
   }
 
   /**
@@ -157,9 +182,12 @@ export class FirewallService {
    * const firewall = await client.firewalls.updateFirewall(updatedFirewall);
    * ```
    */
-  public updateFirewall(firewall: Firewall): Promise<Firewall> {
-    return request
-      .put(`/firewalls/${firewall.id}`, firewall)
+  public updateFirewall(
+    firewall: Firewall,
+    options?: RequestOptions
+  ): Promise<Firewall> {
+    return this.request
+      .put(`/firewalls/${firewall.id}`, firewall, options)
       .then(response => response.data.firewall);
   }
 
@@ -174,8 +202,13 @@ export class FirewallService {
    * await client.firewalls.deleteFirewall('firewall-id');
    * ```
    */
-  public deleteFirewall(firewallId: string): Promise<void> {
-    return request.delete(`/firewalls/${firewallId}`).then(() => undefined);
+  public deleteFirewall(
+    firewallId: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/firewalls/${firewallId}`, undefined, options)
+      .then(() => undefined);
   }
 
   /**
@@ -195,13 +228,14 @@ export class FirewallService {
    */
   public addDropletsToFirewall(
     firewallId: string,
-    dropletIds: number[]
+    dropletIds: number[],
+    options?: RequestOptions
   ): Promise<void> {
     const data = {
       droplet_ids: dropletIds
     };
-    return request
-      .post(`/firewalls/${firewallId}/droplets`, data)
+    return this.request
+      .post(`/firewalls/${firewallId}/droplets`, data, options)
       .then(() => undefined);
   }
 
@@ -222,13 +256,14 @@ export class FirewallService {
    */
   public removeDropletsFromFirewall(
     firewallId: string,
-    dropletIds: number[]
+    dropletIds: number[],
+    options?: RequestOptions
   ): Promise<void> {
     const data = {
       droplet_ids: dropletIds
     };
-    return request
-      .delete(`/firewalls/${firewallId}/droplets`, { data })
+    return this.request
+      .delete(`/firewalls/${firewallId}/droplets`, { data }, options)
       .then(() => undefined);
   }
 
@@ -247,12 +282,16 @@ export class FirewallService {
    * await client.firewalls.addTagsToFirewall('firewall-id', tags);
    * ```
    */
-  public addTagsToFirewall(firewallId: string, tags: string[]): Promise<void> {
+  public addTagsToFirewall(
+    firewallId: string,
+    tags: string[],
+    options?: RequestOptions
+  ): Promise<void> {
     const data = {
       tags
     };
-    return request
-      .post(`/firewalls/${firewallId}/tags`, data)
+    return this.request
+      .post(`/firewalls/${firewallId}/tags`, data, options)
       .then(() => undefined);
   }
 
@@ -273,13 +312,14 @@ export class FirewallService {
    */
   public removeTagsFromFirewall(
     firewallId: string,
-    tags: string[]
+    tags: string[],
+    options?: RequestOptions
   ): Promise<void> {
     const data = {
       tags
     };
-    return request
-      .delete(`/firewalls/${firewallId}/tags`, { data })
+    return this.request
+      .delete(`/firewalls/${firewallId}/tags`, { data }, options)
       .then(() => undefined);
   }
 
@@ -319,14 +359,15 @@ export class FirewallService {
   public addRulesToFirewall(
     firewallId: string,
     inboundRules: FirewallInboundRule[],
-    outboundRules: FirewallOutboundRule[]
+    outboundRules: FirewallOutboundRule[],
+    options?: RequestOptions
   ): Promise<void> {
     const data = {
       inbound_rules: inboundRules,
       outbound_rules: outboundRules
     };
-    return request
-      .post(`/firewalls/${firewallId}/rules`, data)
+    return this.request
+      .post(`/firewalls/${firewallId}/rules`, data, options)
       .then(() => undefined);
   }
 
@@ -366,14 +407,15 @@ export class FirewallService {
   public removeRulesFromFirewall(
     firewallId: string,
     inboundRules: FirewallInboundRule[],
-    outboundRules: FirewallOutboundRule[]
+    outboundRules: FirewallOutboundRule[],
+    options?: RequestOptions
   ): Promise<void> {
     const data = {
       inbound_rules: inboundRules,
       outbound_rules: outboundRules
     };
-    return request
-      .delete(`/firewalls/${firewallId}/rules`, { data })
+    return this.request
+      .delete(`/firewalls/${firewallId}/rules`, { data }, options)
       .then(() => undefined);
   }
 }
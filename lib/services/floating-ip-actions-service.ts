@@ -1,9 +1,19 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+import { WaitableAction } from '../waiter.ts';
+import { ReservedIPActionService } from './reserved-ip-actions-service.ts';
 
 import { Action } from '../models/action.ts';
 
+/**
+ * @deprecated Floating IPs were renamed to reserved IPs, use
+ * `client.reservedIPActions` instead
+ */
 export class FloatingIPActionService {
-  constructor() {}
+  private reservedIPActions: ReservedIPActionService;
+
+  constructor(request: RequestTool) {
+    this.reservedIPActions = new ReservedIPActionService(request);
+  }
 
   /**
    * Assign an existing Floating IP to a Droplet
@@ -19,15 +29,14 @@ export class FloatingIPActionService {
    */
   public assignFloatingIPToDroplet(
     floatingIPAddress: string,
-    dropletId: string
-  ): Promise<Action> {
-    const data = {
-      droplet_id: dropletId,
-      type: 'assign'
-    };
-    return request
-      .post(`/floating_ips/${floatingIPAddress}/actions`, data)
-      .then(response => response.data.action);
+    dropletId: string,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
+    return this.reservedIPActions.assignReservedIPToDroplet(
+      floatingIPAddress,
+      dropletId,
+      options
+    );
   }
 
   /**
@@ -42,13 +51,14 @@ export class FloatingIPActionService {
    *    .unassignFloatingIP('1.2.3.4');
    * ```
    */
-  public unassignFloatingIP(floatingIPAddress: string): Promise<Action> {
-    const data = {
-      type: 'unassign'
-    };
-    return request
-      .post(`/floating_ips/${floatingIPAddress}/actions`, data)
-      .then(response => response.data.action);
+  public unassignFloatingIP(
+    floatingIPAddress: string,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
+    return this.reservedIPActions.unassignReservedIP(
+      floatingIPAddress,
+      options
+    );
   }
 
   /**
@@ -63,10 +73,37 @@ export class FloatingIPActionService {
    *    .getAllFloatingIPActions('1.2.3.4');
    * ```
    */
-  public getAllFloatingIPActions(floatingIPAddress: string): Promise<Action[]> {
-    return request
-      .get(`/floating_ips/${floatingIPAddress}/actions`)
-      .then(response => response.data.actions);
+  public getAllFloatingIPActions(
+    floatingIPAddress: string,
+    options?: RequestOptions
+  ): Promise<Action[]> {
+    return this.reservedIPActions.getAllReservedIPActions(
+      floatingIPAddress,
+      options
+    );
+  }
+
+  /**
+   * Iterate over every action executed on a Floating IP
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const action of client.floatingIPActions.listFloatingIPActions('1.2.3.4')) {
+   *   console.log(action);
+   * }
+   * ```
+   */
+  public listFloatingIPActions(
+    floatingIPAddress: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<Action> {
+    return this.reservedIPActions.listReservedIPActions(
+      floatingIPAddress,
+      options
+    );
   }
 
   /**
@@ -83,10 +120,13 @@ export class FloatingIPActionService {
    */
   public getExistingFloatingIPAction(
     floatingIPAddress: string,
-    actionId: string
-  ): Promise<Action> {
-    return request
-      .get(`/floating_ips/${floatingIPAddress}/actions/${actionId}`)
-      .then(response => response.data.action);
+    actionId: string,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
+    return this.reservedIPActions.getExistingReservedIPAction(
+      floatingIPAddress,
+      actionId,
+      options
+    );
   }
 }
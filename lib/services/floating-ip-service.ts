@@ -1,9 +1,18 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+import { ReservedIPService } from './reserved-ip-service.ts';
 
 import { FloatingIP } from '../models/floating-ip.ts';
 
+/**
+ * @deprecated Floating IPs were renamed to reserved IPs, use
+ * `client.reservedIPs` instead
+ */
 export class FloatingIPService {
-  constructor() {}
+  private reservedIPs: ReservedIPService;
+
+  constructor(request: RequestTool) {
+    this.reservedIPs = new ReservedIPService(request);
+  }
 
   /**
    * List all of the Floating IPs available on your account
@@ -16,10 +25,27 @@ export class FloatingIPService {
    * const floatingIPs = await client.floatingIPs.getAllFloatingIPs();
    * ```
    */
-  public getAllFloatingIPs(): Promise<FloatingIP> {
-    return request
-      .get(`/floating_ips`)
-      .then(response => response.data.floating_ips);
+  public getAllFloatingIPs(options?: RequestOptions): Promise<FloatingIP[]> {
+    return this.reservedIPs.getAllReservedIPs(options);
+  }
+
+  /**
+   * Iterate over every Floating IP on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const floatingIP of client.floatingIPs.listFloatingIPs()) {
+   *   console.log(floatingIP);
+   * }
+   * ```
+   */
+  public listFloatingIPs(
+    options?: RequestOptions
+  ): AsyncIterableIterator<FloatingIP> {
+    return this.reservedIPs.listReservedIPs(options);
   }
 
   /**
@@ -34,11 +60,11 @@ export class FloatingIPService {
    *    await client.floatingIPs.createFloatingIPForDroplet('droplet-id');
    * ```
    */
-  public createFloatingIPForDroplet(dropletId: string): Promise<FloatingIP> {
-    const data = { droplet_id: dropletId };
-    return request
-      .post(`/floating_ips`, data)
-      .then(response => response.data.floating_ip);
+  public createFloatingIPForDroplet(
+    dropletId: string,
+    options?: RequestOptions
+  ): Promise<FloatingIP> {
+    return this.reservedIPs.createReservedIPForDroplet(dropletId, options);
   }
 
   /**
@@ -53,10 +79,15 @@ export class FloatingIPService {
    *    await client.floatingIPs.createFloatingIPForRegion('nyc3');
    * ```
    */
-  public createFloatingIPForRegion(region: string): Promise<FloatingIP> {
-    return request
-      .post(`/floating_ips`, { region })
-      .then(response => response.data.floating_ip);
+  public createFloatingIPForRegion(
+    region: string,
+    options?: RequestOptions
+  ): Promise<FloatingIP> {
+    return this.reservedIPs.createReservedIPForRegion(
+      region,
+      undefined,
+      options
+    );
   }
 
   /**
@@ -71,10 +102,11 @@ export class FloatingIPService {
    *    await client.floatingIPs.getExistingFloatingIP('1.2.3.4');
    * ```
    */
-  public getExistingFloatingIP(floatingIPAddress: string): Promise<FloatingIP> {
-    return request
-      .get(`/floating_ips/${floatingIPAddress}`)
-      .then(response => response.data.floating_ip);
+  public getExistingFloatingIP(
+    floatingIPAddress: string,
+    options?: RequestOptions
+  ): Promise<FloatingIP> {
+    return this.reservedIPs.getExistingReservedIP(floatingIPAddress, options);
   }
 
   /**
@@ -88,9 +120,10 @@ export class FloatingIPService {
    * await client.floatingIPs.deleteFloatingIP('1.2.3.4');
    * ```
    */
-  public deleteFloatingIP(floatingIPAddress: string): Promise<void> {
-    return request
-      .delete(`/floating_ips/${floatingIPAddress}`)
-      .then(() => undefined);
+  public deleteFloatingIP(
+    floatingIPAddress: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.reservedIPs.deleteReservedIP(floatingIPAddress, options);
   }
 }
@@ -0,0 +1,266 @@
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+
+import {
+  FunctionsNamespace,
+  FunctionsNamespaceRequest,
+  FunctionsTrigger,
+  FunctionsTriggerUpdateRequest
+} from '../models/function.ts';
+
+export class FunctionsService {
+  constructor(private request: RequestTool) {}
+
+  /**
+   * Get all serverless functions namespaces on your account
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const namespaces = await client.functions.getAllNamespaces();
+   * ```
+   */
+  public getAllNamespaces(
+    options?: RequestOptions
+  ): Promise<FunctionsNamespace[]> {
+    return this.request
+      .get(`/functions/namespaces`, options)
+      .then(response => response.data.namespaces);
+  }
+
+  /**
+   * Create a new functions namespace in a region
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const namespace = await client.functions.createNamespace({
+   *   region: 'nyc1',
+   *   label: 'my-namespace'
+   * });
+   * ```
+   */
+  public async createNamespace(
+    namespace: FunctionsNamespaceRequest,
+    options?: RequestOptions
+  ): Promise<FunctionsNamespace> {
+    if (!this.namespaceIsValid(namespace)) {
+      throw new Error('Required fields missing from Namespace Object');
+    }
+    return await this.request
+      .post(`/functions/namespaces`, namespace, options)
+      .then(response => response.data.namespace);
+  }
+
+  /**
+   * Get an existing functions namespace
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const namespace = await client.functions.getNamespace('fn-namespace-id');
+   * ```
+   */
+  public getNamespace(
+    namespaceId: string,
+    options?: RequestOptions
+  ): Promise<FunctionsNamespace> {
+    return this.request
+      .get(`/functions/namespaces/${namespaceId}`, options)
+      .then(response => response.data.namespace);
+  }
+
+  /**
+   * Delete a functions namespace, along with its functions and triggers
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.functions.deleteNamespace('fn-namespace-id');
+   * ```
+   */
+  public deleteNamespace(
+    namespaceId: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/functions/namespaces/${namespaceId}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Get all triggers of a functions namespace
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const triggers = await client.functions.getAllTriggers('fn-namespace-id');
+   * ```
+   */
+  public getAllTriggers(
+    namespaceId: string,
+    options?: RequestOptions
+  ): Promise<FunctionsTrigger[]> {
+    return this.request
+      .get(`/functions/namespaces/${namespaceId}/triggers`, options)
+      .then(response => response.data.triggers);
+  }
+
+  /**
+   * Create a trigger running a function on a cron schedule
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const trigger = await client.functions.createTrigger('fn-namespace-id', {
+   *   name: 'nightly-cleanup',
+   *   function: 'jobs/cleanup',
+   *   type: 'SCHEDULED',
+   *   is_enabled: true,
+   *   scheduled_details: {
+   *     cron: '0 3 * * *',
+   *     body: { dryRun: false }
+   *   }
+   * });
+   * ```
+   */
+  public async createTrigger(
+    namespaceId: string,
+    trigger: FunctionsTrigger,
+    options?: RequestOptions
+  ): Promise<FunctionsTrigger> {
+    if (!this.triggerIsValid(trigger)) {
+      throw new Error('Required fields missing from Trigger Object');
+    }
+    return await this.request
+      .post(`/functions/namespaces/${namespaceId}/triggers`, trigger, options)
+      .then(response => response.data.trigger);
+  }
+
+  /**
+   * Get an existing trigger of a functions namespace
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const trigger = await client.functions
+   *    .getTrigger('fn-namespace-id', 'nightly-cleanup');
+   * console.log(trigger.scheduled_runs?.next_run_at);
+   * ```
+   */
+  public getTrigger(
+    namespaceId: string,
+    triggerName: string,
+    options?: RequestOptions
+  ): Promise<FunctionsTrigger> {
+    return this.request
+      .get(
+        `/functions/namespaces/${namespaceId}/triggers/${triggerName}`,
+        options
+      )
+      .then(response => response.data.trigger);
+  }
+
+  /**
+   * Enable or disable a trigger, or change its schedule and payload
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const trigger = await client.functions.updateTrigger(
+   *   'fn-namespace-id',
+   *   'nightly-cleanup',
+   *   { is_enabled: true, scheduled_details: { cron: '30 2 * * *' } }
+   * );
+   * ```
+   */
+  public async updateTrigger(
+    namespaceId: string,
+    triggerName: string,
+    trigger: FunctionsTriggerUpdateRequest,
+    options?: RequestOptions
+  ): Promise<FunctionsTrigger> {
+    if (
+      trigger.scheduled_details &&
+      !this.cronIsValid(trigger.scheduled_details.cron)
+    ) {
+      throw new Error('Invalid cron expression in Trigger Object');
+    }
+    return await this.request
+      .put(
+        `/functions/namespaces/${namespaceId}/triggers/${triggerName}`,
+        trigger,
+        options
+      )
+      .then(response => response.data.trigger);
+  }
+
+  /**
+   * Delete a trigger of a functions namespace
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.functions.deleteTrigger('fn-namespace-id', 'nightly-cleanup');
+   * ```
+   */
+  public deleteTrigger(
+    namespaceId: string,
+    triggerName: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(
+        `/functions/namespaces/${namespaceId}/triggers/${triggerName}`,
+        undefined,
+        options
+      )
+      .then(() => undefined);
+  }
+
+  ////////// Validation Methods //////////
+  private namespaceIsValid(namespace: FunctionsNamespaceRequest): boolean {
+    if (!namespace.region || !namespace.label) {
+      return false;
+    }
+    return true;
+  }
+
+  private triggerIsValid(trigger: FunctionsTrigger): boolean {
+    if (
+      !trigger.name ||
+      !trigger.function ||
+      !trigger.type ||
+      trigger.is_enabled === undefined ||
+      !this.cronIsValid(trigger.scheduled_details?.cron)
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  // scheduled triggers take standard 5 field cron expressions
+  private cronIsValid(cron?: string): boolean {
+    if (!cron || cron.trim().split(/\s+/).length !== 5) {
+      return false;
+    }
+    return true;
+  }
+}
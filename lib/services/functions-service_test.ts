@@ -0,0 +1,76 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from '../digitalocean.ts';
+import { StubFetch } from '../testing/stub-fetch.ts';
+
+const TRIGGER = {
+  name: 'nightly-cleanup',
+  function: 'jobs/cleanup',
+  type: 'SCHEDULED',
+  is_enabled: true,
+  scheduled_details: { cron: '0 3 * * *', body: { dry_run: false } }
+} as const;
+
+function setup(handler: () => Response) {
+  const stub = new StubFetch(handler);
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+  return { stub, client };
+}
+
+Deno.test('scheduled triggers are created in their namespace', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ trigger: TRIGGER }, { status: 201 })
+  );
+
+  const trigger = await client.functions.createTrigger('fn-namespace-id', {
+    ...TRIGGER,
+    scheduled_details: { ...TRIGGER.scheduled_details }
+  });
+  assertEquals(trigger.name, 'nightly-cleanup');
+  assertEquals(
+    new URL(stub.requests[0].url).pathname,
+    '/v2/functions/namespaces/fn-namespace-id/triggers'
+  );
+  assertEquals(await stub.requests[0].json(), TRIGGER);
+});
+
+Deno.test('triggers with invalid cron expressions reject', async () => {
+  const { stub, client } = setup(() => Response.json({}));
+
+  await assertRejects(
+    () =>
+      client.functions.createTrigger('fn-namespace-id', {
+        ...TRIGGER,
+        scheduled_details: { cron: '0 3 * *' }
+      }),
+    Error,
+    'Required fields missing from Trigger Object'
+  );
+  await assertRejects(
+    () =>
+      client.functions.updateTrigger('fn-namespace-id', 'nightly-cleanup', {
+        scheduled_details: { cron: 'every night' }
+      }),
+    Error,
+    'Invalid cron expression in Trigger Object'
+  );
+  await assertRejects(
+    () => client.functions.createNamespace({ region: 'nyc1' } as any),
+    Error,
+    'Required fields missing from Namespace Object'
+  );
+  assertEquals(stub.requests.length, 0);
+});
+
+Deno.test('triggers can be disabled without a schedule', async () => {
+  const { stub, client } = setup(() => Response.json({ trigger: TRIGGER }));
+
+  await client.functions.updateTrigger('fn-namespace-id', 'nightly-cleanup', {
+    is_enabled: false
+  });
+  assertEquals(stub.requests[0].method, 'PUT');
+  assertEquals(
+    new URL(stub.requests[0].url).pathname,
+    '/v2/functions/namespaces/fn-namespace-id/triggers/nightly-cleanup'
+  );
+  assertEquals(await stub.requests[0].json(), { is_enabled: false });
+});
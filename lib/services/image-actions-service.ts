@@ -1,9 +1,10 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+import { toWaitableAction, WaitableAction } from '../waiter.ts';
 
 import { Action } from '../models/action.ts';
 
 export class ImageActionService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Transfer an image to another region
@@ -16,14 +17,18 @@ export class ImageActionService {
    * const action = await client.imageActions.transferImage('image-id', 'nyc1');
    * ```
    */
-  public transferImage(imageId: number, region: string): Promise<Action> {
+  public transferImage(
+    imageId: number,
+    region: string,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const data = {
       region,
       type: 'transfer'
     };
-    return request
-      .post(`/images/${imageId}/actions`, data)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/images/${imageId}/actions`, data, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -37,13 +42,16 @@ export class ImageActionService {
    * const action = await client.imageActions.convertImageToSnapshot('image-id');
    * ```
    */
-  public convertImageToSnapshot(imageId: number): Promise<Action> {
+  public convertImageToSnapshot(
+    imageId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
     const data = {
       type: 'convert'
     };
-    return request
-      .post(`/images/${imageId}/actions`, data)
-      .then(response => response.data.action);
+    return this.request
+      .post(`/images/${imageId}/actions`, data, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 
   /**
@@ -59,10 +67,11 @@ export class ImageActionService {
    */
   public getExistingImageAction(
     imageId: number,
-    actionId: number
-  ): Promise<Action> {
-    return request
-      .get(`/images/${imageId}/actions/${actionId}`)
-      .then(response => response.data.action);
+    actionId: number,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
+    return this.request
+      .get(`/images/${imageId}/actions/${actionId}`, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
   }
 }
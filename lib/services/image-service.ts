@@ -1,10 +1,10 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 
 import { Action } from '../models/action.ts';
 import { Image } from '../models/image.ts';
 
 export class ImageService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Get all images on account
@@ -17,8 +17,25 @@ export class ImageService {
    * const images = await client.images.getAllImages();
    * ```
    */
-  public getAllImages(): Promise<Image[]> {
-    return request.get(`/images`).then(response => response.data.images);
+  public getAllImages(options?: RequestOptions): Promise<Image[]> {
+    return this.request.all(`/images`, 'images', options);
+  }
+
+  /**
+   * Iterate over every image available on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const image of client.images.listImages()) {
+   *   console.log(image);
+   * }
+   * ```
+   */
+  public listImages(options?: RequestOptions): AsyncIterableIterator<Image> {
+    return this.request.paginate(`/images`, 'images', options);
   }
 
   /**
@@ -36,15 +53,42 @@ export class ImageService {
    */
   public getAllDistributionImages(
     perPage?: number,
-    page?: number
+    page?: number,
+    options?: RequestOptions
   ): Promise<Image[]> {
     page = page ? page : 1;
     perPage = perPage ? perPage : 25;
-    return request
-      .get(`/images?type=distribution&page=${page}&per_page=${perPage}`)
+    return this.request
+      .get(
+        `/images?type=distribution&page=${page}&per_page=${perPage}`,
+        options
+      )
       .then(response => response.data.images);
   }
 
+  /**
+   * Iterate over every distribution image, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const image of client.images.listDistributionImages()) {
+   *   console.log(image);
+   * }
+   * ```
+   */
+  public listDistributionImages(
+    options?: RequestOptions
+  ): AsyncIterableIterator<Image> {
+    return this.request.paginate(
+      `/images?type=distribution`,
+      'images',
+      options
+    );
+  }
+
   /**
    * Get all application images
    *
@@ -60,15 +104,35 @@ export class ImageService {
    */
   public getAllApplicationImages(
     perPage?: number,
-    page?: number
+    page?: number,
+    options?: RequestOptions
   ): Promise<Image[]> {
     page = page ? page : 1;
     perPage = perPage ? perPage : 25;
-    return request
-      .get(`/images?type=application&page=${page}&per_page=${perPage}`)
+    return this.request
+      .get(`/images?type=application&page=${page}&per_page=${perPage}`, options)
       .then(response => response.data.images);
   }
 
+  /**
+   * Iterate over every application image, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const image of client.images.listApplicationImages()) {
+   *   console.log(image);
+   * }
+   * ```
+   */
+  public listApplicationImages(
+    options?: RequestOptions
+  ): AsyncIterableIterator<Image> {
+    return this.request.paginate(`/images?type=application`, 'images', options);
+  }
+
   /**
    * Get the private images of a user
    *
@@ -82,14 +146,37 @@ export class ImageService {
    * images = await client.images.getUserImages(10, 1);
    * ```
    */
-  public getUserImages(perPage?: number, page?: number): Promise<Image[]> {
+  public getUserImages(
+    perPage?: number,
+    page?: number,
+    options?: RequestOptions
+  ): Promise<Image[]> {
     page = page ? page : 1;
     perPage = perPage ? perPage : 25;
-    return request
-      .get(`/images?private=true&page=${page}&per_page=${perPage}`)
+    return this.request
+      .get(`/images?private=true&page=${page}&per_page=${perPage}`, options)
       .then(response => response.data.images);
   }
 
+  /**
+   * Iterate over every private image of the user, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const image of client.images.listUserImages()) {
+   *   console.log(image);
+   * }
+   * ```
+   */
+  public listUserImages(
+    options?: RequestOptions
+  ): AsyncIterableIterator<Image> {
+    return this.request.paginate(`/images?private=true`, 'images', options);
+  }
+
   /**
    * Get all actions that have been executed on an image
    *
@@ -101,10 +188,35 @@ export class ImageService {
    * const actions = await client.images.getImageActions('image-id');
    * ```
    */
-  public getImageActions(imageId: number): Promise<Action[]> {
-    return request
-      .get(`/images/${imageId}/actions`)
-      .then(response => response.data.actions);
+  public getImageActions(
+    imageId: number,
+    options?: RequestOptions
+  ): Promise<Action[]> {
+    return this.request.all(`/images/${imageId}/actions`, 'actions', options);
+  }
+
+  /**
+   * Iterate over every action executed on an image
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const action of client.images.listImageActions('image-id')) {
+   *   console.log(action);
+   * }
+   * ```
+   */
+  public listImageActions(
+    imageId: number,
+    options?: RequestOptions
+  ): AsyncIterableIterator<Action> {
+    return this.request.paginate(
+      `/images/${imageId}/actions`,
+      'actions',
+      options
+    );
   }
 
   /**
@@ -118,9 +230,12 @@ export class ImageService {
    * const image = await client.images.getExistingImage('image-id');
    * ```
    */
-  public getExistingImage(imageId: number): Promise<Image> {
-    return request
-      .get(`/images/${imageId}`)
+  public getExistingImage(
+    imageId: number,
+    options?: RequestOptions
+  ): Promise<Image> {
+    return this.request
+      .get(`/images/${imageId}`, options)
       .then(response => response.data.image);
   }
 
@@ -135,9 +250,12 @@ export class ImageService {
    * const image = await client.images.getExistingImageBySlug('image-slug');
    * ```
    */
-  public getExistingImageBySlug(imageSlug: string): Promise<Image> {
-    return request
-      .get(`/images/${imageSlug}`)
+  public getExistingImageBySlug(
+    imageSlug: string,
+    options?: RequestOptions
+  ): Promise<Image> {
+    return this.request
+      .get(`/images/${imageSlug}`, options)
       .then(response => response.data.image);
   }
 
@@ -152,9 +270,13 @@ export class ImageService {
    * const image = await client.images.updateImageName('image-id', 'New Image Name');
    * ```
    */
-  public updateImageName(imageId: number, name: string): Promise<Image> {
-    return request
-      .put(`/images/${imageId}`, { name })
+  public updateImageName(
+    imageId: number,
+    name: string,
+    options?: RequestOptions
+  ): Promise<Image> {
+    return this.request
+      .put(`/images/${imageId}`, { name }, options)
       .then(response => response.data.image);
   }
 
@@ -169,7 +291,9 @@ export class ImageService {
    * await client.images.deleteImage('image-id');
    * ```
    */
-  public deleteImage(imageId: number): Promise<void> {
-    return request.delete(`/images/${imageId}`).then(() => undefined);
+  public deleteImage(imageId: number, options?: RequestOptions): Promise<void> {
+    return this.request
+      .delete(`/images/${imageId}`, undefined, options)
+      .then(() => undefined);
   }
 }
@@ -1,4 +1,6 @@
-import { request } from '../request-tool.ts';
+import { ResourceFailedError } from '../errors.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+import { waitUntil, WaitUntilOptions } from '../waiter.ts';
 
 import {
   KubernetesCluster,
@@ -9,7 +11,7 @@ import {
 } from '../models/kubernetes-cluster.ts';
 
 export class KubernetesService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Create a new kubernetes cluster
@@ -47,10 +49,11 @@ export class KubernetesService {
    * ```
    */
   public createCluster(
-    cluster: KubernetesClusterRequest
+    cluster: KubernetesClusterRequest,
+    options?: RequestOptions
   ): Promise<KubernetesCluster> {
-    return request
-      .post(`/kubernetes/clusters`, cluster)
+    return this.request
+      .post(`/kubernetes/clusters`, cluster, options)
       .then(response => response.data.kubernetes_cluster);
   }
 
@@ -65,9 +68,12 @@ export class KubernetesService {
    * const cluster = await client.kubernetes.getCluster('cluster-id');
    * ```
    */
-  public getCluster(clusterId: string): Promise<KubernetesCluster> {
-    return request
-      .get(`/kubernetes/clusters/${clusterId}`)
+  public getCluster(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<KubernetesCluster> {
+    return this.request
+      .get(`/kubernetes/clusters/${clusterId}`, options)
       .then(response => response.data.kubernetes_cluster);
   }
 
@@ -82,10 +88,37 @@ export class KubernetesService {
    * const clusters = await client.kubernetes.getAllClusters();
    * ```
    */
-  public getAllClusters(): Promise<KubernetesCluster[]> {
-    return request
-      .get(`/kubernetes/clusters`)
-      .then(response => response.data.kubernetes_clusters);
+  public getAllClusters(
+    options?: RequestOptions
+  ): Promise<KubernetesCluster[]> {
+    return this.request.all(
+      `/kubernetes/clusters`,
+      'kubernetes_clusters',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every kubernetes cluster, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const kubernetesCluster of client.kubernetes.listClusters()) {
+   *   console.log(kubernetesCluster);
+   * }
+   * ```
+   */
+  public listClusters(
+    options?: RequestOptions
+  ): AsyncIterableIterator<KubernetesCluster> {
+    return this.request.paginate(
+      `/kubernetes/clusters`,
+      'kubernetes_clusters',
+      options
+    );
   }
 
   /**
@@ -108,10 +141,11 @@ export class KubernetesService {
    */
   public updateCluster(
     clusterId: string,
-    cluster: KubernetesCluster
+    cluster: KubernetesCluster,
+    options?: RequestOptions
   ): Promise<KubernetesCluster> {
-    return request
-      .put(`/kubernetes/clusters/${clusterId}`, cluster)
+    return this.request
+      .put(`/kubernetes/clusters/${clusterId}`, cluster, options)
       .then(response => response.data.kubernetes_cluster);
   }
 
@@ -127,10 +161,11 @@ export class KubernetesService {
    * ```
    */
   public getAvailableUpgradesForCluster(
-    clusterId: string
+    clusterId: string,
+    options?: RequestOptions
   ): Promise<KubernetesVersion[]> {
-    return request
-      .get(`/kubernetes/clusters/${clusterId}/upgrades`)
+    return this.request
+      .get(`/kubernetes/clusters/${clusterId}/upgrades`, options)
       .then(response => response.data.available_upgrade_versions);
   }
 
@@ -147,12 +182,17 @@ export class KubernetesService {
    */
   public upgradeExistingCluster(
     clusterId: string,
-    version: string
+    version: string,
+    options?: RequestOptions
   ): Promise<void> {
-    return request
-      .post(`/kubernetes/clusters/${clusterId}/upgrade`, {
-        version
-      })
+    return this.request
+      .post(
+        `/kubernetes/clusters/${clusterId}/upgrade`,
+        {
+          version
+        },
+        options
+      )
       .then(() => undefined);
   }
 
@@ -167,9 +207,12 @@ export class KubernetesService {
    * await client.kubernetes.deleteCluster('cluster-id');
    * ```
    */
-  public deleteCluster(clusterId: string): Promise<void> {
-    return request
-      .delete(`/kubernetes/clusters/${clusterId}`)
+  public deleteCluster(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/kubernetes/clusters/${clusterId}`, undefined, options)
       .then(() => undefined);
   }
 
@@ -184,9 +227,15 @@ export class KubernetesService {
    * const kubeconfig = await client.kubernetes.getClusterKubeconfig('cluster-id');
    * ```
    */
-  public getClusterKubeconfig(clusterId: string): Promise<string> {
-    return request
-      .get(`/kubernetes/clusters/${clusterId}/kubeconfig`)
+  public getClusterKubeconfig(
+    clusterId: string,
+    options?: RequestOptions
+  ): Promise<string> {
+    return this.request
+      .get(`/kubernetes/clusters/${clusterId}/kubeconfig`, options, {
+        mode: 'text',
+        accept: 'application/yaml'
+      })
       .then(response => response.data);
   }
 
@@ -203,10 +252,11 @@ export class KubernetesService {
    */
   public getExistingNodePoolForCluster(
     clusterId: string,
-    poolId: string
+    poolId: string,
+    options?: RequestOptions
   ): Promise<KubernetesWorkerNodePool> {
-    return request
-      .get(`/kubernetes/clusters/${clusterId}/node_pools/${poolId}`)
+    return this.request
+      .get(`/kubernetes/clusters/${clusterId}/node_pools/${poolId}`, options)
       .then(response => response.data.node_pool);
   }
 
@@ -222,10 +272,11 @@ export class KubernetesService {
    * ```
    */
   public getAllNodePoolsForCluster(
-    clusterId: string
+    clusterId: string,
+    options?: RequestOptions
   ): Promise<KubernetesWorkerNodePool[]> {
-    return request
-      .get(`/kubernetes/clusters/${clusterId}/node_pools`)
+    return this.request
+      .get(`/kubernetes/clusters/${clusterId}/node_pools`, options)
       .then(response => response.data.node_pools);
   }
 
@@ -250,10 +301,11 @@ export class KubernetesService {
    */
   public addNodePoolToCluster(
     clusterId: string,
-    nodePool: KubernetesWorkerNodePool
+    nodePool: KubernetesWorkerNodePool,
+    options?: RequestOptions
   ): Promise<KubernetesWorkerNodePool> {
-    return request
-      .post(`/kubernetes/clusters/${clusterId}/node_pools`, nodePool)
+    return this.request
+      .post(`/kubernetes/clusters/${clusterId}/node_pools`, nodePool, options)
       .then(response => response.data.node_pool);
   }
 
@@ -278,12 +330,14 @@ export class KubernetesService {
   public updateNodePoolForCluster(
     clusterId: string,
     nodePoolId: string,
-    nodePool: KubernetesWorkerNodePool
+    nodePool: KubernetesWorkerNodePool,
+    options?: RequestOptions
   ): Promise<KubernetesWorkerNodePool> {
-    return request
+    return this.request
       .post(
         `/kubernetes/clusters/${clusterId}/node_pools/${nodePoolId}`,
-        nodePool
+        nodePool,
+        options
       )
       .then(response => response.data.node_pool);
   }
@@ -301,10 +355,15 @@ export class KubernetesService {
    */
   public deleteNodePoolFromCluster(
     clusterId: string,
-    nodePoolId: string
+    nodePoolId: string,
+    options?: RequestOptions
   ): Promise<void> {
-    return request
-      .delete(`/kubernetes/clusters/${clusterId}/node_pools/${nodePoolId}`)
+    return this.request
+      .delete(
+        `/kubernetes/clusters/${clusterId}/node_pools/${nodePoolId}`,
+        undefined,
+        options
+      )
       .then(() => undefined);
   }
 
@@ -325,12 +384,13 @@ export class KubernetesService {
     nodePoolId: string,
     nodeId: string,
     skipDrain?: boolean,
-    replace?: boolean
+    replace?: boolean,
+    options?: RequestOptions
   ): Promise<void> {
     const url = `/kubernetes/clusters/${clusterId}/node_pools/${nodePoolId}/nodes/${nodeId}?skip_drain=${
       skipDrain ? 1 : 0
     }&replace=${replace ? 1 : 0}`;
-    return request.delete(url).then(() => undefined);
+    return this.request.delete(url, undefined, options).then(() => undefined);
   }
 
   /**
@@ -344,9 +404,114 @@ export class KubernetesService {
    * const options = await client.kubernetes.getKubernetesOptions();
    * ```
    */
-  public getKubernetesOptions(): Promise<KubernetesOptions> {
-    return request
-      .get(`/kubernetes/options`)
+  public getKubernetesOptions(
+    options?: RequestOptions
+  ): Promise<KubernetesOptions> {
+    return this.request
+      .get(`/kubernetes/options`, options)
       .then(response => response.data.options);
   }
+
+  /**
+   * Integrate the container registry of your account with kubernetes
+   * clusters, so they can pull images from it
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.kubernetes.addRegistryToClusters(['cluster-id']);
+   * ```
+   */
+  public addRegistryToClusters(
+    clusterIds: string[],
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .post(`/kubernetes/registry`, { cluster_uuids: clusterIds }, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Remove the container registry integration from kubernetes clusters
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.kubernetes.removeRegistryFromClusters(['cluster-id']);
+   * ```
+   */
+  public removeRegistryFromClusters(
+    clusterIds: string[],
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/kubernetes/registry`, { cluster_uuids: clusterIds }, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Install 1-Click add-ons on a kubernetes cluster, see
+   * `client.oneClicks.getKubernetesOneClicks` for the available slugs. The
+   * installation runs asynchronously, the returned message only confirms it
+   * started.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.kubernetes.installOneClickApps('cluster-id', [
+   *   'kube-state-metrics',
+   *   'loki'
+   * ]);
+   * ```
+   */
+  public installOneClickApps(
+    clusterId: string,
+    slugs: string[],
+    options?: RequestOptions
+  ): Promise<string> {
+    const data = { addon_slugs: slugs, cluster_uuid: clusterId };
+    return this.request
+      .post(`/1-clicks/kubernetes`, data, options)
+      .then(response => response.data.message);
+  }
+
+  /**
+   * Wait until a kubernetes cluster is `running`, e.g. after creating it.
+   * Rejects with a `ResourceFailedError` if the cluster is in the `error`
+   * state.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const cluster = await client.kubernetes.createCluster(request);
+   * const running = await client.kubernetes.waitForClusterRunning(cluster.id, {
+   *   timeout: 20 * 60 * 1000,
+   *   onProgress: cluster => console.log(cluster.status.state)
+   * });
+   * ```
+   */
+  public waitForClusterRunning(
+    clusterId: string,
+    options?: WaitUntilOptions<KubernetesCluster>
+  ): Promise<KubernetesCluster> {
+    const description = `kubernetes cluster ${clusterId}`;
+    return waitUntil(
+      () => this.getCluster(clusterId, { signal: options?.signal }),
+      cluster => {
+        if (cluster.status?.state === 'error') {
+          throw new ResourceFailedError(description, cluster);
+        }
+        return cluster.status?.state === 'running';
+      },
+      { description: `${description} to be running`, ...options }
+    );
+  }
 }
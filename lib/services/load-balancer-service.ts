@@ -1,4 +1,6 @@
-import { request } from '../request-tool.ts';
+import { ResourceFailedError } from '../errors.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+import { waitUntil, WaitUntilOptions } from '../waiter.ts';
 
 import {
   ForwardingRule,
@@ -7,7 +9,7 @@ import {
 } from '../models/load-balancer.ts';
 
 export class LoadBalancerService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   ////////// Validation Methods //////////
   private loadBalancerIsValid(lb: LoadBalancer): boolean {
@@ -92,7 +94,8 @@ export class LoadBalancerService {
    * ```
    */
   public async createLoadBalancer(
-    loadBalancer: LoadBalancer
+    loadBalancer: LoadBalancer,
+    options?: RequestOptions
   ): Promise<LoadBalancer> {
     if (!this.loadBalancerIsValid(loadBalancer)) {
       throw new Error('Required fields missing from Load Balancer Object');
@@ -110,8 +113,8 @@ export class LoadBalancerService {
     ) {
       throw new Error('Required fields missing from Health Check Object');
     }
-    return await request
-      .post(`/load_balancers`, loadBalancer)
+    return await this.request
+      .post(`/load_balancers`, loadBalancer, options)
       .then(response => response.data.load_balancer);
   }
 
@@ -126,9 +129,12 @@ export class LoadBalancerService {
    * const loadBalancer = await client.loadBalancers.getExistingLoadBalancer('load-balancer-id');
    * ```
    */
-  public getExistingLoadBalancer(id: string): Promise<LoadBalancer> {
-    return request
-      .get(`/load_balancers/${id}`)
+  public getExistingLoadBalancer(
+    id: string,
+    options?: RequestOptions
+  ): Promise<LoadBalancer> {
+    return this.request
+      .get(`/load_balancers/${id}`, options)
       .then(response => response.data.load_balancer);
   }
 
@@ -143,10 +149,29 @@ export class LoadBalancerService {
    * const loadBalancers = await client.loadBalancers.getAllLoadBalancers();
    * ```
    */
-  public getAllLoadBalancers(): Promise<LoadBalancer[]> {
-    return request
-      .get(`/load_balancers`)
-      .then(response => response.data.load_balancers);
+  public getAllLoadBalancers(
+    options?: RequestOptions
+  ): Promise<LoadBalancer[]> {
+    return this.request.all(`/load_balancers`, 'load_balancers', options);
+  }
+
+  /**
+   * Iterate over every load balancer, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const loadBalancer of client.loadBalancers.listLoadBalancers()) {
+   *   console.log(loadBalancer);
+   * }
+   * ```
+   */
+  public listLoadBalancers(
+    options?: RequestOptions
+  ): AsyncIterableIterator<LoadBalancer> {
+    return this.request.paginate(`/load_balancers`, 'load_balancers', options);
   }
 
   /**
@@ -201,7 +226,8 @@ export class LoadBalancerService {
    * ```
    */
   public async updateLoadBalancer(
-    loadBalancer: LoadBalancer
+    loadBalancer: LoadBalancer,
+    options?: RequestOptions
   ): Promise<LoadBalancer> {
     if (!this.loadBalancerIsValid(loadBalancer)) {
       throw new Error('Required fields missing from Load Balancer Object');
@@ -220,8 +246,8 @@ export class LoadBalancerService {
         throw new Error('Required fields missing from Health Check Object');
       }
     }
-    return await request
-      .put(`/load_balancers/${loadBalancer.id}`, loadBalancer)
+    return await this.request
+      .put(`/load_balancers/${loadBalancer.id}`, loadBalancer, options)
       .then(response => response.data.load_balancer);
   }
 
@@ -236,8 +262,13 @@ export class LoadBalancerService {
    * await client.loadBalancers.deleteLoadBalancer('load-balancer-id');
    * ```
    */
-  public deleteLoadBalancer(id: string): Promise<void> {
-    return request.delete(`/load_balancers/${id}`).then(() => undefined);
+  public deleteLoadBalancer(
+    id: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/load_balancers/${id}`, undefined, options)
+      .then(() => undefined);
   }
 
   /**
@@ -253,17 +284,22 @@ export class LoadBalancerService {
    *   'droplet-id-2',
    *   'droplet-id-3',
    * ];
-   * await client.loadBalancers.addDropletsToLoadBalancer(dropletIds);
+   * await client.loadBalancers.addDropletsToLoadBalancer('load-balancer-id', dropletIds);
    * ```
    */
   public addDropletsToLoadBalancer(
     id: string,
-    dropletIds: number[]
+    dropletIds: number[],
+    options?: RequestOptions
   ): Promise<void> {
-    return request
-      .post(`/load_balancers/${id}`, {
-        droplet_ids: dropletIds
-      })
+    return this.request
+      .post(
+        `/load_balancers/${id}/droplets`,
+        {
+          droplet_ids: dropletIds
+        },
+        options
+      )
       .then(() => undefined);
   }
 
@@ -285,12 +321,15 @@ export class LoadBalancerService {
    */
   public removeDropletsFromLoadBalancer(
     id: string,
-    dropletIds: number[]
+    dropletIds: number[],
+    options?: RequestOptions
   ): Promise<void> {
-    return request
-      .delete(`/load_balancers/${id}`, {
-        data: { droplet_ids: dropletIds }
-      })
+    return this.request
+      .delete(
+        `/load_balancers/${id}/droplets`,
+        { droplet_ids: dropletIds },
+        options
+      )
       .then(() => undefined);
   }
 
@@ -316,14 +355,19 @@ export class LoadBalancerService {
    */
   public async addForwardingRulesToLoadBalancer(
     id: string,
-    rules: ForwardingRule[]
+    rules: ForwardingRule[],
+    options?: RequestOptions
   ): Promise<void> {
     if (rules.find(rule => !this.forwardingRuleIsValid(rule))) {
       throw new Error('Required fields missing from Forwarding Rule Object');
     }
-    await request.post(`/load_balancers/${id}/forwarding_rules`, {
-      forwarding_rules: rules
-    });
+    await this.request.post(
+      `/load_balancers/${id}/forwarding_rules`,
+      {
+        forwarding_rules: rules
+      },
+      options
+    );
   }
 
   /**
@@ -348,14 +392,48 @@ export class LoadBalancerService {
    */
   public async removeForwardingRulesFromLoadBalancer(
     id: string,
-    rules: ForwardingRule[]
+    rules: ForwardingRule[],
+    options?: RequestOptions
   ): Promise<void> {
     if (rules.find(rule => !this.forwardingRuleIsValid(rule))) {
       throw new Error('Required fields missing from Forwarding Rule Object');
     }
 
-    await request.delete(`/load_balancers/${id}/forwarding_rules`, {
-      data: { forwarding_rules: rules }
-    });
+    await this.request.delete(
+      `/load_balancers/${id}/forwarding_rules`,
+      { forwarding_rules: rules },
+      options
+    );
+  }
+
+  /**
+   * Wait until a load balancer is `active`, e.g. after creating it.
+   * Rejects with a `ResourceFailedError` if the load balancer is `errored`.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const loadBalancer = await client.loadBalancers.createLoadBalancer(request);
+   * const active = await client.loadBalancers
+   *    .waitForLoadBalancerActive(loadBalancer.id);
+   * ```
+   */
+  public waitForLoadBalancerActive(
+    id: string,
+    options?: WaitUntilOptions<LoadBalancer>
+  ): Promise<LoadBalancer> {
+    const description = `load balancer ${id}`;
+    return waitUntil(
+      () => this.getExistingLoadBalancer(id, { signal: options?.signal }),
+      loadBalancer => {
+        if (loadBalancer.status === 'errored') {
+          throw new ResourceFailedError(description, loadBalancer);
+        }
+        return loadBalancer.status === 'active';
+      },
+      { description: `${description} to be active`, ...options }
+    );
   }
 }
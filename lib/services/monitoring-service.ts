@@ -0,0 +1,366 @@
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+
+import {
+  AlertPolicy,
+  BandwidthDirection,
+  BandwidthInterface,
+  LoadAveragePeriod,
+  MemoryMetric,
+  Metrics
+} from '../models/monitoring.ts';
+
+export class MonitoringService {
+  constructor(private request: RequestTool) {}
+
+  /**
+   * Get the bandwidth of a droplet in megabits per second
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const metrics = await client.monitoring.getDropletBandwidthMetrics(
+   *   '123456',
+   *   'public',
+   *   'outbound',
+   *   new Date(Date.now() - 60 * 60 * 1000),
+   *   new Date()
+   * );
+   * ```
+   */
+  public getDropletBandwidthMetrics(
+    hostId: string,
+    networkInterface: BandwidthInterface,
+    direction: BandwidthDirection,
+    start: Date,
+    end: Date,
+    options?: RequestOptions
+  ): Promise<Metrics> {
+    return this.getDropletMetrics('bandwidth', hostId, start, end, options, {
+      interface: networkInterface,
+      direction
+    });
+  }
+
+  /**
+   * Get the CPU usage of a droplet in seconds, with one series per CPU mode
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const metrics = await client.monitoring.getDropletCpuMetrics(
+   *   '123456',
+   *   new Date(Date.now() - 60 * 60 * 1000),
+   *   new Date()
+   * );
+   * ```
+   */
+  public getDropletCpuMetrics(
+    hostId: string,
+    start: Date,
+    end: Date,
+    options?: RequestOptions
+  ): Promise<Metrics> {
+    return this.getDropletMetrics('cpu', hostId, start, end, options);
+  }
+
+  /**
+   * Get the free filesystem space of a droplet in bytes
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const metrics = await client.monitoring.getDropletFilesystemFreeMetrics(
+   *   '123456',
+   *   new Date(Date.now() - 60 * 60 * 1000),
+   *   new Date()
+   * );
+   * ```
+   */
+  public getDropletFilesystemFreeMetrics(
+    hostId: string,
+    start: Date,
+    end: Date,
+    options?: RequestOptions
+  ): Promise<Metrics> {
+    return this.getDropletMetrics(
+      'filesystem_free',
+      hostId,
+      start,
+      end,
+      options
+    );
+  }
+
+  /**
+   * Get the filesystem size of a droplet in bytes
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const metrics = await client.monitoring.getDropletFilesystemSizeMetrics(
+   *   '123456',
+   *   new Date(Date.now() - 60 * 60 * 1000),
+   *   new Date()
+   * );
+   * ```
+   */
+  public getDropletFilesystemSizeMetrics(
+    hostId: string,
+    start: Date,
+    end: Date,
+    options?: RequestOptions
+  ): Promise<Metrics> {
+    return this.getDropletMetrics(
+      'filesystem_size',
+      hostId,
+      start,
+      end,
+      options
+    );
+  }
+
+  /**
+   * Get the 1, 5 or 15 minute load average of a droplet
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const metrics = await client.monitoring.getDropletLoadMetrics(
+   *   '123456',
+   *   5,
+   *   new Date(Date.now() - 60 * 60 * 1000),
+   *   new Date()
+   * );
+   * ```
+   */
+  public getDropletLoadMetrics(
+    hostId: string,
+    period: LoadAveragePeriod,
+    start: Date,
+    end: Date,
+    options?: RequestOptions
+  ): Promise<Metrics> {
+    return this.getDropletMetrics(
+      `load_${period}`,
+      hostId,
+      start,
+      end,
+      options
+    );
+  }
+
+  /**
+   * Get the cached, free, total or available memory of a droplet in bytes
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const metrics = await client.monitoring.getDropletMemoryMetrics(
+   *   '123456',
+   *   'available',
+   *   new Date(Date.now() - 60 * 60 * 1000),
+   *   new Date()
+   * );
+   * ```
+   */
+  public getDropletMemoryMetrics(
+    hostId: string,
+    metric: MemoryMetric,
+    start: Date,
+    end: Date,
+    options?: RequestOptions
+  ): Promise<Metrics> {
+    return this.getDropletMetrics(
+      `memory_${metric}`,
+      hostId,
+      start,
+      end,
+      options
+    );
+  }
+
+  /**
+   * Get all alert policies on your account
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const policies = await client.monitoring.getAllAlertPolicies();
+   * ```
+   */
+  public getAllAlertPolicies(options?: RequestOptions): Promise<AlertPolicy[]> {
+    return this.request.all(`/monitoring/alerts`, 'policies', options);
+  }
+
+  /**
+   * Iterate over every alert policy on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const policy of client.monitoring.listAlertPolicies()) {
+   *   console.log(policy);
+   * }
+   * ```
+   */
+  public listAlertPolicies(
+    options?: RequestOptions
+  ): AsyncIterableIterator<AlertPolicy> {
+    return this.request.paginate(`/monitoring/alerts`, 'policies', options);
+  }
+
+  /**
+   * Create a new alert policy, targeting droplets by id and/or tag
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const policy = await client.monitoring.createAlertPolicy({
+   *   type: 'v1/insights/droplet/cpu',
+   *   description: 'CPU Alert',
+   *   compare: 'GreaterThan',
+   *   value: 80,
+   *   window: '5m',
+   *   entities: ['192018292'],
+   *   tags: ['production'],
+   *   alerts: {
+   *     email: ['bob@example.com'],
+   *     slack: [
+   *       { channel: '#alerts', url: 'https://hooks.slack.com/services/T1234/B1234/abc' }
+   *     ]
+   *   },
+   *   enabled: true
+   * });
+   * ```
+   */
+  public async createAlertPolicy(
+    policy: AlertPolicy,
+    options?: RequestOptions
+  ): Promise<AlertPolicy> {
+    if (!this.alertPolicyIsValid(policy)) {
+      throw new Error('Required fields missing from Alert Policy Object');
+    }
+    return await this.request
+      .post(`/monitoring/alerts`, policy, options)
+      .then(response => response.data.policy);
+  }
+
+  /**
+   * Get an existing alert policy
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const policy = await client.monitoring.getAlertPolicy('policy-uuid');
+   * ```
+   */
+  public getAlertPolicy(
+    uuid: string,
+    options?: RequestOptions
+  ): Promise<AlertPolicy> {
+    return this.request
+      .get(`/monitoring/alerts/${uuid}`, options)
+      .then(response => response.data.policy);
+  }
+
+  /**
+   * Update an existing alert policy
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const policy = await client.monitoring.getAlertPolicy('policy-uuid');
+   * policy.value = 90;
+   * const updated = await client.monitoring.updateAlertPolicy('policy-uuid', policy);
+   * ```
+   */
+  public async updateAlertPolicy(
+    uuid: string,
+    policy: AlertPolicy,
+    options?: RequestOptions
+  ): Promise<AlertPolicy> {
+    if (!this.alertPolicyIsValid(policy)) {
+      throw new Error('Required fields missing from Alert Policy Object');
+    }
+    return await this.request
+      .put(`/monitoring/alerts/${uuid}`, policy, options)
+      .then(response => response.data.policy);
+  }
+
+  /**
+   * Delete an existing alert policy
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.monitoring.deleteAlertPolicy('policy-uuid');
+   * ```
+   */
+  public deleteAlertPolicy(
+    uuid: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/monitoring/alerts/${uuid}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  private getDropletMetrics(
+    metric: string,
+    hostId: string,
+    start: Date,
+    end: Date,
+    options?: RequestOptions,
+    params: Record<string, string> = {}
+  ): Promise<Metrics> {
+    const query = new URLSearchParams({
+      host_id: hostId,
+      ...params,
+      start: String(Math.floor(start.getTime() / 1000)),
+      end: String(Math.floor(end.getTime() / 1000))
+    });
+    return this.request
+      .get(`/monitoring/metrics/droplet/${metric}?${query}`, options)
+      .then(response => response.data);
+  }
+
+  ////////// Validation Methods //////////
+  private alertPolicyIsValid(policy: AlertPolicy): boolean {
+    if (
+      !policy.type ||
+      !policy.description ||
+      !policy.compare ||
+      policy.value === undefined ||
+      !policy.window ||
+      !policy.alerts ||
+      policy.enabled === undefined
+    ) {
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,80 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from '../digitalocean.ts';
+import { StubFetch } from '../testing/stub-fetch.ts';
+
+const POLICY = {
+  type: 'v1/insights/droplet/cpu',
+  description: 'CPU Alert',
+  compare: 'GreaterThan',
+  value: 80,
+  window: '5m',
+  entities: ['192018292'],
+  tags: ['production_droplets'],
+  alerts: { email: ['bob@example.com'], slack: [] },
+  enabled: true
+} as const;
+
+function setup(handler: () => Response) {
+  const stub = new StubFetch(handler);
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+  return { stub, client };
+}
+
+Deno.test('droplet metrics are queried by host and time range', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({
+      status: 'success',
+      data: { resultType: 'matrix', result: [] }
+    })
+  );
+
+  const metrics = await client.monitoring.getDropletBandwidthMetrics(
+    '123456',
+    'public',
+    'outbound',
+    new Date(Date.UTC(2024, 0, 1)),
+    new Date(Date.UTC(2024, 0, 1, 1))
+  );
+  assertEquals(metrics.status, 'success');
+  assertEquals(
+    stub.requests[0].url,
+    'https://api.digitalocean.com/v2/monitoring/metrics/droplet/bandwidth?host_id=123456&interface=public&direction=outbound&start=1704067200&end=1704070800'
+  );
+});
+
+Deno.test('alert policies are created and updated', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ policy: { ...POLICY, uuid: 'policy-id' } })
+  );
+
+  const policy = await client.monitoring.createAlertPolicy(POLICY as any);
+  assertEquals(policy.uuid, 'policy-id');
+  await client.monitoring.updateAlertPolicy('policy-id', POLICY as any);
+
+  const [create, update] = stub.requests;
+  assertEquals(create.method, 'POST');
+  assertEquals(await create.json(), POLICY);
+  assertEquals(
+    `${update.method} ${new URL(update.url).pathname}`,
+    'PUT /v2/monitoring/alerts/policy-id'
+  );
+});
+
+Deno.test('invalid alert policies reject without a request', async () => {
+  const { stub, client } = setup(() => Response.json({}));
+
+  await assertRejects(
+    () =>
+      client.monitoring.createAlertPolicy({
+        ...POLICY,
+        enabled: undefined
+      } as any),
+    Error,
+    'Required fields missing from Alert Policy Object'
+  );
+  await assertRejects(
+    () => client.monitoring.updateAlertPolicy('policy-id', {} as any),
+    Error
+  );
+  assertEquals(stub.requests.length, 0);
+});
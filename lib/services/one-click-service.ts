@@ -0,0 +1,62 @@
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+
+import { OneClick, OneClickType } from '../models/one-click.ts';
+
+export class OneClickService {
+  constructor(private request: RequestTool) {}
+
+  /**
+   * Get all 1-Click applications, optionally only those of one type.
+   * Kubernetes 1-Clicks are installed with
+   * `client.kubernetes.installOneClickApps`.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const oneClicks = await client.oneClicks.getAllOneClicks();
+   * const kubernetesOneClicks =
+   *    await client.oneClicks.getAllOneClicks('kubernetes');
+   * ```
+   */
+  public getAllOneClicks(
+    type?: OneClickType,
+    options?: RequestOptions
+  ): Promise<OneClick[]> {
+    const url = type ? `/1-clicks?type=${type}` : `/1-clicks`;
+    return this.request
+      .get(url, options)
+      .then(response => response.data['1_clicks']);
+  }
+
+  /**
+   * Get all 1-Click applications installable on droplets
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const oneClicks = await client.oneClicks.getDropletOneClicks();
+   * ```
+   */
+  public getDropletOneClicks(options?: RequestOptions): Promise<OneClick[]> {
+    return this.getAllOneClicks('droplet', options);
+  }
+
+  /**
+   * Get all 1-Click add-ons installable on kubernetes clusters
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const oneClicks = await client.oneClicks.getKubernetesOneClicks();
+   * ```
+   */
+  public getKubernetesOneClicks(options?: RequestOptions): Promise<OneClick[]> {
+    return this.getAllOneClicks('kubernetes', options);
+  }
+}
@@ -0,0 +1,48 @@
+import { assertEquals } from '@std/assert';
+import { DigitalOcean } from '../digitalocean.ts';
+import { StubFetch } from '../testing/stub-fetch.ts';
+
+function setup(handler: () => Response) {
+  const stub = new StubFetch(handler);
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+  return { stub, client };
+}
+
+Deno.test('1-click applications are listed by type', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({
+      '1_clicks': [{ slug: 'monitoring', type: 'kubernetes' }]
+    })
+  );
+
+  const apps = await client.oneClicks.getKubernetesOneClicks();
+  assertEquals(apps, [{ slug: 'monitoring', type: 'kubernetes' }]);
+  await client.oneClicks.getAllOneClicks();
+  assertEquals(
+    stub.requests.map(request => request.url),
+    [
+      'https://api.digitalocean.com/v2/1-clicks?type=kubernetes',
+      'https://api.digitalocean.com/v2/1-clicks'
+    ]
+  );
+});
+
+Deno.test('1-click applications are installed on a cluster', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ message: 'Successfully kicked off addon job.' })
+  );
+
+  const message = await client.kubernetes.installOneClickApps('cluster-id', [
+    'kube-state-metrics',
+    'loki'
+  ]);
+  assertEquals(message, 'Successfully kicked off addon job.');
+  assertEquals(
+    new URL(stub.requests[0].url).pathname,
+    '/v2/1-clicks/kubernetes'
+  );
+  assertEquals(await stub.requests[0].json(), {
+    addon_slugs: ['kube-state-metrics', 'loki'],
+    cluster_uuid: 'cluster-id'
+  });
+});
@@ -1,4 +1,4 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 
 import {
   Project,
@@ -8,7 +8,7 @@ import {
 } from '../models/project.ts';
 
 export class ProjectService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Get all projects on your account
@@ -21,8 +21,27 @@ export class ProjectService {
    * const projects = await client.projects.getAllProjects();
    * ```
    */
-  public getAllProjects(): Promise<Project[]> {
-    return request.get(`/projects`).then(response => response.data.projects);
+  public getAllProjects(options?: RequestOptions): Promise<Project[]> {
+    return this.request.all(`/projects`, 'projects', options);
+  }
+
+  /**
+   * Iterate over every project on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const project of client.projects.listProjects()) {
+   *   console.log(project);
+   * }
+   * ```
+   */
+  public listProjects(
+    options?: RequestOptions
+  ): AsyncIterableIterator<Project> {
+    return this.request.paginate(`/projects`, 'projects', options);
   }
 
   /**
@@ -36,9 +55,12 @@ export class ProjectService {
    * const project = await client.projects.getExistingProject('project-id');
    * ```
    */
-  public getExistingProject(id: string): Promise<Project> {
-    return request
-      .get(`/projects/${id}`)
+  public getExistingProject(
+    id: string,
+    options?: RequestOptions
+  ): Promise<Project> {
+    return this.request
+      .get(`/projects/${id}`, options)
       .then(response => response.data.project);
   }
 
@@ -53,8 +75,8 @@ export class ProjectService {
    * const project = await client.projects.getDefaultProject();
    * ```
    */
-  public getDefaultProject(): Promise<Project> {
-    return this.getExistingProject('default');
+  public getDefaultProject(options?: RequestOptions): Promise<Project> {
+    return this.getExistingProject('default', options);
   }
 
   /**
@@ -74,7 +96,10 @@ export class ProjectService {
    * const project = await client.projects.createProject(request);
    * ```
    */
-  public async createProject(project: Project): Promise<Project> {
+  public async createProject(
+    project: Project,
+    options?: RequestOptions
+  ): Promise<Project> {
     if (!this.createProjectIsValid(project)) {
       throw new Error('Required fields missing from the Project Object');
     }
@@ -83,8 +108,8 @@ export class ProjectService {
         'Project purpose is not one of the allowed values. Use a proper purpose value.'
       );
     }
-    return await request
-      .post(`/projects`, project)
+    return await this.request
+      .post(`/projects`, project, options)
       .then(response => response.data.project);
   }
 
@@ -106,7 +131,11 @@ export class ProjectService {
    * const project = await client.projects.updateProject('project-id', request);
    * ```
    */
-  public async updateProject(id: string, project: Project): Promise<Project> {
+  public async updateProject(
+    id: string,
+    project: Project,
+    options?: RequestOptions
+  ): Promise<Project> {
     if (!this.projectIsValid(project)) {
       throw new Error('Required fields missing from the Project Object');
     }
@@ -115,8 +144,8 @@ export class ProjectService {
         'Project purpose is not one of the allowed values. Use a proper purpose value.'
       );
     }
-    return await request
-      .put(`/projects/${id}`, project)
+    return await this.request
+      .put(`/projects/${id}`, project, options)
       .then(response => response.data.project);
   }
 
@@ -138,8 +167,11 @@ export class ProjectService {
    * const project = await client.projects.updateDefaultProject(request);
    * ```
    */
-  public updateDefaultProject(project: Project): Promise<Project> {
-    return this.updateProject('default', project);
+  public updateDefaultProject(
+    project: Project,
+    options?: RequestOptions
+  ): Promise<Project> {
+    return this.updateProject('default', project, options);
   }
 
   /**
@@ -153,8 +185,10 @@ export class ProjectService {
    * await client.projects.deleteProject('project-id');
    * ```
    */
-  public deleteProject(id: string): Promise<void> {
-    return request.delete(`/projects/${id}`).then(() => undefined);
+  public deleteProject(id: string, options?: RequestOptions): Promise<void> {
+    return this.request
+      .delete(`/projects/${id}`, undefined, options)
+      .then(() => undefined);
   }
 
   /**
@@ -168,10 +202,35 @@ export class ProjectService {
    * const resources = await client.projects.getProjectResources('project-id');
    * ```
    */
-  public getProjectResources(id: string): Promise<ProjectResource[]> {
-    return request
-      .get(`/projects/${id}/resources`)
-      .then(response => response.data.resources);
+  public getProjectResources(
+    id: string,
+    options?: RequestOptions
+  ): Promise<ProjectResource[]> {
+    return this.request.all(`/projects/${id}/resources`, 'resources', options);
+  }
+
+  /**
+   * Iterate over every resource assigned to a project
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const projectResource of client.projects.listProjectResources('project-id')) {
+   *   console.log(projectResource);
+   * }
+   * ```
+   */
+  public listProjectResources(
+    id: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<ProjectResource> {
+    return this.request.paginate(
+      `/projects/${id}/resources`,
+      'resources',
+      options
+    );
   }
 
   /**
@@ -185,8 +244,10 @@ export class ProjectService {
    * const resources = await client.projects.getDefaultProjectResources();
    * ```
    */
-  public getDefaultProjectResources(): Promise<ProjectResource[]> {
-    return this.getProjectResources('default');
+  public getDefaultProjectResources(
+    options?: RequestOptions
+  ): Promise<ProjectResource[]> {
+    return this.getProjectResources('default', options);
   }
 
   /**
@@ -210,10 +271,11 @@ export class ProjectService {
    */
   public assignResourcesToProject(
     id: string,
-    resources: string[]
+    resources: string[],
+    options?: RequestOptions
   ): Promise<ProjectResource[]> {
-    return request
-      .post(`/projects/${id}/resources`, { resources })
+    return this.request
+      .post(`/projects/${id}/resources`, { resources }, options)
       .then(response => response.data.resources);
   }
 
@@ -237,9 +299,10 @@ export class ProjectService {
    * ```
    */
   public assignResourcesToDefaultProject(
-    resources: string[]
+    resources: string[],
+    options?: RequestOptions
   ): Promise<ProjectResource[]> {
-    return this.assignResourcesToProject('default', resources);
+    return this.assignResourcesToProject('default', resources, options);
   }
 
   /**
@@ -1,9 +1,9 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 
 import { Region } from '../models/region.ts';
 
 export class RegionService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Get all regions
@@ -16,7 +16,24 @@ export class RegionService {
    * const regions = await client.regions.getAllRegions();
    * ```
    */
-  public getAllRegions(): Promise<Region[]> {
-    return request.get(`/regions`).then(response => response.data.regions);
+  public getAllRegions(options?: RequestOptions): Promise<Region[]> {
+    return this.request.all(`/regions`, 'regions', options);
+  }
+
+  /**
+   * Iterate over every region, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const region of client.regions.listRegions()) {
+   *   console.log(region);
+   * }
+   * ```
+   */
+  public listRegions(options?: RequestOptions): AsyncIterableIterator<Region> {
+    return this.request.paginate(`/regions`, 'regions', options);
   }
 }
@@ -0,0 +1,491 @@
+import { ConflictError } from '../errors.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+
+import {
+  DockerCredentials,
+  GarbageCollection,
+  GarbageCollectionType,
+  Registry,
+  RegistryManifest,
+  RegistryOptions,
+  RegistryRepository,
+  RegistryRequest,
+  RegistrySubscription,
+  RegistrySubscriptionTierSlug,
+  RegistryTag
+} from '../models/registry.ts';
+
+export class RegistryService {
+  constructor(private request: RequestTool) {}
+
+  /**
+   * Get the container registry of your account
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const registry = await client.registry.getRegistry();
+   * ```
+   */
+  public getRegistry(options?: RequestOptions): Promise<Registry> {
+    return this.request
+      .get(`/registry`, options)
+      .then(response => response.data.registry);
+  }
+
+  /**
+   * Create the container registry of your account
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const registry = await client.registry.createRegistry({
+   *   name: 'example',
+   *   subscription_tier_slug: 'basic',
+   *   region: 'fra1'
+   * });
+   * ```
+   */
+  public async createRegistry(
+    registry: RegistryRequest,
+    options?: RequestOptions
+  ): Promise<Registry> {
+    if (!registry.name || !registry.subscription_tier_slug) {
+      throw new Error('Required fields missing from Registry Object');
+    }
+    return await this.request
+      .post(`/registry`, registry, options)
+      .then(response => response.data.registry);
+  }
+
+  /**
+   * Delete the container registry of your account, including all images
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.registry.deleteRegistry();
+   * ```
+   */
+  public deleteRegistry(options?: RequestOptions): Promise<void> {
+    return this.request
+      .delete(`/registry`, undefined, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Check whether a registry name is available
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const available = await client.registry.isRegistryNameAvailable('example');
+   * ```
+   */
+  public isRegistryNameAvailable(
+    name: string,
+    options?: RequestOptions
+  ): Promise<boolean> {
+    return this.request.post(`/registry/validate-name`, { name }, options).then(
+      () => true,
+      error => {
+        if (error instanceof ConflictError) {
+          return false;
+        }
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * Get the regions and subscription tiers available for registries
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const options = await client.registry.getRegistryOptions();
+   * ```
+   */
+  public getRegistryOptions(
+    options?: RequestOptions
+  ): Promise<RegistryOptions> {
+    return this.request
+      .get(`/registry/options`, options)
+      .then(response => response.data.options);
+  }
+
+  /**
+   * Get the subscription tier of your registry
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const subscription = await client.registry.getSubscription();
+   * ```
+   */
+  public getSubscription(
+    options?: RequestOptions
+  ): Promise<RegistrySubscription> {
+    return this.request
+      .get(`/registry/subscription`, options)
+      .then(response => response.data.subscription);
+  }
+
+  /**
+   * Change the subscription tier of your registry
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const subscription = await client.registry.updateSubscription('professional');
+   * ```
+   */
+  public updateSubscription(
+    tierSlug: RegistrySubscriptionTierSlug,
+    options?: RequestOptions
+  ): Promise<RegistrySubscription> {
+    return this.request
+      .post(`/registry/subscription`, { tier_slug: tierSlug }, options)
+      .then(response => response.data.subscription);
+  }
+
+  /**
+   * Get Docker credentials for the registry, as the contents of a Docker
+   * `config.json`. Credentials are read-only unless `readWrite` is set and
+   * never expire unless `expirySeconds` is given.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const credentials = await client.registry.getDockerCredentials(true, 3600);
+   * await Deno.writeTextFile(
+   *   `${Deno.env.get('HOME')}/.docker/config.json`,
+   *   JSON.stringify(credentials)
+   * );
+   * ```
+   */
+  public getDockerCredentials(
+    readWrite = false,
+    expirySeconds?: number,
+    options?: RequestOptions
+  ): Promise<DockerCredentials> {
+    const query = new URLSearchParams({ read_write: String(readWrite) });
+    if (expirySeconds) {
+      query.set('expiry_seconds', String(expirySeconds));
+    }
+    return this.request
+      .get(`/registry/docker-credentials?${query}`, options)
+      .then(response => response.data);
+  }
+
+  /**
+   * Get all repositories in a registry
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const repositories = await client.registry.getAllRepositories('example');
+   * ```
+   */
+  public getAllRepositories(
+    registryName: string,
+    options?: RequestOptions
+  ): Promise<RegistryRepository[]> {
+    return this.request.all(
+      `/registry/${registryName}/repositoriesV2`,
+      'repositories',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every repository in a registry, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const repository of client.registry.listRepositories('example')) {
+   *   console.log(repository);
+   * }
+   * ```
+   */
+  public listRepositories(
+    registryName: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<RegistryRepository> {
+    return this.request.paginate(
+      `/registry/${registryName}/repositoriesV2`,
+      'repositories',
+      options
+    );
+  }
+
+  /**
+   * Get all tags of a repository
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const tags = await client.registry.getAllTags('example', 'repo-1');
+   * ```
+   */
+  public getAllTags(
+    registryName: string,
+    repository: string,
+    options?: RequestOptions
+  ): Promise<RegistryTag[]> {
+    return this.request.all(
+      `${this.repositoryUrl(registryName, repository)}/tags`,
+      'tags',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every tag of a repository, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const tag of client.registry.listTags('example', 'repo-1')) {
+   *   console.log(tag);
+   * }
+   * ```
+   */
+  public listTags(
+    registryName: string,
+    repository: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<RegistryTag> {
+    return this.request.paginate(
+      `${this.repositoryUrl(registryName, repository)}/tags`,
+      'tags',
+      options
+    );
+  }
+
+  /**
+   * Delete a tag from a repository. The manifest it referenced is deleted
+   * by the next garbage collection if it has no other tags.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.registry.deleteTag('example', 'repo-1', 'mytag');
+   * ```
+   */
+  public deleteTag(
+    registryName: string,
+    repository: string,
+    tag: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(
+        `${this.repositoryUrl(registryName, repository)}/tags/${tag}`,
+        undefined,
+        options
+      )
+      .then(() => undefined);
+  }
+
+  /**
+   * Get all manifests of a repository
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const manifests = await client.registry.getAllManifests('example', 'repo-1');
+   * ```
+   */
+  public getAllManifests(
+    registryName: string,
+    repository: string,
+    options?: RequestOptions
+  ): Promise<RegistryManifest[]> {
+    return this.request.all(
+      `${this.repositoryUrl(registryName, repository)}/digests`,
+      'manifests',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every manifest of a repository, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const manifest of client.registry.listManifests('example', 'repo-1')) {
+   *   console.log(manifest);
+   * }
+   * ```
+   */
+  public listManifests(
+    registryName: string,
+    repository: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<RegistryManifest> {
+    return this.request.paginate(
+      `${this.repositoryUrl(registryName, repository)}/digests`,
+      'manifests',
+      options
+    );
+  }
+
+  /**
+   * Delete a manifest from a repository by digest, along with its tags
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.registry.deleteManifest('example', 'repo-1', 'sha256:cb8a924afd...');
+   * ```
+   */
+  public deleteManifest(
+    registryName: string,
+    repository: string,
+    digest: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(
+        `${this.repositoryUrl(registryName, repository)}/digests/${digest}`,
+        undefined,
+        options
+      )
+      .then(() => undefined);
+  }
+
+  /**
+   * Get the active garbage collection of a registry, if any
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const gc = await client.registry.getActiveGarbageCollection('example');
+   * ```
+   */
+  public getActiveGarbageCollection(
+    registryName: string,
+    options?: RequestOptions
+  ): Promise<GarbageCollection> {
+    return this.request
+      .get(`/registry/${registryName}/garbage-collection`, options)
+      .then(response => response.data.garbage_collection);
+  }
+
+  /**
+   * Get all past and present garbage collections of a registry
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const gcs = await client.registry.getAllGarbageCollections('example');
+   * ```
+   */
+  public getAllGarbageCollections(
+    registryName: string,
+    options?: RequestOptions
+  ): Promise<GarbageCollection[]> {
+    return this.request.all(
+      `/registry/${registryName}/garbage-collections`,
+      'garbage_collections',
+      options
+    );
+  }
+
+  /**
+   * Start a garbage collection, freeing the space of deleted tags and
+   * manifests. The registry is read-only while it runs.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const gc = await client.registry.startGarbageCollection('example');
+   * ```
+   */
+  public startGarbageCollection(
+    registryName: string,
+    type?: GarbageCollectionType,
+    options?: RequestOptions
+  ): Promise<GarbageCollection> {
+    return this.request
+      .post(
+        `/registry/${registryName}/garbage-collection`,
+        type ? { type } : {},
+        options
+      )
+      .then(response => response.data.garbage_collection);
+  }
+
+  /**
+   * Cancel a running garbage collection
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const gc = await client.registry.cancelGarbageCollection('example', 'gc-uuid');
+   * ```
+   */
+  public cancelGarbageCollection(
+    registryName: string,
+    garbageCollectionId: string,
+    options?: RequestOptions
+  ): Promise<GarbageCollection> {
+    return this.request
+      .put(
+        `/registry/${registryName}/garbage-collection/${garbageCollectionId}`,
+        { cancel: true },
+        options
+      )
+      .then(response => response.data.garbage_collection);
+  }
+
+  // repository names may contain slashes, which must be encoded
+  private repositoryUrl(registryName: string, repository: string): string {
+    return `/registry/${registryName}/repositories/${encodeURIComponent(
+      repository
+    )}`;
+  }
+}
@@ -0,0 +1,87 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from '../digitalocean.ts';
+import { StubFetch } from '../testing/stub-fetch.ts';
+
+function setup(handler: () => Response) {
+  const stub = new StubFetch(handler);
+  const client = new DigitalOcean('token', undefined, {
+    fetch: stub.fetch,
+    retry: false
+  });
+  return { stub, client };
+}
+
+const noContent = () => new Response(null, { status: 204 });
+
+Deno.test('createRegistry posts the registry', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ registry: { name: 'example', region: 'fra1' } })
+  );
+
+  const registry = await client.registry.createRegistry({
+    name: 'example',
+    subscription_tier_slug: 'basic',
+    region: 'fra1'
+  });
+  assertEquals(registry.name, 'example');
+  assertEquals(await stub.requests[0].json(), {
+    name: 'example',
+    subscription_tier_slug: 'basic',
+    region: 'fra1'
+  });
+});
+
+Deno.test('invalid registries reject without a request', async () => {
+  const { stub, client } = setup(noContent);
+
+  await assertRejects(
+    () => client.registry.createRegistry({ name: 'example' } as any),
+    Error,
+    'Required fields missing from Registry Object'
+  );
+  assertEquals(stub.requests.length, 0);
+});
+
+Deno.test('taken registry names are reported as unavailable', async () => {
+  let taken = false;
+  const { client } = setup(() =>
+    taken
+      ? Response.json({ id: 'conflict' }, { status: 409 })
+      : new Response(null, { status: 204 })
+  );
+
+  assertEquals(await client.registry.isRegistryNameAvailable('example'), true);
+  taken = true;
+  assertEquals(await client.registry.isRegistryNameAvailable('example'), false);
+});
+
+Deno.test('docker credentials and tags use the expected urls', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ auths: { 'registry.digitalocean.com': { auth: 'abc' } } })
+  );
+
+  await client.registry.getDockerCredentials(true, 3600);
+  await client.registry.deleteTag('example', 'team/api', 'v1');
+  assertEquals(
+    stub.requests.map(request => `${request.method} ${request.url}`),
+    [
+      'GET https://api.digitalocean.com/v2/registry/docker-credentials?read_write=true&expiry_seconds=3600',
+      'DELETE https://api.digitalocean.com/v2/registry/example/repositories/team%2Fapi/tags/v1'
+    ]
+  );
+});
+
+Deno.test('clusters are added to and removed from the registry', async () => {
+  const { stub, client } = setup(noContent);
+
+  await client.kubernetes.addRegistryToClusters(['cluster-id']);
+  await client.kubernetes.removeRegistryFromClusters(['cluster-id']);
+  for (const request of stub.requests) {
+    assertEquals(new URL(request.url).pathname, '/v2/kubernetes/registry');
+    assertEquals(await request.json(), { cluster_uuids: ['cluster-id'] });
+  }
+  assertEquals(
+    stub.requests.map(request => request.method),
+    ['POST', 'DELETE']
+  );
+});
@@ -0,0 +1,177 @@
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+import { toWaitableAction, WaitableAction } from '../waiter.ts';
+
+import { Action } from '../models/action.ts';
+
+export class ReservedIPActionService {
+  constructor(private request: RequestTool) {}
+
+  /**
+   * Assign an existing Reserved IP to a Droplet
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const action = await client.reservedIPActions
+   *    .assignReservedIPToDroplet('1.2.3.4', 'droplet-id');
+   * ```
+   */
+  public assignReservedIPToDroplet(
+    reservedIPAddress: string,
+    dropletId: string,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
+    const data = {
+      droplet_id: dropletId,
+      type: 'assign'
+    };
+    return this.request
+      .post(`/reserved_ips/${reservedIPAddress}/actions`, data, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
+  }
+
+  /**
+   * Unassign an existing Reserved IP
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const action = await client.reservedIPActions
+   *    .unassignReservedIP('1.2.3.4');
+   * ```
+   */
+  public unassignReservedIP(
+    reservedIPAddress: string,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
+    const data = {
+      type: 'unassign'
+    };
+    return this.request
+      .post(`/reserved_ips/${reservedIPAddress}/actions`, data, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
+  }
+
+  /**
+   * Retrieve all actions that have been executed on a Reserved IP
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const actions = await client.reservedIPActions
+   *    .getAllReservedIPActions('1.2.3.4');
+   * ```
+   */
+  public getAllReservedIPActions(
+    reservedIPAddress: string,
+    options?: RequestOptions
+  ): Promise<Action[]> {
+    return this.request.all(
+      `/reserved_ips/${reservedIPAddress}/actions`,
+      'actions',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every action executed on a Reserved IP
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const action of client.reservedIPActions.listReservedIPActions('1.2.3.4')) {
+   *   console.log(action);
+   * }
+   * ```
+   */
+  public listReservedIPActions(
+    reservedIPAddress: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<Action> {
+    return this.request.paginate(
+      `/reserved_ips/${reservedIPAddress}/actions`,
+      'actions',
+      options
+    );
+  }
+
+  /**
+   * Retrieve the status of a Reserved IP action
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const action = await client.reservedIPActions
+   *    .getExistingReservedIPAction('1.2.3.4', 'action-id');
+   * ```
+   */
+  public getExistingReservedIPAction(
+    reservedIPAddress: string,
+    actionId: string,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
+    return this.request
+      .get(`/reserved_ips/${reservedIPAddress}/actions/${actionId}`, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
+  }
+
+  /**
+   * Assign an existing Reserved IPv6 address to a Droplet
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const action = await client.reservedIPActions
+   *    .assignReservedIPv6ToDroplet('2409:40d0:f7:1017:74b4:3a96:105e:4c6e', 'droplet-id');
+   * ```
+   */
+  public assignReservedIPv6ToDroplet(
+    reservedIPv6Address: string,
+    dropletId: string,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
+    const data = {
+      droplet_id: dropletId,
+      type: 'assign'
+    };
+    return this.request
+      .post(`/reserved_ipv6/${reservedIPv6Address}/actions`, data, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
+  }
+
+  /**
+   * Unassign an existing Reserved IPv6 address
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const action = await client.reservedIPActions
+   *    .unassignReservedIPv6('2409:40d0:f7:1017:74b4:3a96:105e:4c6e');
+   * ```
+   */
+  public unassignReservedIPv6(
+    reservedIPv6Address: string,
+    options?: RequestOptions
+  ): Promise<WaitableAction> {
+    const data = {
+      type: 'unassign'
+    };
+    return this.request
+      .post(`/reserved_ipv6/${reservedIPv6Address}/actions`, data, options)
+      .then(response => toWaitableAction(this.request, response.data.action));
+  }
+}
@@ -0,0 +1,260 @@
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+
+import {
+  ReservedIP,
+  ReservedIPRequest,
+  ReservedIPv6
+} from '../models/reserved-ip.ts';
+
+export class ReservedIPService {
+  constructor(private request: RequestTool) {}
+
+  /**
+   * List all of the Reserved IPs available on your account
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const reservedIPs = await client.reservedIPs.getAllReservedIPs();
+   * ```
+   */
+  public getAllReservedIPs(options?: RequestOptions): Promise<ReservedIP[]> {
+    return this.request.all(`/reserved_ips`, 'reserved_ips', options);
+  }
+
+  /**
+   * Iterate over every Reserved IP on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const reservedIP of client.reservedIPs.listReservedIPs()) {
+   *   console.log(reservedIP);
+   * }
+   * ```
+   */
+  public listReservedIPs(
+    options?: RequestOptions
+  ): AsyncIterableIterator<ReservedIP> {
+    return this.request.paginate(`/reserved_ips`, 'reserved_ips', options);
+  }
+
+  /**
+   * Create a new Reserved IP, either assigned to a Droplet or reserved to a
+   * Region and optionally a Project
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const reservedIP = await client.reservedIPs.createReservedIP({
+   *   region: 'nyc3',
+   *   project_id: 'project-id'
+   * });
+   * ```
+   */
+  public async createReservedIP(
+    reservedIP: ReservedIPRequest,
+    options?: RequestOptions
+  ): Promise<ReservedIP> {
+    if (!this.reservedIPIsValid(reservedIP)) {
+      throw new Error('Required fields missing from Reserved IP Object');
+    }
+    return await this.request
+      .post(`/reserved_ips`, reservedIP, options)
+      .then(response => response.data.reserved_ip);
+  }
+
+  /**
+   * Create a new Reserved IP assigned to a Droplet
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const reservedIP =
+   *    await client.reservedIPs.createReservedIPForDroplet('droplet-id');
+   * ```
+   */
+  public createReservedIPForDroplet(
+    dropletId: string,
+    options?: RequestOptions
+  ): Promise<ReservedIP> {
+    return this.createReservedIP({ droplet_id: dropletId }, options);
+  }
+
+  /**
+   * Create a Reserved IP reserved to a Region, assigning it to a Project
+   * when a project id is given
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const reservedIP =
+   *    await client.reservedIPs.createReservedIPForRegion('nyc3', 'project-id');
+   * ```
+   */
+  public createReservedIPForRegion(
+    region: string,
+    projectId?: string,
+    options?: RequestOptions
+  ): Promise<ReservedIP> {
+    return this.createReservedIP({ region, project_id: projectId }, options);
+  }
+
+  /**
+   * Show information about an existing Reserved IP
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const reservedIP =
+   *    await client.reservedIPs.getExistingReservedIP('1.2.3.4');
+   * ```
+   */
+  public getExistingReservedIP(
+    reservedIPAddress: string,
+    options?: RequestOptions
+  ): Promise<ReservedIP> {
+    return this.request
+      .get(`/reserved_ips/${reservedIPAddress}`, options)
+      .then(response => response.data.reserved_ip);
+  }
+
+  /**
+   * Delete an existing Reserved IP and remove it from your account
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.reservedIPs.deleteReservedIP('1.2.3.4');
+   * ```
+   */
+  public deleteReservedIP(
+    reservedIPAddress: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/reserved_ips/${reservedIPAddress}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * List all of the Reserved IPv6 addresses available on your account
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const reservedIPv6s = await client.reservedIPs.getAllReservedIPv6s();
+   * ```
+   */
+  public getAllReservedIPv6s(
+    options?: RequestOptions
+  ): Promise<ReservedIPv6[]> {
+    return this.request.all(`/reserved_ipv6`, 'reserved_ipv6s', options);
+  }
+
+  /**
+   * Iterate over every Reserved IPv6 address on your account, following
+   * pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const reservedIPv6 of client.reservedIPs.listReservedIPv6s()) {
+   *   console.log(reservedIPv6);
+   * }
+   * ```
+   */
+  public listReservedIPv6s(
+    options?: RequestOptions
+  ): AsyncIterableIterator<ReservedIPv6> {
+    return this.request.paginate(`/reserved_ipv6`, 'reserved_ipv6s', options);
+  }
+
+  /**
+   * Reserve a new IPv6 address to a Region
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const reservedIPv6 = await client.reservedIPs.createReservedIPv6('nyc3');
+   * ```
+   */
+  public createReservedIPv6(
+    regionSlug: string,
+    options?: RequestOptions
+  ): Promise<ReservedIPv6> {
+    return this.request
+      .post(`/reserved_ipv6`, { region_slug: regionSlug }, options)
+      .then(response => response.data.reserved_ipv6);
+  }
+
+  /**
+   * Show information about an existing Reserved IPv6 address
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const reservedIPv6 =
+   *    await client.reservedIPs.getExistingReservedIPv6('2409:40d0:f7:1017:74b4:3a96:105e:4c6e');
+   * ```
+   */
+  public getExistingReservedIPv6(
+    reservedIPv6Address: string,
+    options?: RequestOptions
+  ): Promise<ReservedIPv6> {
+    return this.request
+      .get(`/reserved_ipv6/${reservedIPv6Address}`, options)
+      .then(response => response.data.reserved_ipv6);
+  }
+
+  /**
+   * Delete an existing Reserved IPv6 address and remove it from your account
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.reservedIPs
+   *    .deleteReservedIPv6('2409:40d0:f7:1017:74b4:3a96:105e:4c6e');
+   * ```
+   */
+  public deleteReservedIPv6(
+    reservedIPv6Address: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/reserved_ipv6/${reservedIPv6Address}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  ////////// Validation Methods //////////
+  private reservedIPIsValid(reservedIP: ReservedIPRequest): boolean {
+    if (!reservedIP.droplet_id && !reservedIP.region) {
+      return false;
+    }
+    return true;
+  }
+}
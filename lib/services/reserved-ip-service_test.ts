@@ -0,0 +1,75 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from '../digitalocean.ts';
+import { StubFetch } from '../testing/stub-fetch.ts';
+
+function setup(handler: () => Response) {
+  const stub = new StubFetch(handler);
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+  return { stub, client };
+}
+
+Deno.test('reserved IPs are created for a region and project', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ reserved_ip: { ip: '1.2.3.4' } }, { status: 202 })
+  );
+
+  const reservedIP = await client.reservedIPs.createReservedIPForRegion(
+    'nyc3',
+    'project-id'
+  );
+  assertEquals(reservedIP.ip, '1.2.3.4');
+  assertEquals(new URL(stub.requests[0].url).pathname, '/v2/reserved_ips');
+  assertEquals(await stub.requests[0].json(), {
+    region: 'nyc3',
+    project_id: 'project-id'
+  });
+});
+
+Deno.test('reserved IPs need a droplet or a region', async () => {
+  const { stub, client } = setup(() => Response.json({}));
+
+  await assertRejects(
+    () => client.reservedIPs.createReservedIP({}),
+    Error,
+    'Required fields missing from Reserved IP Object'
+  );
+  assertEquals(stub.requests.length, 0);
+});
+
+Deno.test('reserved IPv6 addresses are created by region slug', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ reserved_ipv6: { ip: '2409:40d0:f7:1017::1' } })
+  );
+
+  await client.reservedIPs.createReservedIPv6('nyc3');
+  assertEquals(new URL(stub.requests[0].url).pathname, '/v2/reserved_ipv6');
+  assertEquals(await stub.requests[0].json(), { region_slug: 'nyc3' });
+});
+
+Deno.test('reserved IP actions assign and unassign droplets', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ action: { id: 1, status: 'in-progress' } })
+  );
+
+  await client.reservedIPActions.assignReservedIPToDroplet('1.2.3.4', '123');
+  await client.reservedIPActions.unassignReservedIP('1.2.3.4');
+  assertEquals(
+    stub.requests.map(request => new URL(request.url).pathname),
+    ['/v2/reserved_ips/1.2.3.4/actions', '/v2/reserved_ips/1.2.3.4/actions']
+  );
+  assertEquals(await stub.requests[0].json(), {
+    droplet_id: '123',
+    type: 'assign'
+  });
+  assertEquals(await stub.requests[1].json(), { type: 'unassign' });
+});
+
+Deno.test('floating IPs go through the reserved IP endpoints', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ reserved_ip: { ip: '1.2.3.4' } }, { status: 202 })
+  );
+
+  await client.floatingIPs.createFloatingIPForDroplet('123');
+  assertEquals(new URL(stub.requests[0].url).pathname, '/v2/reserved_ips');
+  assertEquals(await stub.requests[0].json(), { droplet_id: '123' });
+});
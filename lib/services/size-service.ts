@@ -1,9 +1,9 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 
 import { Size } from '../models/size.ts';
 
 export class SizeService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Get all sizes
@@ -16,7 +16,24 @@ export class SizeService {
    * const sizes = await client.sizes.getAllSizes();
    * ```
    */
-  public getAllSizes(): Promise<Size[]> {
-    return request.get(`/sizes`).then(response => response.data.sizes);
+  public getAllSizes(options?: RequestOptions): Promise<Size[]> {
+    return this.request.all(`/sizes`, 'sizes', options);
+  }
+
+  /**
+   * Iterate over every droplet size, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const size of client.sizes.listSizes()) {
+   *   console.log(size);
+   * }
+   * ```
+   */
+  public listSizes(options?: RequestOptions): AsyncIterableIterator<Size> {
+    return this.request.paginate(`/sizes`, 'sizes', options);
   }
 }
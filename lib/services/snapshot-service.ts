@@ -1,11 +1,11 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 
 import { Snapshot } from '../models/snapshot.ts';
 
 export type SnapshotType = 'all' | 'droplet' | 'volume';
 
 export class SnapshotService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Get all snapshots on the account.
@@ -24,12 +24,39 @@ export class SnapshotService {
    * snapshots = await client.snapshots.getSnapshots('volume');
    * ```
    */
-  public getSnapshots(resourceType?: SnapshotType): Promise<Snapshot[]> {
-    let url = `/snapshots`;
-    if (resourceType && resourceType !== 'all') {
-      url += `?resource_type=${resourceType}`;
-    }
-    return request.get(url).then(response => response.data.snapshots);
+  public getSnapshots(
+    resourceType?: SnapshotType,
+    options?: RequestOptions
+  ): Promise<Snapshot[]> {
+    return this.request.all(
+      this.snapshotsUrl(resourceType),
+      'snapshots',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every snapshot on the account, optionally filtered by resource type
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const snapshot of client.snapshots.listSnapshots('droplet')) {
+   *   console.log(snapshot);
+   * }
+   * ```
+   */
+  public listSnapshots(
+    resourceType?: SnapshotType,
+    options?: RequestOptions
+  ): AsyncIterableIterator<Snapshot> {
+    return this.request.paginate(
+      this.snapshotsUrl(resourceType),
+      'snapshots',
+      options
+    );
   }
 
   /**
@@ -43,9 +70,12 @@ export class SnapshotService {
    * const snapshot = await client.snapshots.getSnapshotById('snapshot-id');
    * ```
    */
-  public getSnapshotById(snapshotId: string): Promise<Snapshot> {
-    return request
-      .get(`/snapshots/${snapshotId}`)
+  public getSnapshotById(
+    snapshotId: string,
+    options?: RequestOptions
+  ): Promise<Snapshot> {
+    return this.request
+      .get(`/snapshots/${snapshotId}`, options)
       .then(response => response.data.snapshot);
   }
 
@@ -60,7 +90,19 @@ export class SnapshotService {
    * await client.snapshots.deleteSnapshot('snapshot-id');
    * ```
    */
-  public deleteSnapshot(snapshotId: string): Promise<void> {
-    return request.delete(`/snapshots/${snapshotId}`).then(() => undefined);
+  public deleteSnapshot(
+    snapshotId: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/snapshots/${snapshotId}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  private snapshotsUrl(resourceType?: SnapshotType): string {
+    if (resourceType && resourceType !== 'all') {
+      return `/snapshots?resource_type=${resourceType}`;
+    }
+    return `/snapshots`;
   }
 }
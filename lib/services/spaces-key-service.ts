@@ -0,0 +1,194 @@
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+
+import { SpacesKey, SpacesKeyRequest } from '../models/spaces.ts';
+
+export class SpacesKeyService {
+  constructor(private request: RequestTool) {}
+
+  /**
+   * Get all Spaces access keys on your account
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const keys = await client.spacesKeys.getAllSpacesKeys();
+   * ```
+   */
+  public getAllSpacesKeys(options?: RequestOptions): Promise<SpacesKey[]> {
+    return this.request.all(`/spaces/keys`, 'keys', options);
+  }
+
+  /**
+   * Iterate over every Spaces access key on your account, following
+   * pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const key of client.spacesKeys.listSpacesKeys()) {
+   *   console.log(key);
+   * }
+   * ```
+   */
+  public listSpacesKeys(
+    options?: RequestOptions
+  ): AsyncIterableIterator<SpacesKey> {
+    return this.request.paginate(`/spaces/keys`, 'keys', options);
+  }
+
+  /**
+   * Create a new Spaces access key granting access to some or all buckets.
+   * The secret key is only returned by this call.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const key = await client.spacesKeys.createSpacesKey({
+   *   name: 'my-app',
+   *   grants: [{ bucket: 'my-app-assets', permission: 'readwrite' }]
+   * });
+   * const endpoint = await client.cdn.createEndpoint({
+   *   origin: 'my-app-assets.nyc3.digitaloceanspaces.com'
+   * });
+   * ```
+   */
+  public async createSpacesKey(
+    key: SpacesKeyRequest,
+    options?: RequestOptions
+  ): Promise<SpacesKey> {
+    if (!this.spacesKeyIsValid(key)) {
+      throw new Error('Required fields missing from Spaces Key Object');
+    }
+    return await this.request
+      .post(`/spaces/keys`, key, options)
+      .then(response => response.data.key);
+  }
+
+  /**
+   * Get an existing Spaces access key, without its secret
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const key = await client.spacesKeys.getSpacesKey('DOACCESSKEY');
+   * ```
+   */
+  public getSpacesKey(
+    accessKey: string,
+    options?: RequestOptions
+  ): Promise<SpacesKey> {
+    return this.request
+      .get(`/spaces/keys/${accessKey}`, options)
+      .then(response => response.data.key);
+  }
+
+  /**
+   * Replace the name and grants of an existing Spaces access key
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const key = await client.spacesKeys.updateSpacesKey('DOACCESSKEY', {
+   *   name: 'my-app',
+   *   grants: [{ bucket: 'my-app-assets', permission: 'read' }]
+   * });
+   * ```
+   */
+  public async updateSpacesKey(
+    accessKey: string,
+    key: SpacesKeyRequest,
+    options?: RequestOptions
+  ): Promise<SpacesKey> {
+    if (!this.spacesKeyIsValid(key)) {
+      throw new Error('Required fields missing from Spaces Key Object');
+    }
+    return await this.request
+      .put(`/spaces/keys/${accessKey}`, key, options)
+      .then(response => response.data.key);
+  }
+
+  /**
+   * Update a subset of the attributes of an existing Spaces access key
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const key = await client.spacesKeys.patchSpacesKey('DOACCESSKEY', {
+   *   name: 'my-renamed-app'
+   * });
+   * ```
+   */
+  public patchSpacesKey(
+    accessKey: string,
+    key: Partial<SpacesKeyRequest>,
+    options?: RequestOptions
+  ): Promise<SpacesKey> {
+    return this.request
+      .patch(`/spaces/keys/${accessKey}`, key, options)
+      .then(response => response.data.key);
+  }
+
+  /**
+   * Rotate a Spaces access key: create a new key with the same name and
+   * grants, then revoke the existing one. The returned key holds the new
+   * secret.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const key = await client.spacesKeys.rotateSpacesKey('DOACCESSKEY');
+   * console.log(key.access_key, key.secret_key);
+   * ```
+   */
+  public async rotateSpacesKey(
+    accessKey: string,
+    options?: RequestOptions
+  ): Promise<SpacesKey> {
+    const { name, grants } = await this.getSpacesKey(accessKey, options);
+    const key = await this.createSpacesKey({ name, grants }, options);
+    await this.deleteSpacesKey(accessKey, options);
+    return key;
+  }
+
+  /**
+   * Revoke a Spaces access key
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.spacesKeys.deleteSpacesKey('DOACCESSKEY');
+   * ```
+   */
+  public deleteSpacesKey(
+    accessKey: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/spaces/keys/${accessKey}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  ////////// Validation Methods //////////
+  private spacesKeyIsValid(key: SpacesKeyRequest): boolean {
+    if (!key.name || !key.grants) {
+      return false;
+    }
+    return true;
+  }
+}
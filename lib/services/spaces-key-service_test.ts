@@ -0,0 +1,75 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from '../digitalocean.ts';
+import { StubFetch, StubHandler } from '../testing/stub-fetch.ts';
+
+const GRANTS = [{ bucket: 'my-bucket', permission: 'readwrite' }] as const;
+
+function setup(handler: StubHandler) {
+  const stub = new StubFetch(handler);
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+  return { stub, client };
+}
+
+Deno.test('Spaces keys are created with their grants', async () => {
+  const { stub, client } = setup(() =>
+    Response.json(
+      { key: { name: 'ci', access_key: 'DONEW', secret_key: 'secret' } },
+      { status: 201 }
+    )
+  );
+
+  const key = await client.spacesKeys.createSpacesKey({
+    name: 'ci',
+    grants: [...GRANTS]
+  });
+  assertEquals(key.secret_key, 'secret');
+  assertEquals(await stub.requests[0].json(), { name: 'ci', grants: GRANTS });
+});
+
+Deno.test('invalid Spaces keys reject without a request', async () => {
+  const { stub, client } = setup(() => Response.json({}));
+
+  await assertRejects(
+    () => client.spacesKeys.createSpacesKey({ name: 'ci' } as any),
+    Error,
+    'Required fields missing from Spaces Key Object'
+  );
+  await assertRejects(
+    () => client.spacesKeys.updateSpacesKey('DOOLD', { grants: [] } as any),
+    Error,
+    'Required fields missing from Spaces Key Object'
+  );
+  assertEquals(stub.requests.length, 0);
+});
+
+Deno.test(
+  'rotating a key recreates it before revoking the old one',
+  async () => {
+    const { stub, client } = setup(request =>
+      request.method === 'GET'
+        ? Response.json({
+            key: { name: 'ci', access_key: 'DOOLD', grants: GRANTS }
+          })
+        : request.method === 'POST'
+        ? Response.json(
+            { key: { name: 'ci', access_key: 'DONEW', secret_key: 'secret' } },
+            { status: 201 }
+          )
+        : new Response(null, { status: 204 })
+    );
+
+    const key = await client.spacesKeys.rotateSpacesKey('DOOLD');
+    assertEquals(key.access_key, 'DONEW');
+    assertEquals(
+      stub.requests.map(
+        request => `${request.method} ${new URL(request.url).pathname}`
+      ),
+      [
+        'GET /v2/spaces/keys/DOOLD',
+        'POST /v2/spaces/keys',
+        'DELETE /v2/spaces/keys/DOOLD'
+      ]
+    );
+    assertEquals(await stub.requests[1].json(), { name: 'ci', grants: GRANTS });
+  }
+);
@@ -0,0 +1,791 @@
+import { RequestOptions } from '../request-tool.ts';
+import { createS3Error, SpacesCall, SpacesTool } from '../spaces-tool.ts';
+import {
+  escapeXml,
+  parseXml,
+  XmlElement,
+  xmlChild,
+  xmlChildren,
+  xmlText
+} from '../xml.ts';
+
+import {
+  SpacesAccessControlPolicy,
+  SpacesAcl,
+  SpacesBody,
+  SpacesBucket,
+  SpacesGrant,
+  SpacesListObjectsOptions,
+  SpacesMultipartUpload,
+  SpacesObject,
+  SpacesObjectHead,
+  SpacesObjectList,
+  SpacesPresignOptions,
+  SpacesPutObjectOptions,
+  SpacesUploadedPart,
+  SpacesUploadPartOptions
+} from '../models/spaces.ts';
+
+export class SpacesService {
+  constructor(private spaces: SpacesTool) {}
+
+  /**
+   * Get all buckets owned by the access key in the configured region
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const buckets = await client.spaces.getAllBuckets();
+   * ```
+   */
+  public async getAllBuckets(
+    options?: RequestOptions
+  ): Promise<SpacesBucket[]> {
+    const result = await this.sendXml({ method: 'GET' }, options);
+    return xmlChildren(xmlChild(result, 'Buckets'), 'Bucket').map(bucket => ({
+      name: xmlText(bucket, 'Name') ?? '',
+      creation_date: xmlText(bucket, 'CreationDate') ?? ''
+    }));
+  }
+
+  /**
+   * Create a new bucket
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * await client.spaces.createBucket('my-bucket', 'public-read');
+   * ```
+   */
+  public createBucket(
+    bucket: string,
+    acl?: SpacesAcl,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.spaces
+      .send({ method: 'PUT', bucket, headers: { 'x-amz-acl': acl } }, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Delete an empty bucket
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * await client.spaces.deleteBucket('my-bucket');
+   * ```
+   */
+  public deleteBucket(bucket: string, options?: RequestOptions): Promise<void> {
+    return this.spaces
+      .send({ method: 'DELETE', bucket }, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Get the access control policy of a bucket
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const policy = await client.spaces.getBucketAcl('my-bucket');
+   * ```
+   */
+  public async getBucketAcl(
+    bucket: string,
+    options?: RequestOptions
+  ): Promise<SpacesAccessControlPolicy> {
+    const result = await this.sendXml(
+      { method: 'GET', bucket, query: { acl: '' } },
+      options
+    );
+    return this.toAccessControlPolicy(result);
+  }
+
+  /**
+   * Apply a canned ACL to a bucket
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * await client.spaces.setBucketAcl('my-bucket', 'private');
+   * ```
+   */
+  public setBucketAcl(
+    bucket: string,
+    acl: SpacesAcl,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.spaces
+      .send(
+        {
+          method: 'PUT',
+          bucket,
+          query: { acl: '' },
+          headers: { 'x-amz-acl': acl }
+        },
+        options
+      )
+      .then(() => undefined);
+  }
+
+  /**
+   * Get a single page of the objects of a bucket, e.g. to browse "folders"
+   * with a delimiter
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const page = await client.spaces.getObjectList('my-bucket', {
+   *   prefix: 'images/',
+   *   delimiter: '/'
+   * });
+   * console.log(page.common_prefixes);
+   * ```
+   */
+  public async getObjectList(
+    bucket: string,
+    list: SpacesListObjectsOptions = {},
+    options?: RequestOptions
+  ): Promise<SpacesObjectList> {
+    const result = await this.sendXml(
+      {
+        method: 'GET',
+        bucket,
+        query: {
+          'list-type': '2',
+          prefix: list.prefix,
+          delimiter: list.delimiter,
+          'max-keys': list.max_keys?.toString(),
+          'continuation-token': list.continuation_token,
+          'start-after': list.start_after
+        }
+      },
+      options
+    );
+    return {
+      objects: xmlChildren(result, 'Contents').map(object => ({
+        key: xmlText(object, 'Key') ?? '',
+        size: Number(xmlText(object, 'Size') ?? 0),
+        etag: xmlText(object, 'ETag') ?? '',
+        last_modified: xmlText(object, 'LastModified') ?? '',
+        storage_class: xmlText(object, 'StorageClass')
+      })),
+      common_prefixes: xmlChildren(result, 'CommonPrefixes').map(
+        prefix => xmlText(prefix, 'Prefix') ?? ''
+      ),
+      is_truncated: xmlText(result, 'IsTruncated') === 'true',
+      next_continuation_token: xmlText(result, 'NextContinuationToken')
+    };
+  }
+
+  /**
+   * Get all objects of a bucket, optionally limited to keys starting with a
+   * prefix
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const objects = await client.spaces.getAllObjects('my-bucket', 'images/');
+   * ```
+   */
+  public async getAllObjects(
+    bucket: string,
+    prefix?: string,
+    options?: RequestOptions
+  ): Promise<SpacesObject[]> {
+    const objects: SpacesObject[] = [];
+    for await (const object of this.listObjects(bucket, prefix, options)) {
+      objects.push(object);
+    }
+    return objects;
+  }
+
+  /**
+   * Iterate over every object of a bucket, following continuation tokens
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * for await (const object of client.spaces.listObjects('my-bucket')) {
+   *   console.log(object.key, object.size);
+   * }
+   * ```
+   */
+  public async *listObjects(
+    bucket: string,
+    prefix?: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<SpacesObject> {
+    let token: string | undefined;
+    do {
+      const page = await this.getObjectList(
+        bucket,
+        { prefix, continuation_token: token },
+        options
+      );
+      yield* page.objects;
+      token = page.is_truncated ? page.next_continuation_token : undefined;
+    } while (token);
+  }
+
+  /**
+   * Upload an object, replacing any object stored under the same key. A
+   * `ReadableStream` body needs its size as `content_length`.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const etag = await client.spaces.putObject('my-bucket', 'hello.txt', 'Hello!', {
+   *   content_type: 'text/plain',
+   *   acl: 'public-read'
+   * });
+   *
+   * const file = await Deno.open('backup.tar');
+   * const { size } = await file.stat();
+   * await client.spaces.putObject('my-bucket', 'backup.tar', file.readable, {
+   *   content_length: size
+   * });
+   * ```
+   */
+  public async putObject(
+    bucket: string,
+    key: string,
+    body: SpacesBody,
+    put: SpacesPutObjectOptions = {},
+    options?: RequestOptions
+  ): Promise<string> {
+    if (!this.contentLengthIsValid(body, put.content_length)) {
+      throw new Error('content_length is required to upload a stream');
+    }
+    return await this.spaces
+      .send(
+        {
+          method: 'PUT',
+          bucket,
+          key,
+          body,
+          headers: {
+            ...this.objectHeaders(put),
+            'content-length': put.content_length?.toString()
+          }
+        },
+        options
+      )
+      .then(response => response.headers.get('etag') ?? '');
+  }
+
+  /**
+   * Download the content of an object
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const bytes = await client.spaces.getObject('my-bucket', 'hello.txt');
+   * console.log(new TextDecoder().decode(bytes));
+   * ```
+   */
+  public getObject(
+    bucket: string,
+    key: string,
+    options?: RequestOptions
+  ): Promise<Uint8Array> {
+    return this.spaces
+      .send({ method: 'GET', bucket, key }, options)
+      .then(response => response.arrayBuffer())
+      .then(buffer => new Uint8Array(buffer));
+  }
+
+  /**
+   * Stream the content of an object, e.g. to write large objects to a file
+   * without buffering them
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const stream = await client.spaces.getObjectStream('my-bucket', 'backup.tar');
+   * const file = await Deno.create('backup.tar');
+   * await stream.pipeTo(file.writable);
+   * ```
+   */
+  public getObjectStream(
+    bucket: string,
+    key: string,
+    options?: RequestOptions
+  ): Promise<ReadableStream<Uint8Array>> {
+    return this.spaces
+      .send({ method: 'GET', bucket, key }, options)
+      .then(response => response.body ?? new Blob().stream());
+  }
+
+  /**
+   * Get the size, type and metadata of an object without downloading it
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const head = await client.spaces.headObject('my-bucket', 'hello.txt');
+   * console.log(head.content_length);
+   * ```
+   */
+  public headObject(
+    bucket: string,
+    key: string,
+    options?: RequestOptions
+  ): Promise<SpacesObjectHead> {
+    return this.spaces
+      .send({ method: 'HEAD', bucket, key }, options)
+      .then(({ headers }) => {
+        const metadata: Record<string, string> = {};
+        headers.forEach((value, name) => {
+          if (name.startsWith('x-amz-meta-')) {
+            metadata[name.slice('x-amz-meta-'.length)] = value;
+          }
+        });
+        return {
+          content_type: headers.get('content-type') ?? undefined,
+          content_length: Number(headers.get('content-length') ?? 0),
+          etag: headers.get('etag') ?? '',
+          last_modified: headers.get('last-modified') ?? undefined,
+          cache_control: headers.get('cache-control') ?? undefined,
+          metadata
+        };
+      });
+  }
+
+  /**
+   * Delete an object
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * await client.spaces.deleteObject('my-bucket', 'hello.txt');
+   * ```
+   */
+  public deleteObject(
+    bucket: string,
+    key: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.spaces
+      .send({ method: 'DELETE', bucket, key }, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Get the access control policy of an object
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const policy = await client.spaces.getObjectAcl('my-bucket', 'hello.txt');
+   * ```
+   */
+  public async getObjectAcl(
+    bucket: string,
+    key: string,
+    options?: RequestOptions
+  ): Promise<SpacesAccessControlPolicy> {
+    const result = await this.sendXml(
+      { method: 'GET', bucket, key, query: { acl: '' } },
+      options
+    );
+    return this.toAccessControlPolicy(result);
+  }
+
+  /**
+   * Apply a canned ACL to an object
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * await client.spaces.setObjectAcl('my-bucket', 'hello.txt', 'public-read');
+   * ```
+   */
+  public setObjectAcl(
+    bucket: string,
+    key: string,
+    acl: SpacesAcl,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.spaces
+      .send(
+        {
+          method: 'PUT',
+          bucket,
+          key,
+          query: { acl: '' },
+          headers: { 'x-amz-acl': acl }
+        },
+        options
+      )
+      .then(() => undefined);
+  }
+
+  /**
+   * Create a url granting temporary access to an object without credentials,
+   * e.g. to let a browser download or upload a single file
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const url = await client.spaces.getPresignedUrl('my-bucket', 'upload.zip', {
+   *   method: 'PUT',
+   *   expires_in: 900
+   * });
+   * ```
+   */
+  public async getPresignedUrl(
+    bucket: string,
+    key: string,
+    presign: SpacesPresignOptions = {}
+  ): Promise<string> {
+    const { method = 'GET', expires_in = 3600 } = presign;
+    if (expires_in < 1 || expires_in > 604800) {
+      throw new Error('Presigned urls must expire within 1 to 604800 seconds');
+    }
+    return await this.spaces.presign(method, bucket, key, expires_in);
+  }
+
+  /**
+   * Start a multipart upload, to upload a large object in parts of at least
+   * 5 MiB (except the last one)
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const upload = await client.spaces.createMultipartUpload('my-bucket', 'backup.tar');
+   * const parts = [];
+   * for (const [index, chunk] of chunks.entries()) {
+   *   parts.push(
+   *     await client.spaces.uploadPart('my-bucket', 'backup.tar', upload.upload_id, index + 1, chunk)
+   *   );
+   * }
+   * await client.spaces.completeMultipartUpload('my-bucket', 'backup.tar', upload.upload_id, parts);
+   * ```
+   */
+  public async createMultipartUpload(
+    bucket: string,
+    key: string,
+    put: SpacesPutObjectOptions = {},
+    options?: RequestOptions
+  ): Promise<SpacesMultipartUpload> {
+    const result = await this.sendXml(
+      {
+        method: 'POST',
+        bucket,
+        key,
+        query: { uploads: '' },
+        headers: this.objectHeaders(put)
+      },
+      options
+    );
+    return {
+      upload_id: xmlText(result, 'UploadId') ?? '',
+      key: xmlText(result, 'Key') ?? key
+    };
+  }
+
+  /**
+   * Upload one part of a multipart upload, part numbers range from 1 to
+   * 10000. A `ReadableStream` body needs its size as `content_length`.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const part = await client.spaces
+   *    .uploadPart('my-bucket', 'backup.tar', 'upload-id', 1, chunk);
+   * ```
+   */
+  public async uploadPart(
+    bucket: string,
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: SpacesBody,
+    part: SpacesUploadPartOptions = {},
+    options?: RequestOptions
+  ): Promise<SpacesUploadedPart> {
+    if (!this.contentLengthIsValid(body, part.content_length)) {
+      throw new Error('content_length is required to upload a stream');
+    }
+    return await this.spaces
+      .send(
+        {
+          method: 'PUT',
+          bucket,
+          key,
+          body,
+          query: { partNumber: String(partNumber), uploadId },
+          headers: { 'content-length': part.content_length?.toString() }
+        },
+        options
+      )
+      .then(response => ({
+        part_number: partNumber,
+        etag: response.headers.get('etag') ?? ''
+      }));
+  }
+
+  /**
+   * Get the parts uploaded so far to a multipart upload
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const parts = await client.spaces
+   *    .getUploadedParts('my-bucket', 'backup.tar', 'upload-id');
+   * ```
+   */
+  public async getUploadedParts(
+    bucket: string,
+    key: string,
+    uploadId: string,
+    options?: RequestOptions
+  ): Promise<SpacesUploadedPart[]> {
+    const parts: SpacesUploadedPart[] = [];
+    let marker: string | undefined;
+    do {
+      const result = await this.sendXml(
+        {
+          method: 'GET',
+          bucket,
+          key,
+          query: { uploadId, 'part-number-marker': marker }
+        },
+        options
+      );
+      for (const part of xmlChildren(result, 'Part')) {
+        parts.push({
+          part_number: Number(xmlText(part, 'PartNumber')),
+          etag: xmlText(part, 'ETag') ?? '',
+          size: Number(xmlText(part, 'Size') ?? 0),
+          last_modified: xmlText(part, 'LastModified')
+        });
+      }
+      marker =
+        xmlText(result, 'IsTruncated') === 'true'
+          ? xmlText(result, 'NextPartNumberMarker')
+          : undefined;
+    } while (marker);
+    return parts;
+  }
+
+  /**
+   * Assemble the uploaded parts into the final object
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * const etag = await client.spaces.completeMultipartUpload(
+   *   'my-bucket',
+   *   'backup.tar',
+   *   'upload-id',
+   *   [{ part_number: 1, etag: '"etag-1"' }, { part_number: 2, etag: '"etag-2"' }]
+   * );
+   * ```
+   */
+  public async completeMultipartUpload(
+    bucket: string,
+    key: string,
+    uploadId: string,
+    parts: SpacesUploadedPart[],
+    options?: RequestOptions
+  ): Promise<string> {
+    const body =
+      '<CompleteMultipartUpload>' +
+      [...parts]
+        .sort((a, b) => a.part_number - b.part_number)
+        .map(
+          part =>
+            `<Part><PartNumber>${part.part_number}</PartNumber>` +
+            `<ETag>${escapeXml(part.etag)}</ETag></Part>`
+        )
+        .join('') +
+      '</CompleteMultipartUpload>';
+    const response = await this.spaces.send(
+      {
+        method: 'POST',
+        bucket,
+        key,
+        body,
+        query: { uploadId },
+        headers: { 'content-type': 'application/xml' }
+      },
+      options
+    );
+    // the request can fail after a 200 status, with an error in the body
+    const text = await response.text();
+    const result = parseXml(text);
+    if (result.name === 'Error') {
+      throw createS3Error('POST', this.spaces.url(bucket, key), response, text);
+    }
+    return xmlText(result, 'ETag') ?? '';
+  }
+
+  /**
+   * Abort a multipart upload, discarding the parts uploaded so far
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key', undefined, {
+   *   spaces: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' }
+   * });
+   * await client.spaces
+   *    .abortMultipartUpload('my-bucket', 'backup.tar', 'upload-id');
+   * ```
+   */
+  public abortMultipartUpload(
+    bucket: string,
+    key: string,
+    uploadId: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.spaces
+      .send({ method: 'DELETE', bucket, key, query: { uploadId } }, options)
+      .then(() => undefined);
+  }
+
+  private sendXml(
+    call: SpacesCall,
+    options?: RequestOptions
+  ): Promise<XmlElement> {
+    return this.spaces
+      .send(call, options)
+      .then(response => response.text())
+      .then(text => parseXml(text));
+  }
+
+  private objectHeaders(
+    put: SpacesPutObjectOptions
+  ): Record<string, string | undefined> {
+    const headers: Record<string, string | undefined> = {
+      'content-type': put.content_type,
+      'cache-control': put.cache_control,
+      'content-disposition': put.content_disposition,
+      'x-amz-acl': put.acl
+    };
+    for (const [name, value] of Object.entries(put.metadata ?? {})) {
+      headers[`x-amz-meta-${name.toLowerCase()}`] = value;
+    }
+    return headers;
+  }
+
+  // streams are sent with their size rather than chunked, which S3 rejects
+  private contentLengthIsValid(
+    body: SpacesBody,
+    contentLength?: number
+  ): boolean {
+    return !(body instanceof ReadableStream) || contentLength !== undefined;
+  }
+
+  private toAccessControlPolicy(result: XmlElement): SpacesAccessControlPolicy {
+    const owner = xmlChild(result, 'Owner');
+    return {
+      owner: {
+        id: xmlText(owner, 'ID') ?? '',
+        display_name: xmlText(owner, 'DisplayName')
+      },
+      grants: xmlChildren(xmlChild(result, 'AccessControlList'), 'Grant').map(
+        grant => {
+          const grantee = xmlChild(grant, 'Grantee');
+          return {
+            grantee: {
+              type: (grantee?.attributes['xsi:type'] ??
+                'CanonicalUser') as SpacesGrant['grantee']['type'],
+              id: xmlText(grantee, 'ID'),
+              display_name: xmlText(grantee, 'DisplayName'),
+              uri: xmlText(grantee, 'URI')
+            },
+            permission: xmlText(
+              grant,
+              'Permission'
+            ) as SpacesGrant['permission']
+          };
+        }
+      )
+    };
+  }
+}
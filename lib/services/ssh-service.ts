@@ -1,9 +1,9 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 
 import { SshKey } from '../models/ssh-key.ts';
 
 export class SshService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Get all ssh keys on account
@@ -16,10 +16,25 @@ export class SshService {
    * const keys = await client.ssh.getAllKeys();
    * ```
    */
-  public getAllKeys(): Promise<SshKey[]> {
-    return request
-      .get(`/account/keys`)
-      .then(response => response.data.ssh_keys);
+  public getAllKeys(options?: RequestOptions): Promise<SshKey[]> {
+    return this.request.all(`/account/keys`, 'ssh_keys', options);
+  }
+
+  /**
+   * Iterate over every SSH key on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const sshKey of client.ssh.listKeys()) {
+   *   console.log(sshKey);
+   * }
+   * ```
+   */
+  public listKeys(options?: RequestOptions): AsyncIterableIterator<SshKey> {
+    return this.request.paginate(`/account/keys`, 'ssh_keys', options);
   }
 
   /**
@@ -37,9 +52,9 @@ export class SshService {
    * const key = await client.ssh.createNewKey(request);
    * ```
    */
-  public createNewKey(key: SshKey): Promise<SshKey> {
-    return request
-      .post(`/account/keys`, key)
+  public createNewKey(key: SshKey, options?: RequestOptions): Promise<SshKey> {
+    return this.request
+      .post(`/account/keys`, key, options)
       .then(response => response.data.ssh_key);
   }
 
@@ -54,9 +69,12 @@ export class SshService {
    * const key = await client.ssh.getExistingKey('id-or-fingerprint');
    * ```
    */
-  public getExistingKey(idOrFingerprint: string): Promise<SshKey> {
-    return request
-      .get(`/account/keys/${idOrFingerprint}`)
+  public getExistingKey(
+    idOrFingerprint: string,
+    options?: RequestOptions
+  ): Promise<SshKey> {
+    return this.request
+      .get(`/account/keys/${idOrFingerprint}`, options)
       .then(response => response.data.ssh_key);
   }
 
@@ -74,9 +92,13 @@ export class SshService {
    * const key = await client.ssh.updateKey('id-or-fingerprint', request);
    * ```
    */
-  public updateKey(idOrFingerprint: string, key: SshKey): Promise<SshKey> {
-    return request
-      .put(`/account/keys/${idOrFingerprint}`, key)
+  public updateKey(
+    idOrFingerprint: string,
+    key: SshKey,
+    options?: RequestOptions
+  ): Promise<SshKey> {
+    return this.request
+      .put(`/account/keys/${idOrFingerprint}`, key, options)
       .then(response => response.data.ssh_key);
   }
 
@@ -91,9 +113,12 @@ export class SshService {
    * await client.ssh.deleteKey('id-or-fingerprint');
    * ```
    */
-  public deleteKey(idOrFingerprint: string): Promise<void> {
-    return request
-      .delete(`/account/keys/${idOrFingerprint}`)
+  public deleteKey(
+    idOrFingerprint: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/account/keys/${idOrFingerprint}`, undefined, options)
       .then(() => undefined);
   }
 }
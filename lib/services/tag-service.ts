@@ -1,9 +1,9 @@
-import { request } from '../request-tool.ts';
+import { RequestOptions, RequestTool } from '../request-tool.ts';
 
 import { Tag } from '../models/tag.ts';
 
 export class TagService {
-  constructor() {}
+  constructor(private request: RequestTool) {}
 
   /**
    * Create new tag
@@ -16,8 +16,10 @@ export class TagService {
    * const tag = await client.tags.createTag('new-tag');
    * ```
    */
-  public createTag(name: string): Promise<Tag> {
-    return request.post(`/tags`, { name }).then(response => response.data.tag);
+  public createTag(name: string, options?: RequestOptions): Promise<Tag> {
+    return this.request
+      .post(`/tags`, { name }, options)
+      .then(response => response.data.tag);
   }
 
   /**
@@ -31,8 +33,25 @@ export class TagService {
    * const tags = await client.tags.getTags();
    * ```
    */
-  public getTags(): Promise<Tag> {
-    return request.get(`/tags`).then(response => response.data.tags);
+  public getTags(options?: RequestOptions): Promise<Tag[]> {
+    return this.request.all(`/tags`, 'tags', options);
+  }
+
+  /**
+   * Iterate over every tag on the account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const tag of client.tags.listTags()) {
+   *   console.log(tag);
+   * }
+   * ```
+   */
+  public listTags(options?: RequestOptions): AsyncIterableIterator<Tag> {
+    return this.request.paginate(`/tags`, 'tags', options);
   }
 
   /**
@@ -46,8 +65,10 @@ export class TagService {
    * const tag = await client.tags.getTagByName('tag-name');
    * ```
    */
-  public getTagByName(tagName: string): Promise<Tag> {
-    return request.get(`/tags/${tagName}`).then(response => response.data.tag);
+  public getTagByName(tagName: string, options?: RequestOptions): Promise<Tag> {
+    return this.request
+      .get(`/tags/${tagName}`, options)
+      .then(response => response.data.tag);
   }
 
   /**
@@ -66,13 +87,17 @@ export class TagService {
    * await client.tags.tagResources('tag-name', resources);
    * ```
    */
-  public tagResources(tagName: string, resourceIds: string[]): Promise<void> {
+  public tagResources(
+    tagName: string,
+    resourceIds: string[],
+    options?: RequestOptions
+  ): Promise<void> {
     const resources = resourceIds.map(id => ({
       resource_id: id,
       resource_type: 'droplet'
     }));
-    return request
-      .post(`/tags/${tagName}/resources`, { resources })
+    return this.request
+      .post(`/tags/${tagName}/resources`, { resources }, options)
       .then(() => undefined);
   }
 
@@ -94,16 +119,15 @@ export class TagService {
    */
   public removeTagFromResources(
     tagName: string,
-    resourceIds: string[]
+    resourceIds: string[],
+    options?: RequestOptions
   ): Promise<void> {
     const resources = resourceIds.map(id => ({
       resource_id: id,
       resource_type: 'droplet'
     }));
-    return request
-      .delete(`/tags/${tagName}/resources`, {
-        data: { resources }
-      })
+    return this.request
+      .delete(`/tags/${tagName}/resources`, { resources }, options)
       .then(() => undefined);
   }
 
@@ -118,7 +142,9 @@ export class TagService {
    * await client.tags.deleteTag('tag-name');
    * ```
    */
-  public deleteTag(tagName: string): Promise<void> {
-    return request.delete(`/tags/${tagName}`).then(() => undefined);
+  public deleteTag(tagName: string, options?: RequestOptions): Promise<void> {
+    return this.request
+      .delete(`/tags/${tagName}`, undefined, options)
+      .then(() => undefined);
   }
 }
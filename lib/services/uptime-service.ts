@@ -0,0 +1,330 @@
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+
+import {
+  UptimeAlert,
+  UptimeCheck,
+  UptimeCheckState
+} from '../models/uptime.ts';
+
+export class UptimeService {
+  constructor(private request: RequestTool) {}
+
+  /**
+   * Get all uptime checks on your account
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const checks = await client.uptime.getAllChecks();
+   * ```
+   */
+  public getAllChecks(options?: RequestOptions): Promise<UptimeCheck[]> {
+    return this.request.all(`/uptime/checks`, 'checks', options);
+  }
+
+  /**
+   * Iterate over every uptime check on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const check of client.uptime.listChecks()) {
+   *   console.log(check);
+   * }
+   * ```
+   */
+  public listChecks(
+    options?: RequestOptions
+  ): AsyncIterableIterator<UptimeCheck> {
+    return this.request.paginate(`/uptime/checks`, 'checks', options);
+  }
+
+  /**
+   * Create a new uptime check
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const check = await client.uptime.createCheck({
+   *   name: 'Landing page check',
+   *   type: 'https',
+   *   target: 'https://www.landingpage.com',
+   *   regions: ['us_east', 'eu_west'],
+   *   enabled: true
+   * });
+   * ```
+   */
+  public async createCheck(
+    check: UptimeCheck,
+    options?: RequestOptions
+  ): Promise<UptimeCheck> {
+    if (!this.checkIsValid(check)) {
+      throw new Error('Required fields missing from Uptime Check Object');
+    }
+    return await this.request
+      .post(`/uptime/checks`, check, options)
+      .then(response => response.data.check);
+  }
+
+  /**
+   * Get an existing uptime check
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const check = await client.uptime.getCheck('check-id');
+   * ```
+   */
+  public getCheck(
+    checkId: string,
+    options?: RequestOptions
+  ): Promise<UptimeCheck> {
+    return this.request
+      .get(`/uptime/checks/${checkId}`, options)
+      .then(response => response.data.check);
+  }
+
+  /**
+   * Update an existing uptime check
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const check = await client.uptime.updateCheck('check-id', {
+   *   name: 'Landing page check',
+   *   type: 'https',
+   *   target: 'https://www.landingpage.com',
+   *   regions: ['us_east', 'us_west', 'eu_west', 'se_asia'],
+   *   enabled: false
+   * });
+   * ```
+   */
+  public async updateCheck(
+    checkId: string,
+    check: UptimeCheck,
+    options?: RequestOptions
+  ): Promise<UptimeCheck> {
+    if (!this.checkIsValid(check)) {
+      throw new Error('Required fields missing from Uptime Check Object');
+    }
+    return await this.request
+      .put(`/uptime/checks/${checkId}`, check, options)
+      .then(response => response.data.check);
+  }
+
+  /**
+   * Delete an uptime check and its alerts
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.uptime.deleteCheck('check-id');
+   * ```
+   */
+  public deleteCheck(checkId: string, options?: RequestOptions): Promise<void> {
+    return this.request
+      .delete(`/uptime/checks/${checkId}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Get the state of an uptime check in each region and its
+   * previous outage
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const state = await client.uptime.getCheckState('check-id');
+   * console.log(state.regions.us_east?.status);
+   * ```
+   */
+  public getCheckState(
+    checkId: string,
+    options?: RequestOptions
+  ): Promise<UptimeCheckState> {
+    return this.request
+      .get(`/uptime/checks/${checkId}/state`, options)
+      .then(response => response.data.state);
+  }
+
+  /**
+   * Get all alerts of an uptime check
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const alerts = await client.uptime.getAllAlerts('check-id');
+   * ```
+   */
+  public getAllAlerts(
+    checkId: string,
+    options?: RequestOptions
+  ): Promise<UptimeAlert[]> {
+    return this.request.all(
+      `/uptime/checks/${checkId}/alerts`,
+      'alerts',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every alert of an uptime check, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const alert of client.uptime.listAlerts('check-id')) {
+   *   console.log(alert);
+   * }
+   * ```
+   */
+  public listAlerts(
+    checkId: string,
+    options?: RequestOptions
+  ): AsyncIterableIterator<UptimeAlert> {
+    return this.request.paginate(
+      `/uptime/checks/${checkId}/alerts`,
+      'alerts',
+      options
+    );
+  }
+
+  /**
+   * Create a new alert for an uptime check, e.g. when latency from any
+   * region exceeds a threshold
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const alert = await client.uptime.createAlert('check-id', {
+   *   name: 'Landing page degraded performance',
+   *   type: 'latency',
+   *   threshold: 300,
+   *   comparison: 'greater_than',
+   *   notifications: {
+   *     email: ['bob@example.com'],
+   *     slack: [
+   *       { channel: '#alerts', url: 'https://hooks.slack.com/services/T1234/B1234/abc' }
+   *     ]
+   *   },
+   *   period: '2m'
+   * });
+   * ```
+   */
+  public async createAlert(
+    checkId: string,
+    alert: UptimeAlert,
+    options?: RequestOptions
+  ): Promise<UptimeAlert> {
+    if (!this.alertIsValid(alert)) {
+      throw new Error('Required fields missing from Uptime Alert Object');
+    }
+    return await this.request
+      .post(`/uptime/checks/${checkId}/alerts`, alert, options)
+      .then(response => response.data.alert);
+  }
+
+  /**
+   * Get an existing alert of an uptime check
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const alert = await client.uptime.getAlert('check-id', 'alert-id');
+   * ```
+   */
+  public getAlert(
+    checkId: string,
+    alertId: string,
+    options?: RequestOptions
+  ): Promise<UptimeAlert> {
+    return this.request
+      .get(`/uptime/checks/${checkId}/alerts/${alertId}`, options)
+      .then(response => response.data.alert);
+  }
+
+  /**
+   * Update an existing alert of an uptime check
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const alert = await client.uptime.getAlert('check-id', 'alert-id');
+   * alert.threshold = 500;
+   * const updated = await client.uptime.updateAlert('check-id', 'alert-id', alert);
+   * ```
+   */
+  public async updateAlert(
+    checkId: string,
+    alertId: string,
+    alert: UptimeAlert,
+    options?: RequestOptions
+  ): Promise<UptimeAlert> {
+    if (!this.alertIsValid(alert)) {
+      throw new Error('Required fields missing from Uptime Alert Object');
+    }
+    return await this.request
+      .put(`/uptime/checks/${checkId}/alerts/${alertId}`, alert, options)
+      .then(response => response.data.alert);
+  }
+
+  /**
+   * Delete an alert of an uptime check
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.uptime.deleteAlert('check-id', 'alert-id');
+   * ```
+   */
+  public deleteAlert(
+    checkId: string,
+    alertId: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    return this.request
+      .delete(`/uptime/checks/${checkId}/alerts/${alertId}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  ////////// Validation Methods //////////
+  private checkIsValid(check: UptimeCheck): boolean {
+    if (!check.name || !check.type || !check.target) {
+      return false;
+    }
+    return true;
+  }
+
+  private alertIsValid(alert: UptimeAlert): boolean {
+    if (!alert.name || !alert.type || !alert.notifications || !alert.period) {
+      return false;
+    }
+    return true;
+  }
+}
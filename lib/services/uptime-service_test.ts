@@ -0,0 +1,97 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from '../digitalocean.ts';
+import { StubFetch } from '../testing/stub-fetch.ts';
+
+const CHECK = {
+  name: 'Landing page check',
+  type: 'https',
+  target: 'https://www.landingpage.com',
+  regions: ['us_east', 'eu_west'],
+  enabled: true
+} as const;
+
+function setup(handler: () => Response) {
+  const stub = new StubFetch(handler);
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+  return { stub, client };
+}
+
+Deno.test('uptime checks are created with the given target', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ check: { ...CHECK, id: 'check-id' } }, { status: 201 })
+  );
+
+  const check = await client.uptime.createCheck({
+    ...CHECK,
+    regions: [...CHECK.regions]
+  });
+  assertEquals(check.id, 'check-id');
+  assertEquals(stub.requests[0].method, 'POST');
+  assertEquals(await stub.requests[0].json(), CHECK);
+});
+
+Deno.test(
+  'invalid uptime checks and alerts reject without a request',
+  async () => {
+    const { stub, client } = setup(() => Response.json({}));
+
+    await assertRejects(
+      () => client.uptime.createCheck({ ...CHECK, target: '' } as any),
+      Error,
+      'Required fields missing from Uptime Check Object'
+    );
+    await assertRejects(
+      () =>
+        client.uptime.updateCheck('check-id', { name: 'Landing page' } as any),
+      Error,
+      'Required fields missing from Uptime Check Object'
+    );
+    await assertRejects(
+      () => client.uptime.createAlert('check-id', { name: 'Down' } as any),
+      Error,
+      'Required fields missing from Uptime Alert Object'
+    );
+    assertEquals(stub.requests.length, 0);
+  }
+);
+
+Deno.test('uptime alerts are created under their check', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({ alert: { id: 'alert-id' } }, { status: 201 })
+  );
+
+  const alert = await client.uptime.createAlert('check-id', {
+    name: 'Landing page down',
+    type: 'down',
+    notifications: { email: ['bob@example.com'], slack: [] },
+    period: '2m'
+  });
+  assertEquals(alert.id, 'alert-id');
+  assertEquals(
+    new URL(stub.requests[0].url).pathname,
+    '/v2/uptime/checks/check-id/alerts'
+  );
+});
+
+Deno.test('check state is read per region', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({
+      state: {
+        regions: {
+          us_east: {
+            status: 'UP',
+            status_changed_at: '2022-03-17T22:28:51Z',
+            thirty_day_uptime_percentage: 97.99
+          }
+        }
+      }
+    })
+  );
+
+  const state = await client.uptime.getCheckState('check-id');
+  assertEquals(state.regions.us_east?.status, 'UP');
+  assertEquals(
+    new URL(stub.requests[0].url).pathname,
+    '/v2/uptime/checks/check-id/state'
+  );
+});
@@ -0,0 +1,245 @@
+import { RequestOptions, RequestTool } from '../request-tool.ts';
+
+import {
+  Vpc,
+  VpcMember,
+  VpcMemberResourceType,
+  VpcRequest
+} from '../models/vpc.ts';
+
+export class VpcService {
+  constructor(private request: RequestTool) {}
+
+  /**
+   * Get all VPCs on your account
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const vpcs = await client.vpcs.getAllVpcs();
+   * ```
+   */
+  public getAllVpcs(options?: RequestOptions): Promise<Vpc[]> {
+    return this.request.all(`/vpcs`, 'vpcs', options);
+  }
+
+  /**
+   * Iterate over every VPC on your account, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const vpc of client.vpcs.listVpcs()) {
+   *   console.log(vpc);
+   * }
+   * ```
+   */
+  public listVpcs(options?: RequestOptions): AsyncIterableIterator<Vpc> {
+    return this.request.paginate(`/vpcs`, 'vpcs', options);
+  }
+
+  /**
+   * Create a new VPC
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const request = {
+   *   name: 'env.prod-vpc',
+   *   description: 'VPC for production environment',
+   *   region: 'nyc1',
+   *   ip_range: '10.10.10.0/24'
+   * };
+   * const vpc = await client.vpcs.createVpc(request);
+   * ```
+   */
+  public async createVpc(
+    vpc: VpcRequest,
+    options?: RequestOptions
+  ): Promise<Vpc> {
+    if (!this.createVpcIsValid(vpc)) {
+      throw new Error('Required fields missing from VPC Object');
+    }
+    return await this.request
+      .post(`/vpcs`, vpc, options)
+      .then(response => response.data.vpc);
+  }
+
+  /**
+   * Get an existing VPC
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const vpc = await client.vpcs.getExistingVpc('vpc-id');
+   * ```
+   */
+  public getExistingVpc(id: string, options?: RequestOptions): Promise<Vpc> {
+    return this.request
+      .get(`/vpcs/${id}`, options)
+      .then(response => response.data.vpc);
+  }
+
+  /**
+   * Update all editable attributes of an existing VPC
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const request = {
+   *   name: 'env.prod-vpc',
+   *   description: 'VPC for production environment',
+   *   default: true
+   * };
+   * const vpc = await client.vpcs.updateVpc('vpc-id', request);
+   * ```
+   */
+  public async updateVpc(
+    id: string,
+    vpc: VpcRequest,
+    options?: RequestOptions
+  ): Promise<Vpc> {
+    if (!this.updateVpcIsValid(vpc)) {
+      throw new Error('Required fields missing from VPC Object');
+    }
+    return await this.request
+      .put(`/vpcs/${id}`, vpc, options)
+      .then(response => response.data.vpc);
+  }
+
+  /**
+   * Update a subset of the attributes of an existing VPC
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const vpc = await client.vpcs.patchVpc('vpc-id', {
+   *   description: 'Renamed VPC'
+   * });
+   * ```
+   */
+  public patchVpc(
+    id: string,
+    vpc: VpcRequest,
+    options?: RequestOptions
+  ): Promise<Vpc> {
+    return this.request
+      .patch(`/vpcs/${id}`, vpc, options)
+      .then(response => response.data.vpc);
+  }
+
+  /**
+   * Make an existing VPC the default for its region
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const vpc = await client.vpcs.setDefaultVpc('vpc-id');
+   * ```
+   */
+  public setDefaultVpc(id: string, options?: RequestOptions): Promise<Vpc> {
+    return this.patchVpc(id, { default: true }, options);
+  }
+
+  /**
+   * Delete an existing VPC. Default VPCs and VPCs with members cannot be
+   * deleted.
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * await client.vpcs.deleteVpc('vpc-id');
+   * ```
+   */
+  public deleteVpc(id: string, options?: RequestOptions): Promise<void> {
+    return this.request
+      .delete(`/vpcs/${id}`, undefined, options)
+      .then(() => undefined);
+  }
+
+  /**
+   * Get all resources in a VPC, optionally of a single resource type
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * const members = await client.vpcs.getVpcMembers('vpc-id', 'droplet');
+   * ```
+   */
+  public getVpcMembers(
+    id: string,
+    resourceType?: VpcMemberResourceType,
+    options?: RequestOptions
+  ): Promise<VpcMember[]> {
+    return this.request.all(
+      this.membersUrl(id, resourceType),
+      'members',
+      options
+    );
+  }
+
+  /**
+   * Iterate over every resource in a VPC, following pagination
+   *
+   * ### Example
+   * ```js
+   * import { DigitalOcean } from 'digitalocean-js';
+   *
+   * const client = new DigitalOcean('your-api-key');
+   * for await (const member of client.vpcs.listVpcMembers('vpc-id')) {
+   *   console.log(member);
+   * }
+   * ```
+   */
+  public listVpcMembers(
+    id: string,
+    resourceType?: VpcMemberResourceType,
+    options?: RequestOptions
+  ): AsyncIterableIterator<VpcMember> {
+    return this.request.paginate(
+      this.membersUrl(id, resourceType),
+      'members',
+      options
+    );
+  }
+
+  private membersUrl(id: string, resourceType?: VpcMemberResourceType): string {
+    if (resourceType) {
+      return `/vpcs/${id}/members?resource_type=${resourceType}`;
+    }
+    return `/vpcs/${id}/members`;
+  }
+
+  ////////// Validation Methods //////////
+  private createVpcIsValid(vpc: VpcRequest): boolean {
+    if (!vpc.name || !vpc.region) {
+      return false;
+    }
+    return true;
+  }
+
+  private updateVpcIsValid(vpc: VpcRequest): boolean {
+    if (!vpc.name) {
+      return false;
+    }
+    return true;
+  }
+}
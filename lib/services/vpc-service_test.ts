@@ -0,0 +1,77 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from '../digitalocean.ts';
+import { StubFetch } from '../testing/stub-fetch.ts';
+
+const VPC = {
+  id: '5a4981aa-9653-4bd1-bef5-d6bff52042e4',
+  urn: 'do:vpc:5a4981aa-9653-4bd1-bef5-d6bff52042e4',
+  name: 'env.prod-vpc',
+  description: 'VPC for production environment',
+  region: 'nyc1',
+  ip_range: '10.10.10.0/24',
+  default: false,
+  created_at: '2020-03-13T19:20:47.442049222Z'
+};
+
+function setup(handler = () => Response.json({ vpc: VPC })) {
+  const stub = new StubFetch(handler);
+  const client = new DigitalOcean('token', undefined, { fetch: stub.fetch });
+  return { stub, client };
+}
+
+Deno.test('createVpc posts the VPC', async () => {
+  const { stub, client } = setup();
+  const vpc = await client.vpcs.createVpc({
+    name: 'env.prod-vpc',
+    region: 'nyc1',
+    ip_range: '10.10.10.0/24'
+  });
+
+  assertEquals(vpc, VPC);
+  const [request] = stub.requests;
+  assertEquals(request.method, 'POST');
+  assertEquals(request.url, 'https://api.digitalocean.com/v2/vpcs');
+  assertEquals(await request.json(), {
+    name: 'env.prod-vpc',
+    region: 'nyc1',
+    ip_range: '10.10.10.0/24'
+  });
+});
+
+Deno.test('invalid VPCs reject without a request', async () => {
+  const { stub, client } = setup();
+  await assertRejects(
+    () => client.vpcs.createVpc({ name: 'no-region' }),
+    Error,
+    'Required fields missing from VPC Object'
+  );
+  await assertRejects(() => client.vpcs.updateVpc(VPC.id, {}), Error);
+  assertEquals(stub.requests.length, 0);
+});
+
+Deno.test('setDefaultVpc patches the default flag', async () => {
+  const { stub, client } = setup();
+  await client.vpcs.setDefaultVpc(VPC.id);
+
+  const [request] = stub.requests;
+  assertEquals(request.method, 'PATCH');
+  assertEquals(new URL(request.url).pathname, `/v2/vpcs/${VPC.id}`);
+  assertEquals(await request.json(), { default: true });
+});
+
+Deno.test('getVpcMembers filters by resource type', async () => {
+  const { stub, client } = setup(() =>
+    Response.json({
+      members: [{ urn: 'do:droplet:13457723', name: 'droplet-1' }],
+      links: {},
+      meta: { total: 1 }
+    })
+  );
+  const members = await client.vpcs.getVpcMembers(VPC.id, 'droplet');
+
+  assertEquals(members[0].name, 'droplet-1');
+  assertEquals(
+    new URL(stub.requests[0].url).search,
+    '?resource_type=droplet&per_page=200'
+  );
+});
@@ -0,0 +1,206 @@
+/**
+ * Access key pair used to sign S3 requests
+ */
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/**
+ * Payload hash sent when the body is not hashed, e.g. streams and presigned
+ * urls
+ */
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const SERVICE = 's3';
+const encoder = new TextEncoder();
+
+/**
+ * Sign a request with AWS Signature Version 4, returning a copy carrying the
+ * `Authorization`, `x-amz-date` and `x-amz-content-sha256` headers
+ *
+ * @ignore
+ */
+export async function signRequest(
+  request: Request,
+  credentials: SigV4Credentials,
+  region: string,
+  payloadHash: string,
+  date = new Date()
+): Promise<Request> {
+  const url = new URL(request.url);
+  const amzDate = toAmzDate(date);
+  const headers = new Headers(request.headers);
+  headers.set('x-amz-date', amzDate);
+  headers.set('x-amz-content-sha256', payloadHash);
+
+  const signed: Record<string, string> = { host: url.host };
+  headers.forEach((value, name) => {
+    if (
+      name.startsWith('x-amz-') ||
+      name === 'content-type' ||
+      name === 'content-md5'
+    ) {
+      signed[name] = value.trim().replace(/\s+/g, ' ');
+    }
+  });
+  const names = Object.keys(signed).sort();
+  const canonicalRequest = [
+    request.method,
+    canonicalPath(url),
+    canonicalQuery(url.searchParams),
+    names.map(name => `${name}:${signed[name]}\n`).join(''),
+    names.join(';'),
+    payloadHash
+  ].join('\n');
+
+  const scope = credentialScope(amzDate, region);
+  const signature = await sign(
+    credentials.secretAccessKey,
+    amzDate,
+    region,
+    canonicalRequest
+  );
+  headers.set(
+    'authorization',
+    `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${names.join(';')}, Signature=${signature}`
+  );
+  return new Request(request, { headers });
+}
+
+/**
+ * Build a url granting `method` access to `url` for `expiresIn` seconds
+ * without credentials, signed with query parameters
+ *
+ * @ignore
+ */
+export async function presignUrl(
+  method: string,
+  url: URL,
+  credentials: SigV4Credentials,
+  region: string,
+  expiresIn: number,
+  date = new Date()
+): Promise<string> {
+  const amzDate = toAmzDate(date);
+  const presigned = new URL(url);
+  const params = presigned.searchParams;
+  params.set('X-Amz-Algorithm', ALGORITHM);
+  params.set(
+    'X-Amz-Credential',
+    `${credentials.accessKeyId}/${credentialScope(amzDate, region)}`
+  );
+  params.set('X-Amz-Date', amzDate);
+  params.set('X-Amz-Expires', String(expiresIn));
+  params.set('X-Amz-SignedHeaders', 'host');
+
+  const canonicalRequest = [
+    method,
+    canonicalPath(presigned),
+    canonicalQuery(params),
+    `host:${presigned.host}\n`,
+    'host',
+    UNSIGNED_PAYLOAD
+  ].join('\n');
+  const signature = await sign(
+    credentials.secretAccessKey,
+    amzDate,
+    region,
+    canonicalRequest
+  );
+  params.set('X-Amz-Signature', signature);
+  return presigned.toString();
+}
+
+/**
+ * Hex encoded SHA-256 digest of a request body
+ *
+ * @ignore
+ */
+export async function sha256Hex(data: string | Uint8Array): Promise<string> {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  return toHex(await crypto.subtle.digest('SHA-256', bytes as BufferSource));
+}
+
+/**
+ * Percent-encode a value as required by SigV4 (RFC 3986 unreserved
+ * characters are kept as is)
+ *
+ * @ignore
+ */
+export function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+async function sign(
+  secretAccessKey: string,
+  amzDate: string,
+  region: string,
+  canonicalRequest: string
+): Promise<string> {
+  const stringToSign = [
+    ALGORITHM,
+    amzDate,
+    credentialScope(amzDate, region),
+    await sha256Hex(canonicalRequest)
+  ].join('\n');
+
+  let key: ArrayBuffer | Uint8Array = encoder.encode(`AWS4${secretAccessKey}`);
+  for (const part of [amzDate.slice(0, 8), region, SERVICE, 'aws4_request']) {
+    key = await hmac(key, part);
+  }
+  return toHex(await hmac(key, stringToSign));
+}
+
+async function hmac(
+  key: ArrayBuffer | Uint8Array,
+  data: string
+): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key as BufferSource,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+function credentialScope(amzDate: string, region: string) {
+  return `${amzDate.slice(0, 8)}/${region}/${SERVICE}/aws4_request`;
+}
+
+// paths are sent encoded already, decode each segment before re-encoding so
+// characters fetch leaves alone (e.g. `!` or `*`) are encoded too
+function canonicalPath(url: URL) {
+  return url.pathname
+    .split('/')
+    .map(segment => uriEncode(decodeURIComponent(segment)))
+    .join('/');
+}
+
+function canonicalQuery(params: URLSearchParams) {
+  return [...params]
+    .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+    .sort(([a, x], [b, y]) => (a < b ? -1 : a > b ? 1 : x < y ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+}
+
+function toAmzDate(date: Date) {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+function toHex(buffer: ArrayBuffer) {
+  return [...new Uint8Array(buffer)]
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,222 @@
+// deno-lint-ignore-file no-explicit-any
+import { createApiError, DigitalOceanError } from './errors.ts';
+import { SpacesBody } from './models/spaces.ts';
+import type { DigitalOceanOptions, RequestOptions } from './request-tool.ts';
+import { DEFAULT_RETRY_OPTIONS, RetryOptions, withRetry } from './retry.ts';
+import {
+  presignUrl,
+  sha256Hex,
+  SigV4Credentials,
+  signRequest,
+  UNSIGNED_PAYLOAD,
+  uriEncode
+} from './sigv4.ts';
+import { parseXml, xmlText } from './xml.ts';
+
+/**
+ * Access keys and location of the Spaces API
+ */
+export interface SpacesOptions {
+  /** Spaces access key, see `client.spacesKeys` to create one */
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  /** Datacenter region of the buckets, defaults to `nyc3` */
+  region?: string;
+  /**
+   * Base url of the S3 API, defaults to
+   * `https://<region>.digitaloceanspaces.com`. Point it at a local stand-in
+   * such as MinIO for testing.
+   */
+  endpoint?: string;
+}
+
+/**
+ * A Spaces API call, addressed path style (`/<bucket>/<key>`)
+ */
+export interface SpacesCall {
+  method: string;
+  bucket?: string;
+  key?: string;
+  query?: Record<string, string | undefined>;
+  headers?: Record<string, string | undefined>;
+  body?: SpacesBody;
+}
+
+/**
+ * HTTP transport of the S3 compatible Spaces API, signing every request with
+ * AWS Signature Version 4.
+ *
+ * It shares the `fetch`, `cassette`, `retry` and `timeout` options of the
+ * `DigitalOcean` client, middleware and rate limiting only apply to the
+ * DigitalOcean API.
+ */
+export class SpacesTool {
+  readonly region: string;
+  readonly endpoint: string;
+  #credentials?: SigV4Credentials;
+  #retry?: Required<RetryOptions>;
+  #fetch: typeof fetch;
+  #timeout?: number;
+
+  constructor(options: DigitalOceanOptions = {}) {
+    const { accessKeyId, secretAccessKey, region, endpoint } =
+      options.spaces ?? {};
+    this.region = region ?? 'nyc3';
+    this.endpoint = (
+      endpoint ?? `https://${this.region}.digitaloceanspaces.com`
+    ).replace(/\/+$/, '');
+    if (accessKeyId && secretAccessKey) {
+      this.#credentials = { accessKeyId, secretAccessKey };
+    }
+    this.#fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    if (options.cassette) {
+      this.#fetch = options.cassette.wrap(this.#fetch);
+    }
+    this.#timeout = options.timeout;
+    if (options.retry !== false) {
+      this.#retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    }
+  }
+
+  /**
+   * Url of a bucket, or of an object when `key` is given
+   */
+  url(bucket?: string, key?: string): URL {
+    let path = '';
+    if (bucket) {
+      path += `/${uriEncode(bucket)}`;
+    }
+    if (key !== undefined) {
+      path += `/${key.split('/').map(uriEncode).join('/')}`;
+    }
+    return new URL(`${this.endpoint}${path || '/'}`);
+  }
+
+  /**
+   * Send a signed request, resolving with the response once it succeeded.
+   * S3 error responses are thrown as the matching `DigitalOceanError`.
+   */
+  send(call: SpacesCall, options: RequestOptions = {}): Promise<Response> {
+    const { signal, timeout = this.#timeout, headers } = options;
+    if (headers) {
+      call = { ...call, headers: { ...call.headers, ...headers } };
+    }
+    // streamed bodies can only be sent once
+    const retryable = !(call.body instanceof ReadableStream);
+    return withRetry(attemptSignal => this.#send(call, attemptSignal), {
+      method: call.method,
+      policy: retryable ? this.#retry : undefined,
+      signal,
+      timeout
+    });
+  }
+
+  /**
+   * Url granting `method` access to a bucket or object for `expiresIn`
+   * seconds, without credentials
+   */
+  presign(
+    method: string,
+    bucket: string,
+    key: string | undefined,
+    expiresIn: number
+  ): Promise<string> {
+    return presignUrl(
+      method,
+      this.url(bucket, key),
+      this.#getCredentials(),
+      this.region,
+      expiresIn
+    );
+  }
+
+  async #send(call: SpacesCall, signal: AbortSignal): Promise<Response> {
+    const credentials = this.#getCredentials();
+    const url = this.url(call.bucket, call.key);
+    for (const [name, value] of Object.entries(call.query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(name, value);
+      }
+    }
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(call.headers ?? {})) {
+      if (value !== undefined) {
+        headers.set(name, value);
+      }
+    }
+
+    const { body } = call;
+    const opts: any = { method: call.method, headers, signal };
+    let payloadHash = await sha256Hex('');
+    if (body !== undefined) {
+      opts.body = body;
+      if (typeof body === 'string' || body instanceof Uint8Array) {
+        payloadHash = await sha256Hex(body);
+      } else if (body instanceof ArrayBuffer) {
+        payloadHash = await sha256Hex(new Uint8Array(body));
+      } else {
+        payloadHash = UNSIGNED_PAYLOAD;
+      }
+      if (body instanceof ReadableStream) {
+        opts.duplex = 'half';
+      }
+    }
+
+    const request = await signRequest(
+      new Request(url, opts),
+      credentials,
+      this.region,
+      payloadHash
+    );
+    const response = await this.#fetch(request);
+    if (response.status >= 400) {
+      const text: string | null = await response.text().catch(_ => null);
+      throw createS3Error(call.method, url, response, text);
+    }
+    return response;
+  }
+
+  #getCredentials(): SigV4Credentials {
+    if (!this.#credentials) {
+      throw new Error(
+        'Spaces access keys missing, set the spaces option of the client'
+      );
+    }
+    return this.#credentials;
+  }
+}
+
+/**
+ * Create the `DigitalOceanError` matching an S3 error document, e.g.
+ * `<Error><Code>NoSuchKey</Code><Message>...</Message></Error>`
+ *
+ * @ignore
+ */
+export function createS3Error(
+  method: string,
+  url: URL,
+  response: Response,
+  text: string | null
+): DigitalOceanError {
+  let data: any = null;
+  if (text) {
+    try {
+      const error = parseXml(text);
+      data = {
+        id: xmlText(error, 'Code'),
+        message: xmlText(error, 'Message'),
+        request_id: xmlText(error, 'RequestId')
+      };
+    } catch (_) {
+      // do nothing
+    }
+  }
+  return createApiError({
+    status: response.status,
+    method,
+    endpoint: url.pathname,
+    response,
+    text,
+    data
+  });
+}
@@ -0,0 +1,160 @@
+import { assert, assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from './digitalocean.ts';
+import { DigitalOceanError, NotFoundError } from './errors.ts';
+import { StubFetch, StubHandler } from './testing/stub-fetch.ts';
+
+function spacesClient(handler: StubHandler) {
+  const stub = new StubFetch(handler);
+  const client = new DigitalOcean('token', undefined, {
+    retry: { baseDelay: 0 },
+    spaces: { accessKeyId: 'key', secretAccessKey: 'secret' },
+    fetch: stub.fetch
+  });
+  return { client, stub };
+}
+
+Deno.test(
+  'object listings are signed and keep whitespace in keys',
+  async () => {
+    const { client, stub } = spacesClient(
+      () =>
+        new Response(
+          `<ListBucketResult><IsTruncated>false</IsTruncated>
+          <Contents><Key> spaced </Key><Size>4</Size></Contents>
+        </ListBucketResult>`
+        )
+    );
+
+    const page = await client.spaces.getObjectList('bucket', { prefix: 'a b' });
+    assertEquals(page.objects[0].key, ' spaced ');
+    assertEquals(page.objects[0].size, 4);
+    assertEquals(
+      stub.requests[0].url,
+      'https://nyc3.digitaloceanspaces.com/bucket?list-type=2&prefix=a+b'
+    );
+    assert(
+      stub.requests[0].headers
+        .get('authorization')
+        ?.startsWith('AWS4-HMAC-SHA256 Credential=key/')
+    );
+  }
+);
+
+Deno.test('S3 error documents map to DigitalOcean errors', async () => {
+  const { client, stub } = spacesClient(
+    () =>
+      new Response(
+        `<Error><Code>NoSuchKey</Code><Message>missing</Message><RequestId>tx1</RequestId></Error>`,
+        { status: 404 }
+      )
+  );
+
+  const error = await assertRejects(
+    () => client.spaces.getObject('bucket', 'gone.txt'),
+    NotFoundError,
+    'missing'
+  );
+  assertEquals(error.id, 'NoSuchKey');
+  assertEquals(error.request_id, 'tx1');
+  assertEquals(error.endpoint, '/bucket/gone.txt');
+  assertEquals(stub.requests.length, 1);
+});
+
+Deno.test('streamed uploads are sent with their size', async () => {
+  const { client, stub } = spacesClient(
+    () => new Response(null, { headers: { etag: '"etag-1"' } })
+  );
+  const stream = () => new Blob(['Hello!']).stream();
+
+  await assertRejects(
+    () => client.spaces.putObject('bucket', 'hello.txt', stream()),
+    Error,
+    'content_length is required to upload a stream'
+  );
+  await assertRejects(
+    () =>
+      client.spaces.uploadPart(
+        'bucket',
+        'backup.tar',
+        'upload-id',
+        1,
+        stream()
+      ),
+    Error,
+    'content_length is required to upload a stream'
+  );
+  assertEquals(stub.requests.length, 0);
+
+  await client.spaces.putObject('bucket', 'hello.txt', stream(), {
+    content_length: 6
+  });
+  const part = await client.spaces.uploadPart(
+    'bucket',
+    'backup.tar',
+    'upload-id',
+    1,
+    stream(),
+    { content_length: 6 }
+  );
+  assertEquals(part, { part_number: 1, etag: '"etag-1"' });
+  assertEquals(
+    stub.requests.map(request => request.headers.get('content-length')),
+    ['6', '6']
+  );
+  assertEquals(await stub.requests[0].text(), 'Hello!');
+});
+
+Deno.test(
+  'multipart uploads failing after a 200 reject with API errors',
+  async () => {
+    const { client } = spacesClient(
+      () =>
+        new Response(
+          `<Error><Code>InternalError</Code><Message>We encountered an internal error.</Message><RequestId>tx2</RequestId></Error>`
+        )
+    );
+
+    const error = await assertRejects(
+      () =>
+        client.spaces.completeMultipartUpload(
+          'bucket',
+          'backup.tar',
+          'upload-id',
+          [{ part_number: 1, etag: '"etag-1"' }]
+        ),
+      DigitalOceanError,
+      'We encountered an internal error.'
+    );
+    assertEquals(error.id, 'InternalError');
+    assertEquals(error.request_id, 'tx2');
+    assertEquals(error.endpoint, '/bucket/backup.tar');
+  }
+);
+
+Deno.test('presigned urls are signed locally', async () => {
+  const { client, stub } = spacesClient(() => new Response());
+
+  const url = new URL(
+    await client.spaces.getPresignedUrl('bucket', 'hello.txt', {
+      expires_in: 900
+    })
+  );
+  assertEquals(url.pathname, '/bucket/hello.txt');
+  assertEquals(url.searchParams.get('X-Amz-Expires'), '900');
+  await assertRejects(
+    () =>
+      client.spaces.getPresignedUrl('bucket', 'hello.txt', { expires_in: 0 }),
+    Error,
+    'Presigned urls must expire within 1 to 604800 seconds'
+  );
+  assertEquals(stub.requests.length, 0);
+});
+
+Deno.test('Spaces calls reject without access keys', async () => {
+  const client = new DigitalOcean('token');
+  await assertRejects(
+    () => client.spaces.getPresignedUrl('bucket', 'key'),
+    Error,
+    'Spaces access keys missing'
+  );
+});
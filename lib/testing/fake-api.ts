@@ -0,0 +1,1028 @@
+import { Action } from '../models/action.ts';
+import { BlockStorage } from '../models/block-storage.ts';
+import { Domain } from '../models/domain.ts';
+import { DomainRecord } from '../models/domain-record.ts';
+import { Droplet } from '../models/droplet.ts';
+import { Firewall } from '../models/firewall.ts';
+import { LoadBalancer } from '../models/load-balancer.ts';
+import { Project, ProjectResource } from '../models/project.ts';
+import { Region } from '../models/region.ts';
+import { Tag } from '../models/tag.ts';
+
+export interface FakeApiOptions {
+  /**
+   * Token expected in the `Authorization` header. Any token is accepted when
+   * omitted.
+   */
+  token?: string;
+  /**
+   * Milliseconds before new resources become active and actions complete.
+   * With the default of `0` they transition on the next read.
+   */
+  transitionDelay?: number;
+}
+
+/**
+ * Resources held by the fake API, exposed for assertions and seeding
+ */
+export interface FakeApiState {
+  actions: Map<number, Action>;
+  domains: Map<string, Domain>;
+  domainRecords: Map<string, DomainRecord[]>;
+  droplets: Map<number, Droplet>;
+  firewalls: Map<string, Firewall>;
+  loadBalancers: Map<string, LoadBalancer>;
+  projects: Map<string, Project>;
+  projectResources: Map<string, ProjectResource[]>;
+  tags: Map<string, Tag>;
+  volumes: Map<string, BlockStorage>;
+}
+
+interface Context {
+  url: URL;
+  params: string[];
+  body: any;
+}
+
+type Handler = (ctx: Context) => Response;
+
+class FakeApiError extends Error {
+  constructor(readonly status: number, readonly id: string, message: string) {
+    super(message);
+  }
+}
+
+const notFound = () =>
+  new FakeApiError(
+    404,
+    'not_found',
+    'The resource you were accessing could not be found.'
+  );
+
+const invalid = (message: string) =>
+  new FakeApiError(422, 'unprocessable_entity', message);
+
+const RATE_LIMIT = 5000;
+
+/**
+ * In-memory stand-in for the DigitalOcean API, covering droplets, volumes,
+ * domains and records, tags, firewalls, load balancers, projects and actions.
+ *
+ * Pass its `fetch` to a client to test code without network or tokens, or
+ * `serve()` it over HTTP with `Deno.serve`.
+ *
+ * ### Example
+ * ```js
+ * import { DigitalOcean } from 'digitalocean-js';
+ * import { FakeDigitalOceanApi } from 'digitalocean-js/testing';
+ *
+ * const api = new FakeDigitalOceanApi();
+ * const client = new DigitalOcean('fake-token', undefined, { fetch: api.fetch });
+ * const droplet = await client.droplets.createNewDroplet({
+ *   name: 'example.com',
+ *   region: 'nyc3',
+ *   size: 's-1vcpu-1gb',
+ *   image: 'ubuntu-22-04-x64'
+ * });
+ * await client.droplets.waitForDropletActive(droplet.id, { interval: 10 });
+ * ```
+ */
+export class FakeDigitalOceanApi {
+  readonly state: FakeApiState = {
+    actions: new Map(),
+    domains: new Map(),
+    domainRecords: new Map(),
+    droplets: new Map(),
+    firewalls: new Map(),
+    loadBalancers: new Map(),
+    projects: new Map(),
+    projectResources: new Map(),
+    tags: new Map(),
+    volumes: new Map()
+  };
+
+  #options: FakeApiOptions;
+  #routes: [string, RegExp, Handler][] = [];
+  #pending: { readyAt: number; apply: () => void }[] = [];
+  #nextId = 1000;
+  #remaining = RATE_LIMIT;
+
+  constructor(options: FakeApiOptions = {}) {
+    this.#options = options;
+    this.#registerRoutes();
+    this.#createDefaultProject();
+  }
+
+  /**
+   * `fetch` implementation answering from the fake API
+   */
+  fetch = (input: RequestInfo | URL, init?: RequestInit): Promise<Response> =>
+    this.handle(new Request(input, init));
+
+  /**
+   * Answer a request, e.g. as a `Deno.serve` handler
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/^.*?\/v2(?=\/)/, '');
+    const text = await request.text();
+
+    try {
+      const auth = request.headers.get('authorization');
+      const { token } = this.#options;
+      if (
+        !auth?.startsWith('Bearer ') ||
+        (token && auth !== `Bearer ${token}`)
+      ) {
+        throw new FakeApiError(
+          401,
+          'unauthorized',
+          'Unable to authenticate you'
+        );
+      }
+
+      const type = request.headers.get('content-type');
+      if (text && !type?.startsWith('application/json')) {
+        throw new FakeApiError(
+          415,
+          'unsupported_media_type',
+          'Request bodies must be sent as application/json'
+        );
+      }
+      let body: any;
+      try {
+        body = text ? JSON.parse(text) : {};
+      } catch (_) {
+        throw new FakeApiError(400, 'bad_request', 'Malformed JSON body');
+      }
+      this.#settle();
+
+      for (const [method, pattern, handler] of this.#routes) {
+        const match = method === request.method && pattern.exec(path);
+        if (match) {
+          this.#remaining = Math.max(0, this.#remaining - 1);
+          return this.#withHeaders(
+            handler({ url, params: match.slice(1), body })
+          );
+        }
+      }
+      throw notFound();
+    } catch (error) {
+      if (error instanceof FakeApiError) {
+        return this.#withHeaders(
+          this.#json(error.status, {
+            id: error.id,
+            message: error.message,
+            request_id: crypto.randomUUID()
+          })
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Serve the fake API over HTTP, e.g. for code that does not accept a custom
+   * `fetch`. Listens on a random port unless one is given.
+   */
+  serve(options: Partial<Deno.ServeTcpOptions> = {}) {
+    return Deno.serve({ port: 0, ...options }, request => this.handle(request));
+  }
+
+  ////////// Routes //////////
+  #registerRoutes() {
+    // actions
+    this.#list('/actions', 'actions', () => [...this.state.actions.values()]);
+    this.#route('GET', '/actions/:id', ({ params }) =>
+      this.#ok({ action: this.#action(Number(params[0])) })
+    );
+
+    // droplets
+    this.#list('/droplets', 'droplets', ({ url }) => {
+      const tag = url.searchParams.get('tag_name');
+      return [...this.state.droplets.values()].filter(
+        droplet => !tag || droplet.tags.includes(tag)
+      );
+    });
+    this.#route('POST', '/droplets', ({ body }) => this.#createDroplets(body));
+    this.#route('GET', '/droplets/:id', ({ params }) =>
+      this.#ok({ droplet: this.#droplet(params[0]) })
+    );
+    this.#route('DELETE', '/droplets', ({ url }) => {
+      const tag = url.searchParams.get('tag_name');
+      if (!tag) {
+        throw invalid('tag_name is required');
+      }
+      for (const droplet of [...this.state.droplets.values()]) {
+        if (droplet.tags.includes(tag)) {
+          this.#deleteDroplet(droplet);
+        }
+      }
+      return this.#noContent();
+    });
+    this.#route('DELETE', '/droplets/:id', ({ params }) => {
+      this.#deleteDroplet(this.#droplet(params[0]));
+      return this.#noContent();
+    });
+    this.#list('/droplets/:id/actions', 'actions', ({ params }) =>
+      this.#actionsFor(this.#droplet(params[0]).id, 'droplet')
+    );
+    this.#route('POST', '/droplets/:id/actions', ({ params, body }) =>
+      this.#created({
+        action: this.#dropletAction(this.#droplet(params[0]), body)
+      })
+    );
+    this.#route('GET', '/droplets/:id/actions/:actionId', ({ params }) =>
+      this.#ok({ action: this.#action(Number(params[1])) })
+    );
+
+    // volumes
+    this.#list('/volumes', 'volumes', ({ url }) => this.#volumesByQuery(url));
+    this.#route('POST', '/volumes', ({ body }) => this.#createVolume(body));
+    this.#route('GET', '/volumes/:id', ({ params }) =>
+      this.#ok({ volume: this.#volume(params[0]) })
+    );
+    this.#route('DELETE', '/volumes', ({ url }) => {
+      for (const volume of this.#volumesByQuery(url)) {
+        this.state.volumes.delete(volume.id);
+      }
+      return this.#noContent();
+    });
+    this.#route('DELETE', '/volumes/:id', ({ params }) => {
+      this.state.volumes.delete(this.#volume(params[0]).id);
+      return this.#noContent();
+    });
+    this.#route('POST', '/volumes/actions', ({ body }) => {
+      const volume = [...this.state.volumes.values()].find(
+        volume =>
+          volume.name === body.volume_name && volume.region.slug === body.region
+      );
+      if (!volume) {
+        throw notFound();
+      }
+      return this.#created({ action: this.#volumeAction(volume, body) });
+    });
+    this.#list('/volumes/:id/actions', 'actions', ({ params }) =>
+      this.#actionsFor(this.#volume(params[0]).id, 'volume')
+    );
+    this.#route('POST', '/volumes/:id/actions', ({ params, body }) =>
+      this.#created({
+        action: this.#volumeAction(this.#volume(params[0]), body)
+      })
+    );
+    this.#route('GET', '/volumes/:id/actions/:actionId', ({ params }) =>
+      this.#ok({ action: this.#action(Number(params[1])) })
+    );
+
+    // domains and records
+    this.#list('/domains', 'domains', () => [...this.state.domains.values()]);
+    this.#route('POST', '/domains', ({ body }) => {
+      if (!body.name) {
+        throw invalid('name is required');
+      }
+      if (this.state.domains.has(body.name)) {
+        throw new FakeApiError(
+          422,
+          'unprocessable_entity',
+          'Name already in use'
+        );
+      }
+      const domain: Domain = { name: body.name, ttl: 1800, zone_file: '' };
+      this.state.domains.set(domain.name, domain);
+      this.state.domainRecords.set(domain.name, []);
+      if (body.ip_address) {
+        this.#createRecord(domain.name, {
+          type: 'A',
+          name: '@',
+          data: body.ip_address
+        });
+      }
+      return this.#created({ domain });
+    });
+    this.#route('GET', '/domains/:name', ({ params }) =>
+      this.#ok({ domain: this.#domain(params[0]) })
+    );
+    this.#route('DELETE', '/domains/:name', ({ params }) => {
+      this.#domain(params[0]);
+      this.state.domains.delete(params[0]);
+      this.state.domainRecords.delete(params[0]);
+      return this.#noContent();
+    });
+    this.#list('/domains/:name/records', 'domain_records', ({ params }) => {
+      this.#domain(params[0]);
+      return this.state.domainRecords.get(params[0]) ?? [];
+    });
+    this.#route('POST', '/domains/:name/records', ({ params, body }) => {
+      this.#domain(params[0]);
+      return this.#created({
+        domain_record: this.#createRecord(params[0], body)
+      });
+    });
+    this.#route('GET', '/domains/:name/records/:id', ({ params }) =>
+      this.#ok({ domain_record: this.#record(params[0], params[1]) })
+    );
+    this.#route('PUT', '/domains/:name/records/:id', ({ params, body }) => {
+      const record = this.#record(params[0], params[1]);
+      Object.assign(record, body, { id: record.id });
+      return this.#ok({ domain_record: record });
+    });
+    this.#route('DELETE', '/domains/:name/records/:id', ({ params }) => {
+      const record = this.#record(params[0], params[1]);
+      const records = this.state.domainRecords.get(params[0])!;
+      records.splice(records.indexOf(record), 1);
+      return this.#noContent();
+    });
+
+    // tags
+    this.#list('/tags', 'tags', () =>
+      [...this.state.tags.keys()].map(name => this.#tag(name))
+    );
+    this.#route('POST', '/tags', ({ body }) => {
+      if (!body.name) {
+        throw invalid('name is required');
+      }
+      this.state.tags.set(body.name, { name: body.name });
+      return this.#created({ tag: this.#tag(body.name) });
+    });
+    this.#route('GET', '/tags/:name', ({ params }) =>
+      this.#ok({ tag: this.#tag(params[0]) })
+    );
+    this.#route('DELETE', '/tags/:name', ({ params }) => {
+      this.#tag(params[0]);
+      this.state.tags.delete(params[0]);
+      for (const droplet of this.state.droplets.values()) {
+        droplet.tags = droplet.tags.filter(tag => tag !== params[0]);
+      }
+      return this.#noContent();
+    });
+    this.#route('POST', '/tags/:name/resources', ({ params, body }) => {
+      this.#tag(params[0]);
+      for (const droplet of this.#taggedDroplets(body)) {
+        if (!droplet.tags.includes(params[0])) {
+          droplet.tags.push(params[0]);
+        }
+      }
+      return this.#noContent();
+    });
+    this.#route('DELETE', '/tags/:name/resources', ({ params, body }) => {
+      this.#tag(params[0]);
+      for (const droplet of this.#taggedDroplets(body)) {
+        droplet.tags = droplet.tags.filter(tag => tag !== params[0]);
+      }
+      return this.#noContent();
+    });
+
+    // firewalls
+    this.#list('/firewalls', 'firewalls', () => [
+      ...this.state.firewalls.values()
+    ]);
+    this.#route('POST', '/firewalls', ({ body }) => {
+      if (!body.name) {
+        throw invalid('name is required');
+      }
+      const firewall: Firewall = {
+        inbound_rules: [],
+        outbound_rules: [],
+        droplet_ids: [],
+        tags: [],
+        ...body,
+        id: crypto.randomUUID(),
+        status: 'waiting',
+        created_at: new Date().toISOString(),
+        pending_changes: []
+      };
+      this.state.firewalls.set(firewall.id!, firewall);
+      this.#transition(() => (firewall.status = 'succeeded'));
+      return this.#accepted({ firewall });
+    });
+    this.#route('GET', '/firewalls/:id', ({ params }) =>
+      this.#ok({ firewall: this.#firewall(params[0]) })
+    );
+    this.#route('PUT', '/firewalls/:id', ({ params, body }) => {
+      const firewall = this.#firewall(params[0]);
+      Object.assign(firewall, body, { id: firewall.id });
+      return this.#ok({ firewall });
+    });
+    this.#route('DELETE', '/firewalls/:id', ({ params }) => {
+      this.state.firewalls.delete(this.#firewall(params[0]).id!);
+      return this.#noContent();
+    });
+    this.#membership('/firewalls/:id/droplets', 'droplet_ids', id =>
+      this.#firewall(id)
+    );
+    this.#membership('/firewalls/:id/tags', 'tags', id => this.#firewall(id));
+    this.#route('POST', '/firewalls/:id/rules', ({ params, body }) => {
+      const firewall = this.#firewall(params[0]);
+      firewall.inbound_rules.push(...(body.inbound_rules ?? []));
+      firewall.outbound_rules.push(...(body.outbound_rules ?? []));
+      return this.#noContent();
+    });
+    this.#route('DELETE', '/firewalls/:id/rules', ({ params, body }) => {
+      const firewall = this.#firewall(params[0]);
+      const keep = (rules: any[], removed: any[] = []) =>
+        rules.filter(
+          rule =>
+            !removed.some(
+              other => JSON.stringify(other) === JSON.stringify(rule)
+            )
+        );
+      firewall.inbound_rules = keep(firewall.inbound_rules, body.inbound_rules);
+      firewall.outbound_rules = keep(
+        firewall.outbound_rules,
+        body.outbound_rules
+      );
+      return this.#noContent();
+    });
+
+    // load balancers
+    this.#list('/load_balancers', 'load_balancers', () => [
+      ...this.state.loadBalancers.values()
+    ]);
+    this.#route('POST', '/load_balancers', ({ body }) => {
+      if (!body.name || !body.region || !body.forwarding_rules?.length) {
+        throw invalid('name, region and forwarding_rules are required');
+      }
+      const loadBalancer: LoadBalancer = {
+        algorithm: 'round_robin',
+        droplet_ids: [],
+        redirect_http_to_https: false,
+        ...body,
+        id: crypto.randomUUID(),
+        ip: '',
+        status: 'new',
+        region: this.#region(body.region),
+        created_at: new Date().toISOString()
+      };
+      this.state.loadBalancers.set(loadBalancer.id, loadBalancer);
+      this.#transition(() => {
+        loadBalancer.status = 'active';
+        loadBalancer.ip = this.#ip();
+      });
+      return this.#accepted({ load_balancer: loadBalancer });
+    });
+    this.#route('GET', '/load_balancers/:id', ({ params }) =>
+      this.#ok({ load_balancer: this.#loadBalancer(params[0]) })
+    );
+    this.#route('PUT', '/load_balancers/:id', ({ params, body }) => {
+      const loadBalancer = this.#loadBalancer(params[0]);
+      Object.assign(loadBalancer, body, {
+        id: loadBalancer.id,
+        region: loadBalancer.region
+      });
+      return this.#ok({ load_balancer: loadBalancer });
+    });
+    this.#route('DELETE', '/load_balancers/:id', ({ params }) => {
+      this.state.loadBalancers.delete(this.#loadBalancer(params[0]).id);
+      return this.#noContent();
+    });
+    this.#membership('/load_balancers/:id/droplets', 'droplet_ids', id =>
+      this.#loadBalancer(id)
+    );
+    this.#membership(
+      '/load_balancers/:id/forwarding_rules',
+      'forwarding_rules',
+      id => this.#loadBalancer(id)
+    );
+
+    // projects
+    this.#list('/projects', 'projects', () => [
+      ...this.state.projects.values()
+    ]);
+    this.#route('POST', '/projects', ({ body }) => {
+      if (!body.name || !body.purpose) {
+        throw invalid('name and purpose are required');
+      }
+      return this.#created({ project: this.#createProject(body) });
+    });
+    this.#route('GET', '/projects/:id', ({ params }) =>
+      this.#ok({ project: this.#project(params[0]) })
+    );
+    for (const method of ['PUT', 'PATCH']) {
+      this.#route(method, '/projects/:id', ({ params, body }) => {
+        const project = this.#project(params[0]);
+        Object.assign(project, body, {
+          id: project.id,
+          updated_at: new Date().toISOString()
+        });
+        return this.#ok({ project });
+      });
+    }
+    this.#route('DELETE', '/projects/:id', ({ params }) => {
+      const project = this.#project(params[0]);
+      if (project.is_default) {
+        throw invalid('The default project cannot be deleted');
+      }
+      if (this.state.projectResources.get(project.id!)?.length) {
+        throw new FakeApiError(
+          412,
+          'precondition_failed',
+          'Cannot delete a project with resources'
+        );
+      }
+      this.state.projects.delete(project.id!);
+      return this.#noContent();
+    });
+    this.#list('/projects/:id/resources', 'resources', ({ params }) => {
+      const project = this.#project(params[0]);
+      return this.state.projectResources.get(project.id!) ?? [];
+    });
+    this.#route('POST', '/projects/:id/resources', ({ params, body }) => {
+      const project = this.#project(params[0]);
+      const urns: string[] = body.resources ?? [];
+      const assigned = urns.map(urn => this.#assign(project, urn));
+      return this.#ok({ resources: assigned });
+    });
+  }
+
+  #route(method: string, path: string, handler: Handler) {
+    const pattern = new RegExp(`^${path.replace(/:\w+/g, '([^/]+)')}$`);
+    this.#routes.push([method, pattern, handler]);
+  }
+
+  /** Paginated list endpoint */
+  #list(path: string, key: string, items: (ctx: Context) => any[]) {
+    this.#route('GET', path, ctx => {
+      const all = items(ctx);
+      const page = Number(ctx.url.searchParams.get('page')) || 1;
+      const perPage = Number(ctx.url.searchParams.get('per_page')) || 20;
+      const pages: Record<string, string> = {};
+      const link = (to: number) => {
+        const url = new URL(ctx.url);
+        url.searchParams.set('page', String(to));
+        url.searchParams.set('per_page', String(perPage));
+        return url.toString();
+      };
+      const last = Math.max(1, Math.ceil(all.length / perPage));
+      if (page > 1) {
+        pages.first = link(1);
+        pages.prev = link(page - 1);
+      }
+      if (page < last) {
+        pages.next = link(page + 1);
+        pages.last = link(last);
+      }
+      return this.#ok({
+        [key]: all.slice((page - 1) * perPage, page * perPage),
+        links: { pages },
+        meta: { total: all.length }
+      });
+    });
+  }
+
+  /** Endpoint adding to (POST) or removing from (DELETE) an array property */
+  #membership(path: string, property: string, find: (id: string) => any) {
+    this.#route('POST', path, ({ params, body }) => {
+      const resource = find(params[0]);
+      for (const item of body[property] ?? []) {
+        if (!resource[property].includes(item)) {
+          resource[property].push(item);
+        }
+      }
+      return this.#noContent();
+    });
+    this.#route('DELETE', path, ({ params, body }) => {
+      const resource = find(params[0]);
+      const removed = (body[property] ?? []).map((item: any) =>
+        JSON.stringify(item)
+      );
+      resource[property] = resource[property].filter(
+        (item: any) => !removed.includes(JSON.stringify(item))
+      );
+      return this.#noContent();
+    });
+  }
+
+  ////////// Droplets //////////
+  #createDroplets(body: any): Response {
+    const names: string[] = body.names ?? (body.name ? [body.name] : []);
+    if (!names.length || !body.region || !body.size || !body.image) {
+      throw invalid('name, region, size and image are required');
+    }
+    const droplets = names.map(name => {
+      const droplet: Droplet = {
+        id: this.#id(),
+        name,
+        memory: 1024,
+        vcpus: 1,
+        disk: 25,
+        locked: false,
+        created_at: new Date().toISOString(),
+        status: 'new',
+        backup_ids: [],
+        snapshot_ids: [],
+        features: [
+          ...(body.backups ? ['backups'] : []),
+          ...(body.ipv6 ? ['ipv6'] : []),
+          ...(body.monitoring ? ['monitoring'] : [])
+        ],
+        region: this.#region(body.region),
+        image: null,
+        size: null,
+        size_slug: body.size,
+        networks: { v4: [], v6: [] },
+        kernel: null,
+        next_backup_window: null,
+        tags: [...(body.tags ?? [])],
+        volume_ids: [...(body.volumes ?? [])]
+      };
+      this.state.droplets.set(droplet.id, droplet);
+      const action = this.#createAction(
+        'create',
+        droplet.id,
+        'droplet',
+        body.region
+      );
+      this.#transition(() => {
+        droplet.status = 'active';
+        droplet.networks = {
+          v4: [
+            {
+              ip_address: this.#ip(),
+              netmask: '255.255.240.0',
+              gateway: '10.0.0.1',
+              type: 'public'
+            }
+          ],
+          v6: []
+        };
+      });
+      return { droplet, action };
+    });
+
+    const links = {
+      actions: droplets.map(({ action }) => ({
+        id: action.id,
+        rel: 'create',
+        href: `/v2/actions/${action.id}`
+      }))
+    };
+    return body.names
+      ? this.#accepted({ droplets: droplets.map(d => d.droplet), links })
+      : this.#accepted({ droplet: droplets[0].droplet, links });
+  }
+
+  #deleteDroplet(droplet: Droplet) {
+    this.state.droplets.delete(droplet.id);
+    for (const volume of this.state.volumes.values()) {
+      volume.droplet_ids = volume.droplet_ids.filter(id => id !== droplet.id);
+    }
+  }
+
+  #dropletAction(droplet: Droplet, body: any): Action {
+    const effects: Record<string, () => void> = {
+      enable_backups: () => this.#feature(droplet, 'backups', true),
+      disable_backups: () => this.#feature(droplet, 'backups', false),
+      enable_ipv6: () => this.#feature(droplet, 'ipv6', true),
+      enable_private_networking: () =>
+        this.#feature(droplet, 'private_networking', true),
+      reboot: () => (droplet.status = 'active'),
+      power_cycle: () => (droplet.status = 'active'),
+      power_on: () => (droplet.status = 'active'),
+      shutdown: () => (droplet.status = 'off'),
+      power_off: () => (droplet.status = 'off'),
+      restore: () => undefined,
+      password_reset: () => undefined,
+      rebuild: () => undefined,
+      resize: () => (droplet.size_slug = body.size ?? droplet.size_slug),
+      rename: () => (droplet.name = body.name ?? droplet.name),
+      change_kernel: () => undefined,
+      snapshot: () => droplet.snapshot_ids.push(String(this.#id()))
+    };
+    const effect = effects[body.type];
+    if (!effect) {
+      throw invalid(`'${body.type}' is not a valid droplet action type`);
+    }
+    return this.#createAction(
+      body.type,
+      droplet.id,
+      'droplet',
+      droplet.region.slug,
+      effect
+    );
+  }
+
+  #feature(droplet: Droplet, feature: string, enabled: boolean) {
+    droplet.features = droplet.features.filter(f => f !== feature);
+    if (enabled) {
+      droplet.features.push(feature);
+    }
+  }
+
+  #droplet(id: string | number): Droplet {
+    const droplet = this.state.droplets.get(Number(id));
+    if (!droplet) {
+      throw notFound();
+    }
+    return droplet;
+  }
+
+  #taggedDroplets(body: any): Droplet[] {
+    return (body.resources ?? [])
+      .filter((resource: any) => resource.resource_type === 'droplet')
+      .map((resource: any) => this.#droplet(resource.resource_id));
+  }
+
+  ////////// Volumes //////////
+  #createVolume(body: any): Response {
+    if (!body.size_gigabytes || !body.name || !body.region) {
+      throw invalid('size_gigabytes, name and region are required');
+    }
+    const volume: BlockStorage = {
+      id: crypto.randomUUID(),
+      region: this.#region(body.region),
+      droplet_ids: [],
+      name: body.name,
+      description: body.description ?? '',
+      size_gigabytes: body.size_gigabytes,
+      created_at: new Date().toISOString()
+    };
+    this.state.volumes.set(volume.id, volume);
+    return this.#created({ volume });
+  }
+
+  #volumeAction(volume: BlockStorage, body: any): Action {
+    const dropletId = Number(body.droplet_id);
+    let effect: () => void;
+    switch (body.type) {
+      case 'attach':
+        this.#droplet(dropletId);
+        effect = () => {
+          if (!volume.droplet_ids.includes(dropletId)) {
+            volume.droplet_ids.push(dropletId);
+          }
+        };
+        break;
+      case 'detach':
+        effect = () => {
+          volume.droplet_ids = volume.droplet_ids.filter(
+            id => id !== dropletId
+          );
+        };
+        break;
+      case 'resize':
+        if (body.size_gigabytes < volume.size_gigabytes) {
+          throw invalid('Volumes can only be resized to a larger size');
+        }
+        effect = () => (volume.size_gigabytes = body.size_gigabytes);
+        break;
+      default:
+        throw invalid(`'${body.type}' is not a valid volume action type`);
+    }
+    return this.#createAction(
+      body.type,
+      volume.id,
+      'volume',
+      volume.region.slug,
+      effect
+    );
+  }
+
+  #volume(id: string): BlockStorage {
+    const volume = this.state.volumes.get(id);
+    if (!volume) {
+      throw notFound();
+    }
+    return volume;
+  }
+
+  #volumesByQuery(url: URL): BlockStorage[] {
+    const name = url.searchParams.get('name');
+    const region = url.searchParams.get('region');
+    return [...this.state.volumes.values()].filter(
+      volume =>
+        (!name || volume.name === name) &&
+        (!region || volume.region.slug === region)
+    );
+  }
+
+  ////////// Domains //////////
+  #domain(name: string): Domain {
+    const domain = this.state.domains.get(name);
+    if (!domain) {
+      throw notFound();
+    }
+    return domain;
+  }
+
+  #createRecord(domainName: string, body: any): DomainRecord {
+    if (!body.type || !body.data) {
+      throw invalid('type and data are required');
+    }
+    const record: DomainRecord = {
+      name: '@',
+      ttl: 1800,
+      weight: null,
+      port: null,
+      ...body,
+      id: this.#id()
+    };
+    this.state.domainRecords.get(domainName)!.push(record);
+    return record;
+  }
+
+  #record(domainName: string, id: string): DomainRecord {
+    const record = this.state.domainRecords
+      .get(this.#domain(domainName).name)!
+      .find(record => record.id === Number(id));
+    if (!record) {
+      throw notFound();
+    }
+    return record;
+  }
+
+  ////////// Tags //////////
+  #tag(name: string): Tag {
+    if (!this.state.tags.has(name)) {
+      throw notFound();
+    }
+    const droplets = [...this.state.droplets.values()].filter(droplet =>
+      droplet.tags.includes(name)
+    );
+    return {
+      name,
+      resources: {
+        droplets: {
+          count: droplets.length,
+          last_tagged: droplets[droplets.length - 1]
+        }
+      }
+    };
+  }
+
+  ////////// Firewalls and load balancers //////////
+  #firewall(id: string): Firewall {
+    const firewall = this.state.firewalls.get(id);
+    if (!firewall) {
+      throw notFound();
+    }
+    return firewall;
+  }
+
+  #loadBalancer(id: string): LoadBalancer {
+    const loadBalancer = this.state.loadBalancers.get(id);
+    if (!loadBalancer) {
+      throw notFound();
+    }
+    return loadBalancer;
+  }
+
+  ////////// Projects //////////
+  #createDefaultProject() {
+    this.#createProject({
+      name: 'Default',
+      description: 'Default project',
+      purpose: 'Just trying out DigitalOcean',
+      environment: 'Development',
+      is_default: true
+    });
+  }
+
+  #createProject(body: Project): Project {
+    const now = new Date().toISOString();
+    const project: Project = {
+      description: '',
+      is_default: false,
+      ...body,
+      id: crypto.randomUUID(),
+      owner_uuid: '00000000-0000-4000-8000-000000000000',
+      owner_id: 1,
+      created_at: now,
+      updated_at: now
+    };
+    this.state.projects.set(project.id!, project);
+    this.state.projectResources.set(project.id!, []);
+    return project;
+  }
+
+  #project(id: string): Project {
+    const project =
+      id === 'default'
+        ? [...this.state.projects.values()].find(project => project.is_default)
+        : this.state.projects.get(id);
+    if (!project) {
+      throw notFound();
+    }
+    return project;
+  }
+
+  #assign(project: Project, urn: string): ProjectResource {
+    const resource: ProjectResource = {
+      urn,
+      assigned_at: new Date().toISOString(),
+      links: '',
+      status: 'ok'
+    };
+    // a resource belongs to exactly one project
+    for (const resources of this.state.projectResources.values()) {
+      const index = resources.findIndex(other => other.urn === urn);
+      if (index >= 0) {
+        resources.splice(index, 1);
+      }
+    }
+    this.state.projectResources.get(project.id!)!.push(resource);
+    return resource;
+  }
+
+  ////////// Actions //////////
+  #createAction(
+    type: string,
+    resourceId: number | string,
+    resourceType: string,
+    regionSlug: string,
+    effect = () => {}
+  ): Action {
+    const action: Action = {
+      id: this.#id(),
+      status: 'in-progress',
+      type,
+      started_at: new Date().toISOString(),
+      completed_at: null,
+      resource_id: resourceId as number,
+      resource_type: resourceType,
+      region: this.#region(regionSlug),
+      region_slug: regionSlug
+    };
+    this.state.actions.set(action.id, action);
+    this.#transition(() => {
+      effect();
+      action.status = 'completed';
+      action.completed_at = new Date().toISOString();
+    });
+    return { ...action };
+  }
+
+  #action(id: number): Action {
+    const action = this.state.actions.get(id);
+    if (!action) {
+      throw notFound();
+    }
+    return action;
+  }
+
+  #actionsFor(resourceId: number | string, resourceType: string): Action[] {
+    return [...this.state.actions.values()].filter(
+      action =>
+        action.resource_id === resourceId &&
+        action.resource_type === resourceType
+    );
+  }
+
+  ////////// State transitions //////////
+  /** Schedule a state change, applied by the first request after the delay */
+  #transition(apply: () => void) {
+    const readyAt = Date.now() + (this.#options.transitionDelay ?? 0);
+    this.#pending.push({ readyAt, apply });
+  }
+
+  #settle() {
+    const now = Date.now();
+    const due = this.#pending.filter(({ readyAt }) => readyAt <= now);
+    this.#pending = this.#pending.filter(({ readyAt }) => readyAt > now);
+    due.forEach(({ apply }) => apply());
+  }
+
+  ////////// Helpers //////////
+  #id() {
+    return this.#nextId++;
+  }
+
+  #ip() {
+    const n = this.#id();
+    return `203.0.113.${(n % 254) + 1}`;
+  }
+
+  #region(slug: string): Region {
+    return {
+      slug,
+      name: slug,
+      sizes: [],
+      available: true,
+      features: ['backups', 'ipv6', 'monitoring', 'private_networking']
+    };
+  }
+
+  #withHeaders(response: Response): Response {
+    response.headers.set('ratelimit-limit', String(RATE_LIMIT));
+    response.headers.set('ratelimit-remaining', String(this.#remaining));
+    response.headers.set(
+      'ratelimit-reset',
+      String(Math.ceil(Date.now() / 1000) + 60)
+    );
+    return response;
+  }
+
+  #json(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  #ok = (body: unknown) => this.#json(200, body);
+
+  #created = (body: unknown) => this.#json(201, body);
+
+  #accepted = (body: unknown) => this.#json(202, body);
+
+  #noContent = () => new Response(null, { status: 204 });
+}
@@ -0,0 +1,134 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { DigitalOcean } from '../digitalocean.ts';
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError
+} from '../errors.ts';
+import { FakeDigitalOceanApi } from './fake-api.ts';
+
+const DROPLET = {
+  name: 'example.com',
+  region: 'nyc3',
+  size: 's-1vcpu-1gb',
+  image: 'ubuntu-22-04-x64'
+};
+
+function setup(options = {}) {
+  const api = new FakeDigitalOceanApi(options);
+  const client = new DigitalOcean('token', undefined, { fetch: api.fetch });
+  return { api, client };
+}
+
+Deno.test('droplets become active and run actions', async () => {
+  const { client } = setup({ transitionDelay: 20 });
+  const droplet = await client.droplets.createNewDroplet(DROPLET as any);
+  assertEquals(droplet.status, 'new');
+
+  const active = await client.droplets.waitForDropletActive(droplet.id, {
+    interval: 10
+  });
+  assertEquals(active.networks?.v4.length, 1);
+
+  const action = await client.dropletActions.powerOffDroplet(droplet.id);
+  assertEquals(action.status, 'in-progress');
+  assertEquals(action.completed_at, null);
+  const completed = await action.wait({ interval: 10 });
+  assertEquals(typeof completed.completed_at, 'string');
+  const off = await client.droplets.getExistingDroplet(droplet.id);
+  assertEquals(off.status, 'off');
+});
+
+Deno.test('deleted droplets are gone', async () => {
+  const { api, client } = setup();
+  const droplet = await client.droplets.createNewDroplet(DROPLET as any);
+
+  await client.droplets.deleteDroplet(droplet.id);
+  await client.droplets.waitForDropletDeleted(droplet.id, { interval: 10 });
+  assertEquals(api.state.droplets.size, 0);
+});
+
+Deno.test('list endpoints are paginated', async () => {
+  const { client } = setup();
+  await client.droplets.createMultipleDroplets({
+    ...DROPLET,
+    names: ['one', 'two', 'three']
+  } as any);
+
+  const droplets = await client.droplets.getAllDroplets({ perPage: 2 });
+  assertEquals(
+    droplets.map(droplet => droplet.name),
+    ['one', 'two', 'three']
+  );
+});
+
+Deno.test('tags are added to and removed from droplets', async () => {
+  const { api, client } = setup();
+  const droplet = await client.droplets.createNewDroplet(DROPLET as any);
+  await client.tags.createTag('web');
+
+  await client.tags.tagResources('web', [String(droplet.id)]);
+  assertEquals(api.state.droplets.get(droplet.id)?.tags, ['web']);
+  await client.tags.removeTagFromResources('web', [String(droplet.id)]);
+  assertEquals(api.state.droplets.get(droplet.id)?.tags, []);
+});
+
+Deno.test('droplets are added to and removed from load balancers', async () => {
+  const { api, client } = setup();
+  const loadBalancer = await client.loadBalancers.createLoadBalancer({
+    name: 'lb',
+    region: 'nyc3',
+    forwarding_rules: [
+      {
+        entry_protocol: 'http',
+        entry_port: 80,
+        target_protocol: 'http',
+        target_port: 80
+      }
+    ]
+  } as any);
+
+  await client.loadBalancers.addDropletsToLoadBalancer(loadBalancer.id, [1, 2]);
+  await client.loadBalancers.removeDropletsFromLoadBalancer(loadBalancer.id, [
+    1
+  ]);
+  assertEquals(api.state.loadBalancers.get(loadBalancer.id)?.droplet_ids, [2]);
+});
+
+Deno.test('errors match the API', async () => {
+  const api = new FakeDigitalOceanApi({ token: 'valid' });
+  const client = new DigitalOcean('valid', undefined, { fetch: api.fetch });
+  const unauthorized = new DigitalOcean('invalid', undefined, {
+    fetch: api.fetch
+  });
+
+  const error = await assertRejects(
+    () => client.droplets.getExistingDroplet(1234),
+    NotFoundError
+  );
+  assertEquals(error.id, 'not_found');
+  assertEquals(typeof error.request_id, 'string');
+  await assertRejects(() => client.tags.createTag(''), ValidationError);
+  await assertRejects(() => unauthorized.tags.getTags(), UnauthorizedError);
+});
+
+Deno.test('request bodies must be JSON', async () => {
+  const api = new FakeDigitalOceanApi();
+
+  const response = await api.fetch('https://api.digitalocean.com/v2/tags', {
+    method: 'POST',
+    headers: { Authorization: 'Bearer token' },
+    body: JSON.stringify({ name: 'web' })
+  });
+  assertEquals(response.status, 415);
+  assertEquals((await response.json()).id, 'unsupported_media_type');
+});
+
+Deno.test('responses carry rate limit headers', async () => {
+  const { client } = setup();
+  await client.tags.getTags();
+  await client.tags.getTags();
+
+  assertEquals(client.rateLimit.state?.limit, 5000);
+  assertEquals(client.rateLimit.state?.remaining, 4998);
+});
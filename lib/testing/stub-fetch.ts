@@ -0,0 +1,37 @@
+/**
+ * Builds the response to a request sent to a `StubFetch`
+ */
+export type StubHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * `fetch` stand-in for unit tests, answering every request with the handler
+ * and recording copies of the requests sent.
+ *
+ * @ignore
+ */
+export class StubFetch {
+  readonly requests: Request[] = [];
+
+  constructor(private handler: StubHandler) {}
+
+  fetch = async (
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+    this.requests.push(request.clone());
+    return await this.handler(request);
+  };
+
+  /**
+   * Replace the global `fetch` with the stub, returning a function restoring
+   * the original one
+   */
+  install(): () => void {
+    const original = globalThis.fetch;
+    globalThis.fetch = this.fetch;
+    return () => {
+      globalThis.fetch = original;
+    };
+  }
+}
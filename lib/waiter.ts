@@ -0,0 +1,146 @@
+import { ActionFailedError, WaitTimeoutError } from './errors.ts';
+import { Action } from './models/action.ts';
+import { RequestTool } from './request-tool.ts';
+import { sleep } from './retry.ts';
+
+export interface WaitOptions {
+  /** Milliseconds before giving up with a `WaitTimeoutError` */
+  timeout?: number;
+  /** Milliseconds between two polls */
+  interval?: number;
+  /** Cancels waiting, rejecting with the reason of the signal */
+  signal?: AbortSignal;
+}
+
+export interface WaitUntilOptions<T> extends WaitOptions {
+  /** Description of the awaited state, used in timeout messages */
+  description?: string;
+  /** Called with the resource after every poll */
+  onProgress?: (current: T) => void;
+}
+
+/**
+ * An action as returned by the action services, which can be awaited until it
+ * completes
+ */
+export interface WaitableAction extends Action {
+  /**
+   * Poll the action until its status is `completed`. Rejects with an
+   * `ActionFailedError` if it is `errored`.
+   */
+  wait(options?: WaitOptions): Promise<Action>;
+}
+
+const DEFAULT_TIMEOUT = 10 * 60 * 1000;
+const DEFAULT_INTERVAL = 5000;
+
+/**
+ * Call `check` every `interval` milliseconds until it returns a value other
+ * than `undefined`
+ *
+ * @ignore
+ */
+export async function poll<T>(
+  description: string,
+  check: () => Promise<T | undefined>,
+  options: WaitOptions = {}
+): Promise<T> {
+  const {
+    timeout = DEFAULT_TIMEOUT,
+    interval = DEFAULT_INTERVAL,
+    signal
+  } = options;
+  const deadline = Date.now() + timeout;
+  while (true) {
+    signal?.throwIfAborted();
+    const result = await check();
+    if (result !== undefined) {
+      return result;
+    }
+    const left = deadline - Date.now();
+    if (left <= 0) {
+      throw new WaitTimeoutError(description, timeout);
+    }
+    await sleep(Math.min(interval, left), signal);
+  }
+}
+
+/**
+ * Fetch a resource every `interval` milliseconds until `condition` holds for
+ * it. Throw from `condition` to stop waiting with an error.
+ *
+ * ### Example
+ * ```js
+ * import { DigitalOcean, waitUntil } from 'digitalocean-js';
+ *
+ * const client = new DigitalOcean('your-api-key');
+ * const droplet = await waitUntil(
+ *   () => client.droplets.getExistingDroplet(1234),
+ *   droplet => droplet.status === 'off',
+ *   { timeout: 60000, onProgress: droplet => console.log(droplet.status) }
+ * );
+ * ```
+ */
+export function waitUntil<T>(
+  fetch: () => Promise<T>,
+  condition: (current: T) => boolean,
+  options: WaitUntilOptions<T> = {}
+): Promise<T> {
+  const { description = 'condition', onProgress } = options;
+  return poll(
+    description,
+    async () => {
+      const current = await fetch();
+      onProgress?.(current);
+      return condition(current) ? { current } : undefined;
+    },
+    options
+  ).then(({ current }) => current);
+}
+
+/**
+ * Poll an action until it completes
+ *
+ * @ignore
+ */
+export function waitForAction(
+  request: RequestTool,
+  action: Action | number,
+  options?: WaitOptions
+): Promise<Action> {
+  const id = typeof action === 'number' ? action : action.id;
+  let current = typeof action === 'number' ? undefined : action;
+  return poll(
+    `action ${id}`,
+    async () => {
+      if (!current) {
+        const response = await request.get(`/actions/${id}`, {
+          signal: options?.signal
+        });
+        current = response.data.action as Action;
+      }
+      if (current.status === 'errored') {
+        throw new ActionFailedError(current);
+      }
+      if (current.status === 'completed') {
+        return current;
+      }
+      current = undefined;
+    },
+    options
+  );
+}
+
+/**
+ * Attach a `wait()` method to an action returned by the API
+ *
+ * @ignore
+ */
+export function toWaitableAction(
+  request: RequestTool,
+  action: Action
+): WaitableAction {
+  return Object.defineProperty(action, 'wait', {
+    value: (options?: WaitOptions) => waitForAction(request, action, options)
+  }) as WaitableAction;
+}
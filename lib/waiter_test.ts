@@ -0,0 +1,177 @@
+import { assertEquals, assertRejects, assertStringIncludes } from '@std/assert';
+import { DigitalOcean } from './digitalocean.ts';
+import {
+  ActionFailedError,
+  ResourceFailedError,
+  WaitTimeoutError
+} from './errors.ts';
+import { StubFetch } from './testing/stub-fetch.ts';
+import { poll } from './waiter.ts';
+
+function action(status: string) {
+  return {
+    id: 36804636,
+    status,
+    type: 'power_off',
+    started_at: '2024-01-01T00:00:00Z',
+    completed_at: null,
+    resource_id: 3164444,
+    resource_type: 'droplet',
+    region_slug: 'nyc3'
+  };
+}
+
+/**
+ * Answers action reads with the given statuses in order, repeating the last
+ */
+function actionStatuses(...statuses: string[]) {
+  let reads = 0;
+  return new StubFetch(request => {
+    const status =
+      request.method === 'POST'
+        ? statuses[0]
+        : statuses[Math.min(++reads, statuses.length - 1)];
+    return Response.json({ action: action(status) });
+  });
+}
+
+Deno.test('droplet actions can be waited on', async () => {
+  const stub = actionStatuses('in-progress', 'in-progress', 'completed');
+  const restore = stub.install();
+  try {
+    const client = new DigitalOcean('token');
+    const started = await client.dropletActions.powerOffDroplet(3164444);
+    assertEquals(started.status, 'in-progress');
+
+    const completed = await started.wait({ interval: 1 });
+    assertEquals(completed.status, 'completed');
+  } finally {
+    restore();
+  }
+
+  assertEquals(
+    stub.requests.map(request => `${request.method} ${request.url}`),
+    [
+      'POST https://api.digitalocean.com/v2/droplets/3164444/actions',
+      'GET https://api.digitalocean.com/v2/actions/36804636',
+      'GET https://api.digitalocean.com/v2/actions/36804636'
+    ]
+  );
+});
+
+Deno.test('errored actions reject with ActionFailedError', async () => {
+  const stub = actionStatuses('in-progress', 'errored');
+  const restore = stub.install();
+  try {
+    const client = new DigitalOcean('token');
+    const error = await assertRejects(
+      () => client.actions.waitForAction(36804636, { interval: 1 }),
+      ActionFailedError
+    );
+    assertEquals(error.action.resource_id, 3164444);
+  } finally {
+    restore();
+  }
+});
+
+Deno.test('waiting gives up after the timeout', async () => {
+  const stub = actionStatuses('in-progress');
+  const restore = stub.install();
+  try {
+    const client = new DigitalOcean('token');
+    const error = await assertRejects(
+      () =>
+        client.actions.waitForAction(36804636, { interval: 10, timeout: 50 }),
+      WaitTimeoutError
+    );
+    assertStringIncludes(error.message, 'action 36804636');
+  } finally {
+    restore();
+  }
+});
+
+Deno.test('waiting stops when the signal aborts', async () => {
+  const controller = new AbortController();
+  const waiting = poll('never', () => Promise.resolve(undefined), {
+    interval: 1000,
+    signal: controller.signal
+  });
+  setTimeout(() => controller.abort(new Error('stopped')), 10);
+
+  await assertRejects(() => waiting, Error, 'stopped');
+});
+
+/**
+ * Answers reads of a resource with the given bodies in order, repeating the
+ * last one
+ */
+function states(...bodies: (() => Response)[]) {
+  let reads = 0;
+  return new StubFetch(() => bodies[Math.min(++reads, bodies.length) - 1]());
+}
+
+const droplet = (status: string) => () =>
+  Response.json({ droplet: { id: 3164444, status } });
+
+Deno.test('waitForDropletActive resolves once the droplet is up', async () => {
+  const stub = states(droplet('new'), droplet('new'), droplet('active'));
+  const restore = stub.install();
+  const statuses: string[] = [];
+  try {
+    const client = new DigitalOcean('token');
+    const active = await client.droplets.waitForDropletActive(3164444, {
+      interval: 1,
+      onProgress: current => statuses.push(current.status)
+    });
+    assertEquals(active.status, 'active');
+  } finally {
+    restore();
+  }
+
+  assertEquals(statuses, ['new', 'new', 'active']);
+});
+
+Deno.test(
+  'waitForDropletDeleted resolves once the droplet is gone',
+  async () => {
+    const stub = states(droplet('active'), () =>
+      Response.json({ id: 'not_found' }, { status: 404 })
+    );
+    const restore = stub.install();
+    try {
+      const client = new DigitalOcean('token', undefined, { retry: false });
+      await client.droplets.waitForDropletDeleted(3164444, { interval: 1 });
+    } finally {
+      restore();
+    }
+
+    assertEquals(stub.requests.length, 2);
+  }
+);
+
+Deno.test(
+  'kubernetes clusters in the error state fail the waiter',
+  async () => {
+    const cluster = (state: string) => () =>
+      Response.json({
+        kubernetes_cluster: { id: 'cluster-id', status: { state } }
+      });
+    const stub = states(cluster('provisioning'), cluster('error'));
+    const restore = stub.install();
+    try {
+      const client = new DigitalOcean('token');
+      const error = await assertRejects(
+        () =>
+          client.kubernetes.waitForClusterRunning('cluster-id', {
+            interval: 1
+          }),
+        ResourceFailedError
+      );
+      assertStringIncludes(error.message, 'cluster-id');
+    } finally {
+      restore();
+    }
+
+    assertEquals(stub.requests.length, 2);
+  }
+);
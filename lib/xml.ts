@@ -0,0 +1,138 @@
+/**
+ * Element of a parsed XML document. Only what the S3 API returns is
+ * supported: elements, attributes and text, no DTDs or processing logic.
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Parse an XML document into its root element
+ *
+ * @ignore
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = {
+    name: '',
+    attributes: {},
+    children: [],
+    text: ''
+  };
+  const stack = [root];
+  const tags =
+    /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  for (const match of xml.matchAll(tags)) {
+    const [, cdata, closing, opening, attributes, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closing) {
+      if (stack.length > 1) {
+        stack.pop();
+      }
+    } else if (opening) {
+      const element: XmlElement = {
+        name: localName(opening),
+        attributes: parseAttributes(attributes),
+        children: [],
+        text: ''
+      };
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    } else if (text !== undefined) {
+      current.text += unescapeXml(text);
+    }
+  }
+  return root.children[0] ?? root;
+}
+
+/**
+ * First child element named `name`
+ *
+ * @ignore
+ */
+export function xmlChild(
+  element: XmlElement | undefined,
+  name: string
+): XmlElement | undefined {
+  return element?.children.find(child => child.name === name);
+}
+
+/**
+ * Every child element named `name`
+ *
+ * @ignore
+ */
+export function xmlChildren(
+  element: XmlElement | undefined,
+  name: string
+): XmlElement[] {
+  return element?.children.filter(child => child.name === name) ?? [];
+}
+
+/**
+ * Text of the first child element named `name`. It is not trimmed, object
+ * keys may start or end with whitespace.
+ *
+ * @ignore
+ */
+export function xmlText(
+  element: XmlElement | undefined,
+  name: string
+): string | undefined {
+  return xmlChild(element, name)?.text;
+}
+
+/**
+ * Escape text for use in an XML document
+ *
+ * @ignore
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code) => {
+    if (code[0] === '#') {
+      const hex = code[1] === 'x' || code[1] === 'X';
+      return String.fromCodePoint(
+        parseInt(code.slice(hex ? 2 : 1), hex ? 16 : 10)
+      );
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+function parseAttributes(source = ''): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, double, single] of source.matchAll(
+    /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  )) {
+    attributes[name] = unescapeXml(double ?? single);
+  }
+  return attributes;
+}
+
+// drop namespace prefixes, e.g. `xsi:type`, S3 elements are unprefixed
+function localName(name: string) {
+  return name.slice(name.indexOf(':') + 1);
+}
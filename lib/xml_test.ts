@@ -0,0 +1,52 @@
+import { assertEquals } from '@std/assert';
+import { escapeXml, parseXml, xmlChildren, xmlText } from './xml.ts';
+
+Deno.test('parseXml reads a bucket listing', () => {
+  const root = parseXml(`<?xml version="1.0" encoding="UTF-8"?>
+<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+  <Name>static</Name>
+  <Contents><Key>a &amp; b.txt</Key><Size>12</Size></Contents>
+  <Contents><Key><![CDATA[<raw>.txt]]></Key><Size>3</Size></Contents>
+  <!-- comment -->
+  <Empty/>
+</ListBucketResult>`);
+
+  assertEquals(root.name, 'ListBucketResult');
+  assertEquals(
+    root.attributes.xmlns,
+    'http://s3.amazonaws.com/doc/2006-03-01/'
+  );
+  assertEquals(xmlText(root, 'Name'), 'static');
+  assertEquals(
+    xmlChildren(root, 'Contents').map(item => xmlText(item, 'Key')),
+    ['a & b.txt', '<raw>.txt']
+  );
+  assertEquals(xmlText(root, 'Empty'), '');
+  assertEquals(xmlText(root, 'Missing'), undefined);
+});
+
+Deno.test('parseXml decodes numeric entities and drops prefixes', () => {
+  const root = parseXml(
+    `<s3:Error xmlns:s3="urn:s3"><s3:Message>caf&#233; &#x2713;</s3:Message></s3:Error>`
+  );
+
+  assertEquals(root.name, 'Error');
+  assertEquals(xmlText(root, 'Message'), 'café ✓');
+});
+
+Deno.test('xmlText keeps surrounding whitespace of keys', () => {
+  const root = parseXml('<Contents><Key> spaced </Key></Contents>');
+  assertEquals(xmlText(root, 'Key'), ' spaced ');
+});
+
+Deno.test('escapeXml round trips through parseXml', () => {
+  const key = `<a href="x">'&'</a>`;
+  assertEquals(
+    escapeXml(key),
+    '&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;'
+  );
+  assertEquals(
+    xmlText(parseXml(`<Object><Key>${escapeXml(key)}</Key></Object>`), 'Key'),
+    key
+  );
+});
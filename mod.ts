@@ -1,2 +1,3 @@
 export * from './lib/digitalocean.ts';
+export * from './lib/errors.ts';
 export * from './lib/models/index.ts';